@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Voice" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "voiceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Voice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Voice_voiceId_key" ON "Voice"("voiceId");
+
+-- CreateIndex
+CREATE INDEX "Voice_userId_idx" ON "Voice"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Voice" ADD CONSTRAINT "Voice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
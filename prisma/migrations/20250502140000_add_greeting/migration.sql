@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Greeting" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "voiceId" TEXT NOT NULL,
+    "modelId" TEXT NOT NULL,
+    "occasion" TEXT,
+    "voiceSettings" JSONB,
+    "durationSeconds" DOUBLE PRECISION,
+    "audioFile" TEXT,
+    "audioBytes" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Greeting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Greeting_userId_createdAt_idx" ON "Greeting"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Greeting" ADD CONSTRAINT "Greeting_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
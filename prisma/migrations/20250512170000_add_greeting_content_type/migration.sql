@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Greeting" ADD COLUMN     "contentType" TEXT NOT NULL DEFAULT 'audio/mpeg';
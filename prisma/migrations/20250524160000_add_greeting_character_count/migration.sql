@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Greeting" ADD COLUMN     "characterCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Every greeting so far was a billed request
+UPDATE "Greeting" SET "characterCount" = char_length("text");
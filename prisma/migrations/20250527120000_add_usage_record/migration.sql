@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "UsageRecord" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "voiceId" TEXT,
+    "modelId" TEXT,
+    "characters" INTEGER NOT NULL DEFAULT 0,
+    "bytes" INTEGER,
+    "latencyMs" INTEGER,
+    "success" BOOLEAN NOT NULL,
+    "cached" BOOLEAN NOT NULL DEFAULT false,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_userId_createdAt_idx" ON "UsageRecord"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_createdAt_idx" ON "UsageRecord"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the ledger from existing greetings so current quotas carry over
+INSERT INTO "UsageRecord" ("id", "userId", "action", "provider", "voiceId", "modelId", "characters", "bytes", "success", "cached", "createdAt")
+SELECT 'greeting_' || "id", "userId", 'tts', 'elevenlabs', "voiceId", "modelId", "characterCount", "audioBytes", true, "characterCount" = 0, "createdAt"
+FROM "Greeting"
+WHERE "audioFile" IS NOT NULL;
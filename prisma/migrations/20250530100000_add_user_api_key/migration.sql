@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "elevenLabsApiKeyEncrypted" TEXT,
+ADD COLUMN     "elevenLabsApiKeyLast4" TEXT,
+ADD COLUMN     "elevenLabsApiKeyUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "ownApiKey" BOOLEAN NOT NULL DEFAULT false;
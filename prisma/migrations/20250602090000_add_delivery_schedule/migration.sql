@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "DeliverySchedule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "greetingId" TEXT NOT NULL,
+    "recipients" TEXT[],
+    "channel" TEXT NOT NULL,
+    "senderName" TEXT,
+    "note" TEXT,
+    "localDate" TEXT NOT NULL,
+    "localTime" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "results" JSONB,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliverySchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliverySchedule_status_nextAttemptAt_idx" ON "DeliverySchedule"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "DeliverySchedule_userId_scheduledFor_idx" ON "DeliverySchedule"("userId", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "DeliverySchedule" ADD CONSTRAINT "DeliverySchedule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliverySchedule" ADD CONSTRAINT "DeliverySchedule_greetingId_fkey" FOREIGN KEY ("greetingId") REFERENCES "Greeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
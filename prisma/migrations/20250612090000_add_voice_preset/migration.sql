@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Greeting" ADD COLUMN "presetName" TEXT;
+
+-- CreateTable
+CREATE TABLE "VoicePreset" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "voiceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "settings" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VoicePreset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VoicePreset_userId_voiceId_name_key" ON "VoicePreset"("userId", "voiceId", "name");
+
+-- AddForeignKey
+ALTER TABLE "VoicePreset" ADD CONSTRAINT "VoicePreset_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
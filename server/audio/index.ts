@@ -0,0 +1,45 @@
+import * as mp3 from './mp3.js';
+import * as wav from './wav.js';
+
+// Format dispatch for the audio the TTS providers return
+
+export const audioFileExtension = (contentType: string): string => {
+    return contentType === 'audio/wav' ? 'wav' : 'mp3';
+};
+
+export const getAudioDuration = (audio: Buffer, contentType: string): number => {
+    return contentType === 'audio/wav' ? wav.getDuration(audio) : mp3.getDuration(audio);
+};
+
+// Duration of an uploaded voice sample; null for formats that can't be measured here
+export const getSampleDuration = (audio: Buffer, mimeType: string): number | null => {
+    if (['audio/wav', 'audio/x-wav', 'audio/wave'].includes(mimeType)) return wav.getDuration(audio) || null;
+    if (['audio/mpeg', 'audio/mp3'].includes(mimeType)) return mp3.getDuration(audio) || null;
+    return null;
+};
+
+// Joins audio synthesized in parts into one file of the same format
+export const concatenateAudio = (parts: Buffer[], contentType: string): Buffer => {
+    if (parts.length === 1) return parts[0];
+    if (contentType === 'audio/wav') {
+        const joined = wav.concatenate(parts);
+        if (!joined) {
+            throw new Error('Cannot join WAV parts with different formats');
+        }
+        return joined;
+    }
+    return mp3.concatenate(parts);
+};
+
+// Silence matching the format of `template`, for splicing between parts
+export const renderSilence = (template: Buffer, contentType: string, seconds: number): Buffer => {
+    const audio = contentType === 'audio/wav' ? wav.silence(template, seconds) : mp3.silence(template, seconds);
+    if (!audio) {
+        throw new Error('Cannot build silence without audio to match');
+    }
+    return audio;
+};
+
+export const audioContentType = (extension: string): string => {
+    return extension === 'wav' ? 'audio/wav' : 'audio/mpeg';
+};
@@ -0,0 +1,140 @@
+// Minimal MPEG audio frame parser. Enough to measure the duration of the MP3s
+// ElevenLabs returns without pulling in a decoder.
+
+export interface Mp3Frame {
+    offset: number;      // Byte offset of the frame header in the buffer
+    length: number;      // Frame length in bytes, including the header
+    samples: number;     // PCM samples per channel in this frame
+    sampleRate: number;
+}
+
+// Bitrates in kbps, indexed by [version group][layer][bitrate index]
+// version group 0 = MPEG-1, 1 = MPEG-2/2.5
+const BITRATES: number[][][] = [
+    [
+        [],
+        [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],     // Layer III
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],    // Layer II
+        [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448], // Layer I
+    ],
+    [
+        [],
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],         // Layer III
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],         // Layer II
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],    // Layer I
+    ],
+];
+
+// Sample rates in Hz, indexed by [version bits][sample rate index]
+const SAMPLE_RATES: Record<number, number[]> = {
+    0b11: [44100, 48000, 32000], // MPEG-1
+    0b10: [22050, 24000, 16000], // MPEG-2
+    0b00: [11025, 12000, 8000],  // MPEG-2.5
+};
+
+/**
+ * Reads the frame header at `offset`, or returns null if there is no valid
+ * header there.
+ */
+export const readFrameHeader = (buffer: Buffer, offset: number): Mp3Frame | null => {
+    if (offset + 4 > buffer.length) return null;
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (buffer[offset + 1] >> 3) & 0b11;
+    const layerBits = (buffer[offset + 1] >> 1) & 0b11;
+    const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+    const sampleRateIndex = (buffer[offset + 2] >> 2) & 0b11;
+    const padding = (buffer[offset + 2] >> 1) & 0b1;
+
+    if (versionBits === 0b01 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 0x0f || sampleRateIndex === 0b11) {
+        return null;
+    }
+
+    const isMpeg1 = versionBits === 0b11;
+    const bitrate = BITRATES[isMpeg1 ? 0 : 1][layerBits][bitrateIndex] * 1000;
+    const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+
+    let samples: number;
+    let length: number;
+    if (layerBits === 0b11) { // Layer I
+        samples = 384;
+        length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    } else {
+        samples = layerBits === 0b01 && !isMpeg1 ? 576 : 1152;
+        length = Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+    }
+
+    return { offset, length, samples, sampleRate };
+};
+
+// Size of a leading ID3v2 tag, or 0 if the buffer doesn't start with one
+const id3v2Size = (buffer: Buffer): number => {
+    if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0;
+    const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+    const hasFooter = (buffer[5] & 0x10) !== 0;
+    return 10 + size + (hasFooter ? 10 : 0);
+};
+
+/**
+ * Walks every MPEG audio frame in the buffer. Bytes that don't form a frame
+ * (tags, junk between frames) are skipped.
+ */
+export const parseFrames = (buffer: Buffer): Mp3Frame[] => {
+    const frames: Mp3Frame[] = [];
+    let offset = id3v2Size(buffer);
+
+    while (offset + 4 <= buffer.length) {
+        const frame = readFrameHeader(buffer, offset);
+        if (!frame || offset + frame.length > buffer.length) {
+            offset += 1;
+            continue;
+        }
+        frames.push(frame);
+        offset += frame.length;
+    }
+    return frames;
+};
+
+// Xing/Info (LAME) and VBRI headers sit in an otherwise silent first frame and
+// describe the frame count of their own file, which is wrong once files are joined
+const isInfoFrame = (buffer: Buffer, frame: Mp3Frame): boolean => {
+    const start = buffer.toString('latin1', frame.offset + 4, Math.min(frame.offset + 40, frame.offset + frame.length));
+    return start.includes('Xing') || start.includes('Info') || start.includes('VBRI');
+};
+
+/**
+ * Joins MP3 files frame by frame. Tags and Xing/Info headers are dropped, so the
+ * result is one continuous run of frames with nothing in between at the joins.
+ */
+export const concatenate = (buffers: Buffer[]): Buffer => {
+    return Buffer.concat(buffers.flatMap((buffer) => parseFrames(buffer)
+        .filter((frame, index) => index > 0 || !isInfoFrame(buffer, frame))
+        .map((frame) => buffer.subarray(frame.offset, frame.offset + frame.length))));
+};
+
+/**
+ * Builds `seconds` of silence as frames in the format of the first frame of
+ * `template`, so it can be joined to that audio. Returns null if the template
+ * has no frames.
+ */
+export const silence = (template: Buffer, seconds: number): Buffer | null => {
+    const [first] = parseFrames(template);
+    if (!first) return null;
+
+    // Same version, layer, bitrate and sample rate, without CRC or padding. A
+    // frame whose side info and data are all zero decodes to silence.
+    const header = Buffer.from(template.subarray(first.offset, first.offset + 4));
+    header[1] |= 0x01;
+    header[2] &= ~0x02;
+    const { length, samples, sampleRate } = readFrameHeader(header, 0)!;
+    const frame = Buffer.alloc(length);
+    header.copy(frame, 0);
+    return Buffer.concat(Array.from({ length: Math.round(seconds * sampleRate / samples) }, () => frame));
+};
+
+/**
+ * Duration of an MP3 buffer in seconds.
+ */
+export const getDuration = (buffer: Buffer): number => {
+    return parseFrames(buffer).reduce((total, frame) => total + frame.samples / frame.sampleRate, 0);
+};
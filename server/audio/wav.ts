@@ -0,0 +1,113 @@
+// PCM WAV helpers for the local TTS engine, which produces WAV instead of MP3.
+
+export interface WavInfo {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+    dataOffset: number;
+    dataLength: number;
+}
+
+type WavFormat = Pick<WavInfo, 'sampleRate' | 'channels' | 'bitsPerSample'>;
+
+// 44-byte header of a PCM WAV file holding dataLength bytes of samples
+const writeHeader = ({ sampleRate, channels, bitsPerSample }: WavFormat, dataLength: number): Buffer => {
+    const header = Buffer.alloc(44);
+    const blockAlign = channels * (bitsPerSample / 8);
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + dataLength, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);                       // fmt chunk size
+    header.writeUInt16LE(1, 20);                        // PCM
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);  // byte rate
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(dataLength, 40);
+    return header;
+};
+
+/**
+ * Wraps 16-bit mono PCM samples in a WAV container.
+ */
+export const encodeWav = (samples: Int16Array, sampleRate: number): Buffer => {
+    const data = Buffer.alloc(samples.length * 2);
+    for (let i = 0; i < samples.length; i++) {
+        data.writeInt16LE(samples[i], i * 2);
+    }
+    return Buffer.concat([writeHeader({ sampleRate, channels: 1, bitsPerSample: 16 }, data.length), data]);
+};
+
+/**
+ * Locates the fmt and data chunks, or returns null if this isn't a PCM WAV file.
+ */
+export const readWavInfo = (buffer: Buffer): WavInfo | null => {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+
+    let offset = 12;
+    let format: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        let chunkSize = buffer.readUInt32LE(offset + 4);
+        if (chunkId === 'fmt ') {
+            format = {
+                channels: buffer.readUInt16LE(offset + 10),
+                sampleRate: buffer.readUInt32LE(offset + 12),
+                bitsPerSample: buffer.readUInt16LE(offset + 22),
+            };
+        } else if (chunkId === 'data' && format) {
+            // Streamed WAVs (e.g. espeak-ng --stdout) may leave the size unset
+            if (chunkSize === 0 || chunkSize === 0xffffffff || offset + 8 + chunkSize > buffer.length) {
+                chunkSize = buffer.length - offset - 8;
+            }
+            return { ...format, dataOffset: offset + 8, dataLength: chunkSize };
+        }
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return null;
+};
+
+/**
+ * Joins PCM WAV files into one. Returns null if any of them can't be parsed
+ * or their formats differ.
+ */
+export const concatenate = (buffers: Buffer[]): Buffer | null => {
+    const infos = buffers.map(readWavInfo);
+    const [first] = infos;
+    if (!first || infos.some((info) => !info
+        || info.sampleRate !== first.sampleRate
+        || info.channels !== first.channels
+        || info.bitsPerSample !== first.bitsPerSample)) {
+        return null;
+    }
+    const data = Buffer.concat(infos.map((info, i) => buffers[i].subarray(info!.dataOffset, info!.dataOffset + info!.dataLength)));
+    return Buffer.concat([writeHeader(first, data.length), data]);
+};
+
+/**
+ * Builds `seconds` of silence in the format of `template`. Returns null if the
+ * template can't be parsed.
+ */
+export const silence = (template: Buffer, seconds: number): Buffer | null => {
+    const info = readWavInfo(template);
+    if (!info) return null;
+    const blockAlign = info.channels * (info.bitsPerSample / 8);
+    const data = Buffer.alloc(Math.round(seconds * info.sampleRate) * blockAlign);
+    return Buffer.concat([writeHeader(info, data.length), data]);
+};
+
+/**
+ * Duration of a WAV buffer in seconds (0 if it can't be parsed).
+ */
+export const getDuration = (buffer: Buffer): number => {
+    const info = readWavInfo(buffer);
+    if (!info) return 0;
+    const bytesPerSecond = info.sampleRate * info.channels * (info.bitsPerSample / 8);
+    return bytesPerSecond > 0 ? info.dataLength / bytesPerSecond : 0;
+};
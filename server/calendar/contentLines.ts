@@ -0,0 +1,127 @@
+// vCard (RFC 6350) and iCalendar (RFC 5545) share the same "content line"
+// syntax: NAME;PARAM=value:VALUE, folded at 75 octets with a leading space.
+
+export interface ContentLine {
+    name: string;                       // Upper-cased, without any "item1." group prefix
+    params: Record<string, string[]>;   // Upper-cased parameter names
+    value: string;
+}
+
+// Joins folded lines and drops blank ones
+const unfold = (text: string): string[] => {
+    return text
+        .replace(/\r\n|\r/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter((line) => line.trim() !== '');
+};
+
+// Splits on the first unquoted occurrence of any of the given characters
+const splitUnquoted = (text: string, separators: string): [string, string | null] => {
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') quoted = !quoted;
+        else if (!quoted && separators.includes(char)) return [text.slice(0, i), text.slice(i)];
+    }
+    return [text, null];
+};
+
+const parseLine = (line: string): ContentLine | null => {
+    const [head, rest] = splitUnquoted(line, ':');
+    if (rest === null) return null;
+
+    const [rawName, ...rawParams] = head.split(';');
+    const params: Record<string, string[]> = {};
+    for (const param of rawParams) {
+        const separator = param.indexOf('=');
+        const key = separator === -1 ? param : param.slice(0, separator);
+        const value = separator === -1 ? '' : param.slice(separator + 1);
+        // A quoted value is a single value, even if it contains commas
+        const values = value.startsWith('"') ? [value.replace(/^"|"$/g, '')] : value.split(',');
+        params[key.toUpperCase()] = [...(params[key.toUpperCase()] ?? []), ...values];
+    }
+
+    return {
+        name: rawName.replace(/^[^.]*\./, '').toUpperCase(),
+        params,
+        value: rest.slice(1),
+    };
+};
+
+/**
+ * Parses a file into its components of the given type (VCARD, VEVENT), each
+ * as a list of content lines. Nested components (VALARM) are skipped.
+ */
+export const parseComponents = (text: string, type: string): ContentLine[][] => {
+    const components: ContentLine[][] = [];
+    let current: ContentLine[] | null = null;
+    let nestedDepth = 0;
+
+    for (const raw of unfold(text)) {
+        const line = parseLine(raw);
+        if (!line) continue;
+        const value = line.value.trim().toUpperCase();
+
+        if (line.name === 'BEGIN') {
+            if (value === type && !current) {
+                current = [];
+            } else if (current) {
+                nestedDepth++;
+            }
+        } else if (line.name === 'END') {
+            if (nestedDepth > 0) {
+                nestedDepth--;
+            } else if (value === type && current) {
+                components.push(current);
+                current = null;
+            }
+        } else if (current && nestedDepth === 0) {
+            current.push(line);
+        }
+    }
+    return components;
+};
+
+export const unescapeText = (value: string): string => {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+export const escapeText = (value: string): string => {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Folds a content line to 75 octets, as calendar clients expect. Breaks fall
+ * between characters so multi-byte UTF-8 sequences stay intact.
+ */
+export const foldLine = (line: string): string => {
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        const limit = chunks.length === 0 ? 75 : 74; // Continuation lines start with a space
+        if (octets + size > limit) {
+            chunks.push(chunk);
+            chunk = '';
+            octets = 0;
+        }
+        chunk += char;
+        octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+};
+
+/**
+ * Reads a DATE or DATE-TIME value (19900610, 1990-06-10, 19900610T000000Z,
+ * and vCard's year-less --0610 / --06-10) as YYYY-MM-DD, or --MM-DD when the
+ * year is missing. Returns null for anything else.
+ */
+export const parseDateValue = (value: string): string | null => {
+    const match = /^(\d{4}|--)-?(\d{2})-?(\d{2})(?:T.*)?$/.exec(value.trim());
+    if (!match) return null;
+    const [, year, month, day] = match;
+    return `${year === '--' ? '-' : year}-${month}-${day}`;
+};
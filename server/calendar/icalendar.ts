@@ -0,0 +1,102 @@
+import { ContentLine, escapeText, foldLine, parseComponents, parseDateValue, unescapeText } from './contentLines.js';
+import { ContactOccasion } from '../contacts.js';
+
+// Reading birthdays and anniversaries out of .ics files, and writing the
+// subscribable feed of scheduled deliveries.
+
+export interface YearlyEvent {
+    summary: string;
+    name: string;                   // Who the event is for, taken from the summary
+    email: string | null;           // From an ATTENDEE, when the event has one
+    occasion: ContactOccasion;
+    date: string;                   // --MM-DD
+}
+
+export interface CalendarEvent {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    description?: string;
+    updatedAt: Date;
+}
+
+// "Alice's Birthday", "Birthday: Alice", "Happy birthday Alice", "Alice Anniversary"
+const SUMMARY_PATTERNS = [
+    /^(?<name>.+?)['’]s?\s+(?<occasion>birthday|bday|b-day|anniversary)\b/i,
+    /^(?:happy\s+)?(?<occasion>birthday|bday|b-day|anniversary)\b\s*(?:of|for|[-–:])?\s*(?<name>.*)$/i,
+    /^(?<name>.+?)\s+(?<occasion>birthday|bday|b-day|anniversary)\b/i,
+];
+
+const readSummary = (summary: string): { name: string; occasion: ContactOccasion } | null => {
+    for (const pattern of SUMMARY_PATTERNS) {
+        const groups = pattern.exec(summary.trim())?.groups;
+        if (groups) {
+            const occasion = groups.occasion.toLowerCase() === 'anniversary' ? 'anniversary' : 'birthday';
+            return { name: groups.name.replace(/[()[\]🎂🎉💍]/gu, '').trim(), occasion };
+        }
+    }
+    return null;
+};
+
+const findValue = (lines: ContentLine[], name: string) => lines.find((line) => line.name === name)?.value;
+
+/**
+ * Birthdays and anniversaries from an .ics file: events that repeat every year
+ * and whose title names the occasion. The year is dropped because DTSTART is
+ * usually when the event was created, not when the person was born.
+ */
+export const parseYearlyEvents = (text: string): YearlyEvent[] => {
+    const events: YearlyEvent[] = [];
+    for (const lines of parseComponents(text, 'VEVENT')) {
+        const rrule = findValue(lines, 'RRULE') ?? '';
+        if (!/(^|;)FREQ=YEARLY(;|$)/i.test(rrule)) continue;
+
+        const summary = unescapeText(findValue(lines, 'SUMMARY') ?? '');
+        const parsedSummary = readSummary(summary);
+        const start = parseDateValue(findValue(lines, 'DTSTART') ?? '');
+        if (!parsedSummary || !start) continue;
+
+        const attendee = lines.find((line) => line.name === 'ATTENDEE' && /^mailto:/i.test(line.value));
+        events.push({
+            summary,
+            name: parsedSummary.name || attendee?.params.CN?.[0] || '',
+            email: attendee ? attendee.value.replace(/^mailto:/i, '').trim() : null,
+            occasion: parsedSummary.occasion,
+            date: `--${start.slice(-5)}`,
+        });
+    }
+    return events;
+};
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const renderCalendar = (name: string, events: CalendarEvent[]): string => {
+    const now = formatDateTime(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//AudioGreets//Scheduled Greetings//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        'X-PUBLISHED-TTL:PT1H',
+    ];
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${now}`,
+            `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+            `DTSTART:${formatDateTime(event.start)}`,
+            `DTEND:${formatDateTime(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        );
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,49 @@
+import { ContentLine, parseComponents, parseDateValue, unescapeText } from './contentLines.js';
+
+// Reads contacts out of .vcf exports (phone address books, Google Contacts,
+// Outlook). Only the fields the address book uses are kept.
+
+export interface VCardContact {
+    name: string;
+    email: string | null;
+    birthday: string | null;     // YYYY-MM-DD or --MM-DD
+    anniversary: string | null;
+}
+
+const first = (lines: ContentLine[], ...names: string[]) =>
+    names.map((name) => lines.find((line) => line.name === name)).find(Boolean);
+
+// The email marked preferred, else the first one listed
+const pickEmail = (lines: ContentLine[]): string | null => {
+    const emails = lines.filter((line) => line.name === 'EMAIL' && line.value.trim());
+    const isPreferred = (line: ContentLine) =>
+        (line.params.TYPE ?? []).some((type) => type.toUpperCase() === 'PREF') || line.params.PREF !== undefined;
+    const email = emails.find(isPreferred) ?? emails[0];
+    return email ? email.value.trim().replace(/^mailto:/i, '') : null;
+};
+
+// FN is required in vCard 3+, but older exports only have N (Last;First;Middle;Prefix;Suffix)
+const pickName = (lines: ContentLine[]): string => {
+    const formatted = first(lines, 'FN');
+    if (formatted && formatted.value.trim()) {
+        return unescapeText(formatted.value).trim();
+    }
+    const structured = first(lines, 'N');
+    if (!structured) return '';
+    const [last = '', given = ''] = structured.value.split(';').map((part) => unescapeText(part).trim());
+    return [given, last].filter(Boolean).join(' ');
+};
+
+export const parseVCards = (text: string): VCardContact[] => {
+    return parseComponents(text, 'VCARD').map((lines) => {
+        const birthday = first(lines, 'BDAY');
+        // ANNIVERSARY is vCard 4; Outlook and Evolution export their own extensions
+        const anniversary = first(lines, 'ANNIVERSARY', 'X-ANNIVERSARY', 'X-MS-ANNIVERSARY', 'X-EVOLUTION-ANNIVERSARY');
+        return {
+            name: pickName(lines),
+            email: pickEmail(lines),
+            birthday: birthday ? parseDateValue(birthday.value) : null,
+            anniversary: anniversary ? parseDateValue(anniversary.value) : null,
+        };
+    });
+};
@@ -0,0 +1,209 @@
+import { Contact } from '@prisma/client';
+
+// Birthday and anniversary handling for the address book. Dates are calendar
+// days with no time zone: YYYY-MM-DD, or --MM-DD when the year is unknown.
+
+const FULL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_DAY_PATTERN = /^(?:--)?(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Contact fields that map onto ids in the OCCASIONS list
+export const CONTACT_OCCASIONS = ['birthday', 'anniversary'] as const;
+export type ContactOccasion = typeof CONTACT_OCCASIONS[number];
+
+export interface UpcomingOccasion {
+    contactId: string;
+    name: string;
+    email: string;
+    occasion: ContactOccasion;
+    date: string;           // Next occurrence, YYYY-MM-DD
+    daysAway: number;       // 0 = today
+    years: number | null;   // Age turned or years married; null when the year is unknown
+}
+
+const isLeapYear = (year: number) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+const isRealDate = (year: number, month: number, day: number): boolean => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Accepts YYYY-MM-DD, --MM-DD or MM-DD and returns the stored form, or null if
+ * it isn't a real calendar date. Feb 29 is allowed without a year.
+ */
+export const normalizeContactDate = (value: string): string | null => {
+    const trimmed = value.trim();
+    const full = FULL_DATE_PATTERN.exec(trimmed);
+    if (full) {
+        const [year, month, day] = full.slice(1).map(Number);
+        return isRealDate(year, month, day) && year >= 1900 ? trimmed : null;
+    }
+    const monthDay = MONTH_DAY_PATTERN.exec(trimmed);
+    if (monthDay) {
+        const [month, day] = monthDay.slice(1).map(Number);
+        return isRealDate(2000, month, day) ? `--${monthDay[1]}-${monthDay[2]}` : null;
+    }
+    return null;
+};
+
+const parseStoredDate = (value: string): { year: number | null; month: number; day: number } | null => {
+    const full = FULL_DATE_PATTERN.exec(value);
+    if (full) {
+        const [year, month, day] = full.slice(1).map(Number);
+        return { year, month, day };
+    }
+    const monthDay = MONTH_DAY_PATTERN.exec(value);
+    return monthDay ? { year: null, month: Number(monthDay[1]), day: Number(monthDay[2]) } : null;
+};
+
+/**
+ * The next time a stored date comes round on or after `from` (a UTC midnight).
+ * Feb 29 dates fall on Feb 28 in other years.
+ */
+export const nextOccurrence = (value: string, from: Date): { date: Date; years: number | null } | null => {
+    const parsed = parseStoredDate(value);
+    if (!parsed) return null;
+
+    for (let year = from.getUTCFullYear(); ; year++) {
+        const day = parsed.month === 2 && parsed.day === 29 && !isLeapYear(year) ? 28 : parsed.day;
+        const date = new Date(Date.UTC(year, parsed.month - 1, day));
+        if (date >= from) {
+            return { date, years: parsed.year !== null ? year - parsed.year : null };
+        }
+    }
+};
+
+/**
+ * Birthdays and anniversaries falling within `days` days of `today`
+ * (YYYY-MM-DD in the caller's time zone), soonest first.
+ */
+export const upcomingOccasions = (contacts: Contact[], today: string, days: number): UpcomingOccasion[] => {
+    const from = new Date(`${today}T00:00:00Z`);
+    const upcoming: UpcomingOccasion[] = [];
+
+    for (const contact of contacts) {
+        for (const occasion of CONTACT_OCCASIONS) {
+            const value = contact[occasion];
+            const next = value ? nextOccurrence(value, from) : null;
+            if (!next) continue;
+            const daysAway = Math.round((next.date.getTime() - from.getTime()) / DAY_MS);
+            if (daysAway > days) continue;
+            upcoming.push({
+                contactId: contact.id,
+                name: contact.name,
+                email: contact.email,
+                occasion,
+                date: formatDate(next.date),
+                daysAway,
+                years: next.years !== null && next.years > 0 ? next.years : null,
+            });
+        }
+    }
+
+    return upcoming.sort((a, b) => a.daysAway - b.daysAway || a.name.localeCompare(b.name));
+};
+
+// --- Import ---
+
+export interface ImportCandidate {
+    name: string;
+    email: string | null;
+    birthday: string | null;
+    anniversary: string | null;
+}
+
+/**
+ * new: no contact with this email yet. update: adds dates an existing contact
+ * is missing. duplicate: nothing new. needs_email: came from a calendar event
+ * that couldn't be matched to anyone by name, so the user has to supply one.
+ */
+export type ImportStatus = 'new' | 'update' | 'duplicate' | 'needs_email';
+
+export interface ImportPreviewRow extends ImportCandidate {
+    status: ImportStatus;
+    contactId: string | null;       // Existing contact the row would update
+    changes: ContactOccasion[];     // Dates the import would fill in
+}
+
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Keeps existing dates; only fills ones the target doesn't have
+const mergeDates = (target: ImportCandidate, source: ImportCandidate) => {
+    target.birthday = target.birthday ?? source.birthday;
+    target.anniversary = target.anniversary ?? source.anniversary;
+    target.name = target.name || source.name;
+};
+
+/**
+ * Collapses parsed vCards and calendar events into one row per person and
+ * compares them with the user's contacts. Rows are matched by email; calendar
+ * events without an email are matched by name.
+ */
+export const previewContactImport = (candidates: ImportCandidate[], existing: Contact[]): ImportPreviewRow[] => {
+    const byEmail = new Map<string, ImportCandidate>();
+    const withoutEmail: ImportCandidate[] = [];
+
+    for (const candidate of candidates) {
+        const email = candidate.email?.trim().toLowerCase() || null;
+        const cleaned: ImportCandidate = {
+            name: candidate.name.trim().slice(0, 100),
+            email: email && isEmail(email) ? email : null,
+            birthday: candidate.birthday ? normalizeContactDate(candidate.birthday) : null,
+            anniversary: candidate.anniversary ? normalizeContactDate(candidate.anniversary) : null,
+        };
+        if (!cleaned.name && !cleaned.email) continue;
+        if (!cleaned.birthday && !cleaned.anniversary && !cleaned.email) continue;
+
+        if (cleaned.email) {
+            const match = byEmail.get(cleaned.email);
+            if (match) mergeDates(match, cleaned);
+            else byEmail.set(cleaned.email, { ...cleaned, name: cleaned.name || cleaned.email });
+        } else {
+            withoutEmail.push(cleaned);
+        }
+    }
+
+    // Name-only rows borrow the email of a same-named row or contact
+    const emailByName = new Map<string, string>();
+    existing.forEach((contact) => emailByName.set(nameKey(contact.name), contact.email));
+    byEmail.forEach((candidate, email) => emailByName.set(nameKey(candidate.name), email));
+
+    const needsEmail = new Map<string, ImportCandidate>();
+    for (const candidate of withoutEmail) {
+        const key = nameKey(candidate.name);
+        const email = emailByName.get(key);
+        if (email) {
+            const match = byEmail.get(email);
+            if (match) mergeDates(match, candidate);
+            else byEmail.set(email, { ...candidate, email });
+        } else {
+            const match = needsEmail.get(key);
+            if (match) mergeDates(match, candidate);
+            else needsEmail.set(key, { ...candidate });
+        }
+    }
+
+    const existingByEmail = new Map(existing.map((contact) => [contact.email, contact]));
+    const rows: ImportPreviewRow[] = Array.from(byEmail.values()).map((candidate) => {
+        const contact = existingByEmail.get(candidate.email!);
+        if (!contact) {
+            return { ...candidate, status: 'new', contactId: null, changes: [] };
+        }
+        const changes = CONTACT_OCCASIONS.filter((occasion) => candidate[occasion] && !contact[occasion]);
+        return {
+            ...candidate,
+            name: contact.name,
+            status: changes.length > 0 ? 'update' : 'duplicate',
+            contactId: contact.id,
+            changes,
+        };
+    });
+    needsEmail.forEach((candidate) => rows.push({ ...candidate, status: 'needs_email', contactId: null, changes: [] }));
+
+    const order: Record<ImportStatus, number> = { new: 0, update: 1, needs_email: 2, duplicate: 3 };
+    return rows.sort((a, b) => order[a.status] - order[b.status] || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import { PrismaClient, Job, Prisma } from '@prisma/client';
+
+// Background queue for slow provider work (voice cloning, adding samples, long synthesis).
+// Jobs live in the Job table, so queued work survives restarts, and are
+// claimed with a conditional update like delivery schedules. Progress is
+// written to the row and also emitted in-process, so event streams served by
+// the worker's own process see it without waiting for the next poll.
+
+export const JOB_TYPES = ['clone', 'samples', 'tts'] as const;
+export type JobType = typeof JOB_TYPES[number];
+export const ACTIVE_JOB_STATUSES = ['queued', 'running'];
+export const FINISHED_JOB_STATUSES = ['succeeded', 'failed'];
+
+// Records what a running job is doing; progress is 0 to 1
+export type ReportProgress = (stage: string, progress: number) => Promise<void>;
+
+export interface JobHandler {
+    // Returns the job's result. Throwing fails the job without a retry, since
+    // provider errors are rarely transient and a repeat could bill twice.
+    run(job: Job, report: ReportProgress): Promise<Prisma.InputJsonValue>;
+    // Called once the job has finished for good, e.g. to remove uploaded files
+    cleanup?(job: Job): Promise<void>;
+}
+
+// A job whose worker died is retried until it has been started this often
+export const MAX_JOB_ATTEMPTS = 3;
+
+// A running job's lock is refreshed this often...
+const HEARTBEAT_MS = 30 * 1000;
+// ...so one that hasn't been touched this long belonged to a process that died
+const STALE_LOCK_MS = 5 * 60 * 1000;
+// Progress within a stage is written at most this often; stage changes always are
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+// Finished jobs are kept for clients that reconnect, then deleted
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class JobQueue {
+    private timer: NodeJS.Timeout | null = null;
+    private isPolling = false;
+    private active = 0;
+    private events = new EventEmitter();
+
+    constructor(
+        private prisma: PrismaClient,
+        private handlers: Record<JobType, JobHandler>,
+        private pollIntervalMs = 2 * 1000,
+        private concurrency = 2
+    ) {
+        this.events.setMaxListeners(0); // One listener per open event stream
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+        this.poll();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async enqueue(userId: string, type: JobType, input: Prisma.InputJsonValue): Promise<Job> {
+        const job = await this.prisma.job.create({ data: { userId, type, input } });
+        if (this.timer) this.poll(); // Start right away instead of on the next poll
+        return job;
+    }
+
+    // Calls the listener with the job each time this process updates it
+    subscribe(jobId: string, listener: (job: Job) => void): () => void {
+        this.events.on(jobId, listener);
+        return () => {
+            this.events.off(jobId, listener);
+        };
+    }
+
+    private emit(job: Job): void {
+        this.events.emit(job.id, job);
+    }
+
+    private async poll(): Promise<void> {
+        if (this.isPolling) return;
+        this.isPolling = true;
+        try {
+            await this.recoverStaleJobs();
+            await this.claimQueuedJobs();
+        } catch (error) {
+            console.error('Job queue poll failed:', error);
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    private async recoverStaleJobs(now = new Date()): Promise<void> {
+        const stale = await this.prisma.job.findMany({
+            where: { status: 'running', lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+        });
+        for (const job of stale) {
+            if (job.attempts < MAX_JOB_ATTEMPTS) {
+                const { count } = await this.prisma.job.updateMany({
+                    where: { id: job.id, status: 'running', lockedAt: job.lockedAt },
+                    data: { status: 'queued', stage: 'queued', progress: 0, lockedAt: null },
+                });
+                if (count > 0) console.warn(`Requeued job ${job.id} left running by a stopped worker`);
+            } else {
+                await this.finish(job, { status: 'failed', error: 'The server stopped while this job was running. Please try again.' }, { status: 'running', lockedAt: job.lockedAt });
+            }
+        }
+
+        await this.prisma.job.deleteMany({
+            where: { status: { in: FINISHED_JOB_STATUSES }, finishedAt: { lt: new Date(now.getTime() - FINISHED_JOB_RETENTION_MS) } },
+        });
+    }
+
+    private async claimQueuedJobs(): Promise<void> {
+        const free = this.concurrency - this.active;
+        if (free <= 0) return;
+
+        const queued = await this.prisma.job.findMany({
+            where: { status: 'queued' },
+            orderBy: { createdAt: 'asc' },
+            take: free,
+        });
+        for (const job of queued) {
+            const now = new Date();
+            const { count } = await this.prisma.job.updateMany({
+                where: { id: job.id, status: 'queued' },
+                data: { status: 'running', lockedAt: now, startedAt: now, attempts: { increment: 1 } },
+            });
+            if (count === 0) continue;  // Claimed by another process since the query
+
+            this.active += 1;
+            const claimed: Job = { ...job, status: 'running', lockedAt: now, startedAt: now, attempts: job.attempts + 1 };
+            this.run(claimed).finally(() => {
+                this.active -= 1;
+                if (this.timer) this.poll();  // A slot is free; pick up whatever is waiting
+            });
+        }
+    }
+
+    private async run(job: Job): Promise<void> {
+        const handler = this.handlers[job.type as JobType];
+        // Don't overwrite the row if it was requeued while this attempt was stalled
+        const ownAttempt: Prisma.JobWhereInput = { status: 'running', attempts: job.attempts };
+        this.emit(job);
+
+        let current = job;
+        let lastWriteAt = 0;
+        const report: ReportProgress = async (stage, progress) => {
+            const changedStage = stage !== current.stage;
+            current = { ...current, stage, progress: Math.min(Math.max(progress, 0), 1) };
+            this.emit(current);
+            if (changedStage || Date.now() - lastWriteAt >= PROGRESS_WRITE_INTERVAL_MS) {
+                lastWriteAt = Date.now();
+                current = await this.prisma.job.update({
+                    where: { id: job.id },
+                    data: { stage: current.stage, progress: current.progress, lockedAt: new Date() },
+                });
+            }
+        };
+        const heartbeat = setInterval(() => {
+            this.prisma.job.update({ where: { id: job.id }, data: { lockedAt: new Date() } })
+                .catch((error) => console.error(`Failed to refresh lock on job ${job.id}:`, error));
+        }, HEARTBEAT_MS);
+
+        try {
+            if (!handler) {
+                throw new Error(`Unknown job type: ${job.type}`);
+            }
+            const result = await handler.run(job, report);
+            await this.finish(current, { status: 'succeeded', stage: 'done', progress: 1, result }, ownAttempt);
+            console.log(`Job ${job.id} (${job.type}) succeeded`);
+        } catch (error: any) {
+            console.error(`Job ${job.id} (${job.type}) failed:`, error);
+            await this.finish(current, { status: 'failed', error: error.message || 'Job failed' }, ownAttempt)
+                .catch((finishError) => console.error(`Failed to record failure of job ${job.id}:`, finishError));
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    // Marks the job finished (only if it still matches `where`) and runs its cleanup
+    private async finish(job: Job, data: Prisma.JobUpdateManyMutationInput, where: Prisma.JobWhereInput = {}): Promise<void> {
+        const { count } = await this.prisma.job.updateMany({
+            where: { ...where, id: job.id },
+            data: { ...data, lockedAt: null, finishedAt: new Date() },
+        });
+        if (count === 0) return;
+
+        const finished = await this.prisma.job.findUnique({ where: { id: job.id } });
+        if (finished) this.emit(finished);
+
+        const cleanup = this.handlers[job.type as JobType]?.cleanup;
+        if (cleanup) {
+            await cleanup(job).catch((error) => console.error(`Cleanup after job ${job.id} failed:`, error));
+        }
+    }
+}
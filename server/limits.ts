@@ -0,0 +1,73 @@
+// Per-user limits: request rate limiting and the calendar windows used for
+// character quotas. Rate limit state is kept in memory, so it resets on restart
+// and is per process.
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    retryAfterSeconds: number;  // 0 when allowed
+}
+
+/**
+ * Sliding-window rate limiter: at most `limit` requests per key within any
+ * `windowSeconds` span. A limit of 0 disables it.
+ */
+export class RateLimiter {
+    private hits = new Map<string, number[]>();
+
+    constructor(readonly limit: number, readonly windowSeconds: number) {}
+
+    consume(key: string, now = Date.now()): RateLimitResult {
+        if (this.limit <= 0) {
+            return { allowed: true, limit: 0, remaining: Infinity, retryAfterSeconds: 0 };
+        }
+
+        const windowStart = now - this.windowSeconds * 1000;
+        const recent = (this.hits.get(key) || []).filter((time) => time > windowStart);
+
+        if (recent.length >= this.limit) {
+            this.hits.set(key, recent);
+            // The oldest hit in the window is the next one to expire
+            const retryAfterSeconds = Math.max(1, Math.ceil((recent[0] - windowStart) / 1000));
+            return { allowed: false, limit: this.limit, remaining: 0, retryAfterSeconds };
+        }
+
+        recent.push(now);
+        this.hits.set(key, recent);
+        return { allowed: true, limit: this.limit, remaining: this.limit - recent.length, retryAfterSeconds: 0 };
+    }
+
+    // Drops keys with no hits left in the window so the map doesn't grow forever
+    prune(now = Date.now()): void {
+        const windowStart = now - this.windowSeconds * 1000;
+        for (const [key, times] of this.hits) {
+            if (!times.some((time) => time > windowStart)) {
+                this.hits.delete(key);
+            }
+        }
+    }
+}
+
+export type QuotaPeriod = 'day' | 'month';
+
+// Quotas reset at midnight UTC and on the first of the month (UTC)
+export const quotaWindow = (period: QuotaPeriod, now = new Date()): { start: Date; resetsAt: Date } => {
+    if (period === 'day') {
+        const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+        return { start, resetsAt: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+    }
+    return {
+        start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+};
+
+// "3 hours", "12 minutes", "45 seconds"
+export const formatWait = (seconds: number): string => {
+    const unit = (value: number, name: string) => `${value} ${name}${value === 1 ? '' : 's'}`;
+    if (seconds >= 2 * 24 * 60 * 60) return unit(Math.ceil(seconds / (24 * 60 * 60)), 'day');
+    if (seconds >= 2 * 60 * 60) return unit(Math.ceil(seconds / (60 * 60)), 'hour');
+    if (seconds >= 2 * 60) return unit(Math.ceil(seconds / 60), 'minute');
+    return unit(Math.max(1, Math.ceil(seconds)), 'second');
+};
@@ -0,0 +1,112 @@
+import { escapeHtml } from '../html.js';
+import { DEFAULT_THEME, OccasionTheme } from '../occasions.js';
+
+// HTML + plain-text bodies for outgoing mail. Layout uses tables and inline
+// styles because most mail clients ignore <style> blocks.
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+interface GreetingEmailOptions {
+    theme: OccasionTheme;
+    senderName: string;
+    note?: string;
+    greetingText: string;
+    shareUrl?: string;  // Set when the greeting is delivered as a link
+}
+
+const layout = (theme: OccasionTheme, content: string): string => `<!doctype html>
+<html>
+<body style="margin:0;padding:0;background:${theme.backgroundColor};">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${theme.backgroundColor};padding:32px 12px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:520px;background:#ffffff;border-radius:12px;border-top:6px solid ${theme.accentColor};font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+<tr><td style="padding:32px;">
+${content}
+</td></tr>
+</table>
+<p style="font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#9ca3af;margin-top:16px;">Sent with AudioGreets</p>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+const button = (theme: OccasionTheme, href: string, label: string): string =>
+    `<a href="${escapeHtml(href)}" style="display:inline-block;background:${theme.accentColor};color:#ffffff;text-decoration:none;padding:12px 24px;border-radius:8px;font-weight:bold;">${escapeHtml(label)}</a>`;
+
+export const renderGreetingEmail = ({ theme, senderName, note, greetingText, shareUrl }: GreetingEmailOptions): RenderedEmail => {
+    const subject = `${theme.emoji} ${senderName} sent you a ${theme.name.toLowerCase()} greeting`;
+    const listenInstructions = shareUrl
+        ? 'Press play on the page below to listen.'
+        : 'The greeting is attached to this email.';
+
+    const html = layout(theme, `
+<div style="font-size:40px;text-align:center;">${theme.emoji}</div>
+<h1 style="font-size:22px;text-align:center;color:${theme.accentColor};margin:16px 0;">${escapeHtml(senderName)} sent you a ${escapeHtml(theme.name.toLowerCase())} greeting</h1>
+${note ? `<p style="font-size:15px;line-height:1.5;background:${theme.backgroundColor};border-radius:8px;padding:12px 16px;white-space:pre-wrap;">${escapeHtml(note)}</p>` : ''}
+<p style="font-size:15px;line-height:1.5;color:#4b5563;font-style:italic;white-space:pre-wrap;">&ldquo;${escapeHtml(greetingText)}&rdquo;</p>
+<p style="font-size:14px;color:#6b7280;">${listenInstructions}</p>
+${shareUrl ? `<p style="text-align:center;margin:24px 0 8px;">${button(theme, shareUrl, 'Listen to your greeting')}</p>` : ''}`);
+
+    const text = [
+        `${senderName} sent you a ${theme.name.toLowerCase()} greeting ${theme.emoji}`,
+        '',
+        ...(note ? [note, ''] : []),
+        `"${greetingText}"`,
+        '',
+        shareUrl ? `Listen here: ${shareUrl}` : listenInstructions,
+    ].join('\n');
+
+    return { subject, html, text };
+};
+
+export const renderPasswordResetEmail = ({ resetUrl, expiresInMinutes }: { resetUrl: string; expiresInMinutes: number }): RenderedEmail => {
+    const subject = 'Reset your AudioGreets password';
+    const expiry = `This link expires in ${expiresInMinutes} minutes and can only be used once.`;
+    const ignore = "If you didn't ask to reset your password, you can ignore this email. Your password won't change.";
+
+    const html = layout(DEFAULT_THEME, `
+<h1 style="font-size:22px;color:${DEFAULT_THEME.accentColor};margin:0 0 16px;">Reset your password</h1>
+<p style="font-size:15px;line-height:1.5;">Someone (hopefully you) asked to reset the password for your AudioGreets account.</p>
+<p style="text-align:center;margin:24px 0;">${button(DEFAULT_THEME, resetUrl, 'Choose a new password')}</p>
+<p style="font-size:14px;color:#6b7280;">${expiry}</p>
+<p style="font-size:14px;color:#6b7280;">${ignore}</p>`);
+
+    const text = [
+        'Someone (hopefully you) asked to reset the password for your AudioGreets account.',
+        '',
+        `Choose a new password: ${resetUrl}`,
+        '',
+        expiry,
+        ignore,
+    ].join('\n');
+
+    return { subject, html, text };
+};
+
+export const renderVerificationEmail = ({ verifyUrl, expiresInHours }: { verifyUrl: string; expiresInHours: number }): RenderedEmail => {
+    const subject = 'Confirm your email for AudioGreets';
+    const expiry = `This link expires in ${expiresInHours} hours.`;
+    const ignore = "If you didn't create an AudioGreets account, you can ignore this email.";
+
+    const html = layout(DEFAULT_THEME, `
+<h1 style="font-size:22px;color:${DEFAULT_THEME.accentColor};margin:0 0 16px;">Confirm your email</h1>
+<p style="font-size:15px;line-height:1.5;">Thanks for signing up! Confirm your address to start cloning voices and creating greetings.</p>
+<p style="text-align:center;margin:24px 0;">${button(DEFAULT_THEME, verifyUrl, 'Verify my email')}</p>
+<p style="font-size:14px;color:#6b7280;">${expiry}</p>
+<p style="font-size:14px;color:#6b7280;">${ignore}</p>`);
+
+    const text = [
+        'Thanks for signing up! Confirm your address to start cloning voices and creating greetings.',
+        '',
+        `Verify your email: ${verifyUrl}`,
+        '',
+        expiry,
+        ignore,
+    ].join('\n');
+
+    return { subject, html, text };
+};
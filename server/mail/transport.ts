@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+// Mail delivery behind a small interface so the app can send through SMTP in
+// production and to disk or the console while developing.
+
+export interface MailAttachment {
+    filename: string;
+    content: Buffer;
+    contentType: string;
+}
+
+export interface MailMessage {
+    to: string;
+    from: { name: string; address: string };
+    replyTo?: string;
+    subject: string;
+    html: string;
+    text: string;
+    attachments?: MailAttachment[];
+}
+
+export interface MailResult {
+    messageId: string;
+}
+
+export interface MailTransport {
+    readonly name: string;
+    send(message: MailMessage): Promise<MailResult>;
+}
+
+// Real delivery through an SMTP server (also works with local catchers such as MailHog or Mailpit)
+export class SmtpTransport implements MailTransport {
+    readonly name = 'smtp';
+    private transporter: Transporter;
+
+    constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+        });
+    }
+
+    async send(message: MailMessage): Promise<MailResult> {
+        const info = await this.transporter.sendMail(message);
+        return { messageId: info.messageId };
+    }
+}
+
+// Writes each message as an .eml file that any mail client can open
+export class FileTransport implements MailTransport {
+    readonly name = 'file';
+    private transporter: Transporter;
+
+    constructor(private outboxDir: string) {
+        fs.mkdirSync(outboxDir, { recursive: true });
+        this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    }
+
+    async send(message: MailMessage): Promise<MailResult> {
+        const info = await this.transporter.sendMail(message);
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+        const filePath = path.join(this.outboxDir, fileName);
+        await fs.promises.writeFile(filePath, info.message as Buffer);
+        console.log(`Mail (file): wrote message for ${message.to} to ${filePath}`);
+        return { messageId: info.messageId };
+    }
+}
+
+// Logs a summary of each message; attachments are listed, not dumped
+export class ConsoleTransport implements MailTransport {
+    readonly name = 'console';
+
+    async send(message: MailMessage): Promise<MailResult> {
+        const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2)}@console>`;
+        console.log([
+            '--- Mail (console) ---',
+            `To: ${message.to}`,
+            `From: ${message.from.name} <${message.from.address}>`,
+            ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+            `Subject: ${message.subject}`,
+            ...(message.attachments || []).map((a) => `Attachment: ${a.filename} (${a.contentType}, ${a.content.length} bytes)`),
+            '',
+            message.text,
+            '----------------------',
+        ].join('\n'));
+        return { messageId };
+    }
+}
+
+/**
+ * Picks the transport from MAIL_TRANSPORT (smtp | file | console, default console).
+ */
+export const createMailTransport = (env: NodeJS.ProcessEnv, defaultOutboxDir: string): MailTransport => {
+    const transportName = (env.MAIL_TRANSPORT || 'console').toLowerCase();
+
+    switch (transportName) {
+        case 'smtp':
+            if (!env.SMTP_HOST) {
+                throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set.');
+            }
+            return new SmtpTransport({
+                host: env.SMTP_HOST,
+                port: parseInt(env.SMTP_PORT || '587', 10),
+                secure: env.SMTP_SECURE === 'true',
+                user: env.SMTP_USER,
+                pass: env.SMTP_PASS,
+            });
+        case 'file':
+            return new FileTransport(env.MAIL_OUTBOX_DIR || defaultOutboxDir);
+        case 'console':
+            return new ConsoleTransport();
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${transportName}". Use smtp, file or console.`);
+    }
+};
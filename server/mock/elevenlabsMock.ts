@@ -0,0 +1,353 @@
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { fileURLToPath } from 'url';
+import { getSampleDuration } from '../audio/index.js';
+
+// Stand-in for the parts of the ElevenLabs API the backend calls, for local
+// development and integration tests without network access. Point the backend
+// at it with ELEVENLABS_API_BASE_URL=http://localhost:3100/v1.
+//
+// Behaviour:
+// - Every request needs an xi-api-key header. If ELEVENLABS_MOCK_API_KEY is set
+//   the header must match it, otherwise any non-empty key is accepted.
+// - TTS returns silent MPEG-1 Layer III frames whose length depends only on the
+//   text, so the same request always produces the same bytes.
+// - Cloned voices live in memory and disappear when the mock restarts.
+// - Errors can be forced from a test by putting a marker in the TTS text or the
+//   cloned voice name: [mock:401], [mock:422], [mock:429] or [mock:500].
+
+export interface ElevenLabsMockOptions {
+    apiKey?: string;  // Required xi-api-key value; any non-empty key when unset
+}
+
+interface MockVoice {
+    voice_id: string;
+    name: string;
+    category: string;
+    description?: string;
+    labels: Record<string, string>;
+    preview_url?: string;
+}
+
+interface MockSample {
+    sample_id: string;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    duration_secs: number | null;
+    audio: Buffer;
+}
+
+const STOCK_VOICES: MockVoice[] = [
+    { voice_id: 'mock-voice-rachel', name: 'Rachel', category: 'premade', description: 'Calm narration', labels: { accent: 'american', gender: 'female' } },
+    { voice_id: 'mock-voice-adam', name: 'Adam', category: 'premade', description: 'Deep narration', labels: { accent: 'american', gender: 'male' } },
+    { voice_id: 'mock-voice-freya', name: 'Freya', category: 'premade', description: 'Bright and friendly', labels: { accent: 'british', gender: 'female' } },
+];
+
+const LANGUAGES = {
+    en: { language_id: 'en', name: 'English' },
+    de: { language_id: 'de', name: 'German' },
+    es: { language_id: 'es', name: 'Spanish' },
+    fr: { language_id: 'fr', name: 'French' },
+};
+
+// A subset of the fields GET /v1/models returns
+const MODELS = [
+    {
+        model_id: 'eleven_multilingual_v2',
+        name: 'Eleven Multilingual v2',
+        description: 'Most life-like, emotionally rich model',
+        can_do_text_to_speech: true,
+        can_use_style: true,
+        can_use_speaker_boost: true,
+        languages: Object.values(LANGUAGES),
+        maximum_text_length_per_request: 10000,
+    },
+    {
+        model_id: 'eleven_flash_v2_5',
+        name: 'Eleven Flash v2.5',
+        description: 'Ultra low latency',
+        can_do_text_to_speech: true,
+        can_use_style: false,
+        can_use_speaker_boost: false,
+        languages: Object.values(LANGUAGES),
+        maximum_text_length_per_request: 40000,
+    },
+    {
+        model_id: 'eleven_monolingual_v1',
+        name: 'Eleven English v1',
+        description: 'Our first model',
+        can_do_text_to_speech: true,
+        can_use_style: false,
+        can_use_speaker_boost: true,
+        languages: [LANGUAGES.en],
+        maximum_text_length_per_request: 5000,
+    },
+    {
+        model_id: 'eleven_english_sts_v2',
+        name: 'Eleven English v2 (speech to speech)',
+        can_do_text_to_speech: false,
+        can_use_style: true,
+        can_use_speaker_boost: true,
+        languages: [LANGUAGES.en],
+    },
+];
+
+// 128 kbps, 44.1 kHz, mono, no padding: 144 * 128000 / 44100 = 417 bytes per frame
+const FRAME_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0xc4]);
+const FRAME_LENGTH = 417;
+const SAMPLES_PER_FRAME = 1152;
+const SAMPLE_RATE = 44100;
+const SECONDS_PER_CHARACTER = 0.06;
+const FRAMES_PER_CHUNK = 16;
+
+/**
+ * Builds silent MP3 audio whose duration is proportional to the text length.
+ */
+export const renderSilentMp3 = (text: string): Buffer => {
+    const seconds = Math.max(0.5, text.length * SECONDS_PER_CHARACTER);
+    const frameCount = Math.ceil(seconds * SAMPLE_RATE / SAMPLES_PER_FRAME);
+    const frame = Buffer.alloc(FRAME_LENGTH);
+    FRAME_HEADER.copy(frame, 0);
+    return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+};
+
+// Error bodies in the shapes ElevenLabs uses
+const ERRORS: Record<number, unknown> = {
+    401: { detail: { status: 'invalid_api_key', message: 'Invalid API key' } },
+    422: { detail: [{ loc: ['body', 'text'], msg: 'field required', type: 'value_error.missing' }] },
+    429: { detail: { status: 'too_many_concurrent_requests', message: 'Too many concurrent requests. Please retry later.' } },
+    500: { detail: { status: 'internal_error', message: 'Mock internal server error' } },
+};
+
+// Returns the status requested by a [mock:NNN] marker, if any
+const forcedStatus = (value: unknown): number | null => {
+    if (typeof value !== 'string') return null;
+    const match = value.match(/\[mock:(\d{3})\]/);
+    return match && ERRORS[Number(match[1])] ? Number(match[1]) : null;
+};
+
+// The /stream endpoints answer errors with a chunked body like the real API,
+// so the backend has to read the error out of a stream
+const sendError = (res: Response, status: number, body: unknown, asStream = false) => {
+    if (status === 429) {
+        res.setHeader('Retry-After', '1');
+    }
+    if (!asStream) {
+        res.status(status).json(body);
+        return;
+    }
+    res.status(status).setHeader('Content-Type', 'application/json');
+    Readable.from([Buffer.from(JSON.stringify(body))]).pipe(res);
+};
+
+export const createElevenLabsMock = ({ apiKey }: ElevenLabsMockOptions = {}) => {
+    const app = express();
+    const upload = multer({ storage: multer.memoryStorage() });
+    const clonedVoices = new Map<string, MockVoice>();
+    const voiceSamples = new Map<string, MockSample[]>();
+    let cloneCount = 0;
+
+    const toSamples = (files: Express.Multer.File[]): MockSample[] => files.map((file) => ({
+        sample_id: crypto.randomBytes(8).toString('hex'),
+        file_name: file.originalname,
+        mime_type: file.mimetype,
+        size_bytes: file.size,
+        duration_secs: getSampleDuration(file.buffer, file.mimetype),
+        audio: file.buffer,
+    }));
+
+    app.use(express.json());
+
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        console.log(`[elevenlabs-mock] ${req.method} ${req.path}`);
+        const key = req.header('xi-api-key');
+        if (!key || (apiKey && key !== apiKey)) {
+            sendError(res, 401, ERRORS[401], req.path.endsWith('/stream'));
+            return;
+        }
+        next();
+    });
+
+    const findVoice = (voiceId: string) =>
+        STOCK_VOICES.find((voice) => voice.voice_id === voiceId) || clonedVoices.get(voiceId);
+
+    const voiceNotFound = { detail: { status: 'voice_not_found', message: 'A voice with the voice_id was not found.' } };
+
+    // Subscription details; the backend only calls this to check that a key works
+    app.get('/v1/user', (_req: Request, res: Response) => {
+        res.json({
+            subscription: { tier: 'free', character_count: 0, character_limit: 10000, status: 'active' },
+            is_new_user: false,
+        });
+    });
+
+    app.get('/v1/voices', (_req: Request, res: Response) => {
+        res.json({ voices: [...STOCK_VOICES, ...clonedVoices.values()] });
+    });
+
+    app.get('/v1/models', (_req: Request, res: Response) => {
+        res.json(MODELS);
+    });
+
+    app.post('/v1/voices/add', upload.array('files', 30), (req: Request, res: Response) => {
+        const files = Array.isArray(req.files) ? req.files : [];
+        const status = forcedStatus(req.body.name);
+        if (status) {
+            sendError(res, status, ERRORS[status]);
+            return;
+        }
+        if (!req.body.name || files.length === 0) {
+            sendError(res, 422, {
+                detail: [{ loc: ['body', req.body.name ? 'files' : 'name'], msg: 'field required', type: 'value_error.missing' }],
+            });
+            return;
+        }
+
+        let labels: Record<string, string> = {};
+        try {
+            labels = req.body.labels ? JSON.parse(req.body.labels) : {};
+        } catch {
+            sendError(res, 422, { detail: [{ loc: ['body', 'labels'], msg: 'invalid json', type: 'value_error.json' }] });
+            return;
+        }
+
+        // Ids only depend on the clone order and name, so a fresh mock hands out the same ids
+        cloneCount += 1;
+        const voiceId = `mock-clone-${crypto.createHash('sha256').update(`${cloneCount}:${req.body.name}`).digest('hex').slice(0, 16)}`;
+        clonedVoices.set(voiceId, {
+            voice_id: voiceId,
+            name: req.body.name,
+            category: 'cloned',
+            description: req.body.description,
+            labels,
+        });
+        voiceSamples.set(voiceId, toSamples(files));
+        res.json({ voice_id: voiceId, requires_verification: false });
+    });
+
+    app.get('/v1/voices/:voice_id', (req: Request, res: Response) => {
+        const voice = findVoice(req.params.voice_id);
+        if (!voice) {
+            sendError(res, 404, voiceNotFound);
+            return;
+        }
+        // Audio is fetched separately; undefined drops it from the JSON
+        const samples = (voiceSamples.get(voice.voice_id) ?? []).map((sample) => ({ ...sample, audio: undefined }));
+        res.json({ ...voice, samples });
+    });
+
+    app.get('/v1/voices/:voice_id/settings', (req: Request, res: Response) => {
+        if (!findVoice(req.params.voice_id)) {
+            sendError(res, 404, voiceNotFound);
+            return;
+        }
+        res.json({ stability: 0.5, similarity_boost: 0.75, style: 0, use_speaker_boost: true, speed: 1 });
+    });
+
+    app.post('/v1/voices/:voice_id/edit', upload.array('files', 30), (req: Request, res: Response) => {
+        const voice = clonedVoices.get(req.params.voice_id);
+        if (!voice) {
+            sendError(res, 404, voiceNotFound);
+            return;
+        }
+        if (!req.body.name) {
+            sendError(res, 422, { detail: [{ loc: ['body', 'name'], msg: 'field required', type: 'value_error.missing' }] });
+            return;
+        }
+        try {
+            if (req.body.labels) voice.labels = JSON.parse(req.body.labels);
+        } catch {
+            sendError(res, 422, { detail: [{ loc: ['body', 'labels'], msg: 'invalid json', type: 'value_error.json' }] });
+            return;
+        }
+        voice.name = req.body.name;
+        voice.description = req.body.description;
+        const files = Array.isArray(req.files) ? req.files : [];
+        voiceSamples.set(voice.voice_id, [...(voiceSamples.get(voice.voice_id) ?? []), ...toSamples(files)]);
+        res.json({ status: 'ok' });
+    });
+
+    const findSample = (voiceId: string, sampleId: string) =>
+        voiceSamples.get(voiceId)?.find((sample) => sample.sample_id === sampleId);
+
+    const sampleNotFound = { detail: { status: 'sample_not_found', message: 'A sample with the sample_id was not found.' } };
+
+    app.get('/v1/voices/:voice_id/samples/:sample_id/audio', (req: Request, res: Response) => {
+        const sample = findSample(req.params.voice_id, req.params.sample_id);
+        if (!sample) {
+            sendError(res, 404, sampleNotFound);
+            return;
+        }
+        res.type(sample.mime_type).send(sample.audio);
+    });
+
+    app.delete('/v1/voices/:voice_id/samples/:sample_id', (req: Request, res: Response) => {
+        const sample = findSample(req.params.voice_id, req.params.sample_id);
+        if (!sample) {
+            sendError(res, 404, sampleNotFound);
+            return;
+        }
+        voiceSamples.set(req.params.voice_id, voiceSamples.get(req.params.voice_id)!.filter((s) => s !== sample));
+        res.json({ status: 'ok' });
+    });
+
+    app.delete('/v1/voices/:voice_id', (req: Request, res: Response) => {
+        if (!clonedVoices.delete(req.params.voice_id)) {
+            sendError(res, 404, voiceNotFound);
+            return;
+        }
+        voiceSamples.delete(req.params.voice_id);
+        res.json({ status: 'ok' });
+    });
+
+    app.post('/v1/text-to-speech/:voice_id/stream', (req: Request, res: Response) => {
+        const { text, model_id } = req.body || {};
+        const status = forcedStatus(text);
+        if (status) {
+            sendError(res, status, ERRORS[status], true);
+            return;
+        }
+        if (typeof text !== 'string' || !text.trim()) {
+            sendError(res, 422, ERRORS[422], true);
+            return;
+        }
+        if (!findVoice(req.params.voice_id)) {
+            sendError(res, 404, voiceNotFound, true);
+            return;
+        }
+        const limit = MODELS.find((model) => model.model_id === model_id)?.maximum_text_length_per_request;
+        if (limit && text.length > limit) {
+            sendError(res, 400, {
+                detail: { status: 'max_character_limit_exceeded', message: `Text must be at most ${limit} characters for this model.` },
+            }, true);
+            return;
+        }
+
+        const audio = renderSilentMp3(text);
+        const chunkSize = FRAME_LENGTH * FRAMES_PER_CHUNK;
+        const chunks: Buffer[] = [];
+        for (let offset = 0; offset < audio.length; offset += chunkSize) {
+            chunks.push(audio.subarray(offset, offset + chunkSize));
+        }
+        res.setHeader('Content-Type', 'audio/mpeg');
+        Readable.from(chunks).pipe(res);
+    });
+
+    app.use((req: Request, res: Response) => {
+        sendError(res, 404, { detail: { status: 'not_found', message: `No mock for ${req.method} ${req.path}` } });
+    });
+
+    return app;
+};
+
+// Started directly (npm run mock:elevenlabs) rather than imported by a test
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    const port = Number(process.env.ELEVENLABS_MOCK_PORT) || 3100;
+    createElevenLabsMock({ apiKey: process.env.ELEVENLABS_MOCK_API_KEY }).listen(port, () => {
+        console.log(`ElevenLabs mock listening on http://localhost:${port}/v1`);
+    });
+}
@@ -0,0 +1,46 @@
+import { TtsProvider, ProviderModel } from './providers/index.js';
+
+// Keeps each provider's model list in memory for a while. Models rarely change
+// and every ElevenLabs account sees the same ones, so one entry per provider
+// serves all users, including those on their own API key.
+
+interface CatalogEntry {
+    models: ProviderModel[];
+    fetchedAt: number;
+}
+
+export class ModelCatalog {
+    private entries = new Map<string, CatalogEntry>();
+    private pending = new Map<string, Promise<ProviderModel[]>>();
+
+    constructor(readonly ttlSeconds: number) {}
+
+    /**
+     * Returns the provider's models, fetching them when there are none cached
+     * or the cached list is older than the TTL. Concurrent callers share one fetch.
+     */
+    async list(provider: TtsProvider, now = Date.now()): Promise<ProviderModel[]> {
+        const entry = this.entries.get(provider.name);
+        if (entry && now - entry.fetchedAt < this.ttlSeconds * 1000) {
+            return entry.models;
+        }
+
+        let request = this.pending.get(provider.name);
+        if (!request) {
+            request = provider.listModels()
+                .then((models) => {
+                    this.entries.set(provider.name, { models, fetchedAt: Date.now() });
+                    return models;
+                })
+                .finally(() => this.pending.delete(provider.name));
+            this.pending.set(provider.name, request);
+        }
+        return request;
+    }
+
+    // Finds a model by id; null when the provider doesn't offer it
+    async find(provider: TtsProvider, modelId: string): Promise<ProviderModel | null> {
+        const models = await this.list(provider);
+        return models.find((model) => model.model_id === modelId) ?? null;
+    }
+}
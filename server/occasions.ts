@@ -0,0 +1,31 @@
+// Server-side copy of the occasion list in src/constants. Keep the ids in sync;
+// the colors theme the public share page and greeting emails.
+
+export interface OccasionTheme {
+    id: string;
+    name: string;
+    emoji: string;
+    accentColor: string;
+    backgroundColor: string;
+}
+
+export const OCCASION_THEMES: OccasionTheme[] = [
+    { id: 'birthday', name: 'Birthday', emoji: '🎂', accentColor: '#db2777', backgroundColor: '#fdf2f8' },
+    { id: 'anniversary', name: 'Anniversary', emoji: '💍', accentColor: '#b45309', backgroundColor: '#fffbeb' },
+    { id: 'congratulations', name: 'Congratulations', emoji: '🎉', accentColor: '#7c3aed', backgroundColor: '#f5f3ff' },
+    { id: 'thank_you', name: 'Thank You', emoji: '🙏', accentColor: '#0d9488', backgroundColor: '#f0fdfa' },
+    { id: 'holiday', name: 'Holiday', emoji: '🎄', accentColor: '#15803d', backgroundColor: '#f0fdf4' },
+];
+
+// Used when a greeting has no occasion or an id we don't know
+export const DEFAULT_THEME: OccasionTheme = {
+    id: 'greeting',
+    name: 'Greeting',
+    emoji: '💌',
+    accentColor: '#2563eb',
+    backgroundColor: '#eff6ff',
+};
+
+export const getOccasionTheme = (occasionId: string | null | undefined): OccasionTheme => {
+    return OCCASION_THEMES.find((theme) => theme.id === occasionId) || DEFAULT_THEME;
+};
@@ -0,0 +1,278 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import {
+    TtsProvider,
+    ProviderVoice,
+    ProviderModel,
+    SynthesisRequest,
+    SynthesisResult,
+    CloneVoiceRequest,
+    EditVoiceRequest,
+    ProviderVoiceSample,
+    ProviderVoiceSettings,
+    ProviderError,
+} from './types.js';
+
+// Collects a response stream into a string (ElevenLabs streams JSON error bodies
+// on its /stream endpoints)
+const readStream = (stream: Readable): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        stream.on('data', (chunk: Buffer) => data += chunk.toString());
+        stream.on('end', () => resolve(data));
+        stream.on('error', reject);
+    });
+};
+
+// Converts an axios failure into a ProviderError. ElevenLabs auth failures are
+// reported as 502: they mean the server's API key was rejected, not the caller's
+// session, and the frontend logs users out on 401/403.
+const toProviderError = async (error: any, action: string): Promise<ProviderError> => {
+    if (!axios.isAxiosError(error)) {
+        return new ProviderError(`${action}: ${error.message}`, 500);
+    }
+
+    const status = error.response?.status;
+    let details: unknown = error.response?.data;
+    if (details instanceof Readable) {
+        try {
+            const body = await readStream(details);
+            try {
+                details = JSON.parse(body);
+            } catch {
+                details = body;
+            }
+        } catch (streamErr) {
+            console.error('Error reading ElevenLabs error stream:', streamErr);
+            details = undefined;
+        }
+    }
+
+    console.error(`ElevenLabs error (${action}):`, status, details ?? error.message);
+    const clientStatus = !status || status === 401 || status === 403 ? 502 : status;
+    return new ProviderError(`${action}: ${error.response?.statusText || error.message}`, clientStatus, details);
+};
+
+// Sample entry of GET /voices/:id; older voices have no duration_secs
+interface ElevenLabsSample {
+    sample_id: string;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    duration_secs?: number | null;
+}
+
+// Entry of GET /models; the character limits depend on the account's plan
+interface ElevenLabsModel {
+    model_id: string;
+    name: string;
+    description?: string;
+    can_do_text_to_speech: boolean;
+    can_use_style?: boolean;
+    can_use_speaker_boost?: boolean;
+    languages?: { language_id: string; name: string }[];
+    maximum_text_length_per_request?: number;
+    max_characters_request_subscribed_user?: number;
+}
+
+// SSML support per model, which GET /models doesn't report. Every model but v3
+// takes break tags; phoneme tags only work with the English v1/v2 models.
+const MODELS_WITHOUT_BREAK_TAGS = ['eleven_v3'];
+const MODELS_WITH_PHONEME_TAGS = ['eleven_flash_v2', 'eleven_turbo_v2', 'eleven_monolingual_v1'];
+
+export class ElevenLabsProvider implements TtsProvider {
+    readonly name = 'elevenlabs';
+    readonly defaultModelId = 'eleven_multilingual_v2';
+
+    constructor(private apiKey: string | undefined, private baseUrl: string) {}
+
+    private authHeaders(): Record<string, string> {
+        if (!this.apiKey) {
+            throw new ProviderError('API key not configured', 500);
+        }
+        return { 'xi-api-key': this.apiKey };
+    }
+
+    // Checks the key against GET /user. Resolves false if ElevenLabs rejects it;
+    // other failures (network, 5xx) throw, since they say nothing about the key.
+    async verifyApiKey(): Promise<boolean> {
+        const headers = this.authHeaders();
+        try {
+            await axios.get(`${this.baseUrl}/user`, { headers });
+            return true;
+        } catch (error: any) {
+            if (axios.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403)) {
+                return false;
+            }
+            throw await toProviderError(error, 'Failed to verify ElevenLabs API key');
+        }
+    }
+
+    async listVoices(): Promise<ProviderVoice[]> {
+        const headers = this.authHeaders();
+        try {
+            const response = await axios.get(`${this.baseUrl}/voices`, { headers });
+            return response.data.voices;
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to fetch voices from ElevenLabs');
+        }
+    }
+
+    async listModels(): Promise<ProviderModel[]> {
+        const headers = this.authHeaders();
+        try {
+            const response = await axios.get(`${this.baseUrl}/models`, { headers });
+            const models: ElevenLabsModel[] = response.data;
+            return models.filter((model) => model.can_do_text_to_speech).map((model) => ({
+                model_id: model.model_id,
+                name: model.name,
+                description: model.description,
+                languages: model.languages ?? [],
+                max_characters: model.maximum_text_length_per_request ?? model.max_characters_request_subscribed_user ?? null,
+                can_use_style: !!model.can_use_style,
+                can_use_speaker_boost: !!model.can_use_speaker_boost,
+                can_use_break_tags: !MODELS_WITHOUT_BREAK_TAGS.includes(model.model_id),
+                can_use_phoneme_tags: MODELS_WITH_PHONEME_TAGS.includes(model.model_id),
+            }));
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to fetch models from ElevenLabs');
+        }
+    }
+
+    async synthesize({ voiceId, text, modelId, voiceSettings, previousText, nextText }: SynthesisRequest): Promise<SynthesisResult> {
+        const headers = this.authHeaders();
+        try {
+            const response = await axios.post(
+                `${this.baseUrl}/text-to-speech/${encodeURIComponent(voiceId)}/stream`,
+                {
+                    text,
+                    model_id: modelId,
+                    ...(voiceSettings && { voice_settings: voiceSettings }),
+                    ...(previousText && { previous_text: previousText }),
+                    ...(nextText && { next_text: nextText }),
+                },
+                {
+                    headers: {
+                        ...headers,
+                        'Content-Type': 'application/json',
+                        'Accept': 'audio/mpeg',
+                    },
+                    responseType: 'stream',
+                }
+            );
+            return { stream: response.data as Readable, contentType: 'audio/mpeg' };
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to generate TTS');
+        }
+    }
+
+    async cloneVoice({ name, description, labels, files, onUploadProgress }: CloneVoiceRequest): Promise<{ voiceId: string }> {
+        const headers = this.authHeaders();
+
+        const formData = new FormData();
+        formData.append('name', name);
+        formData.append('description', description);
+        formData.append('labels', JSON.stringify(labels));
+        files.forEach((file) => {
+            formData.append('files', new Blob([file.buffer], { type: file.mimeType }), file.fileName);
+        });
+
+        try {
+            const response = await axios.post(`${this.baseUrl}/voices/add`, formData, {
+                headers,
+                maxBodyLength: Infinity,
+                maxContentLength: Infinity,
+                onUploadProgress: (event) => {
+                    if (onUploadProgress && event.total) onUploadProgress(event.loaded / event.total);
+                },
+            });
+            return { voiceId: response.data.voice_id };
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to add voice via ElevenLabs API');
+        }
+    }
+
+    async editVoice(voiceId: string, { name, description, labels, files, onUploadProgress }: EditVoiceRequest): Promise<void> {
+        const headers = this.authHeaders();
+
+        const formData = new FormData();
+        formData.append('name', name);
+        formData.append('description', description);
+        if (labels) formData.append('labels', JSON.stringify(labels));
+        files?.forEach((file) => {
+            formData.append('files', new Blob([file.buffer], { type: file.mimeType }), file.fileName);
+        });
+
+        try {
+            await axios.post(`${this.baseUrl}/voices/${encodeURIComponent(voiceId)}/edit`, formData, {
+                headers,
+                maxBodyLength: Infinity,
+                maxContentLength: Infinity,
+                onUploadProgress: (event) => {
+                    if (onUploadProgress && event.total) onUploadProgress(event.loaded / event.total);
+                },
+            });
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to edit voice via ElevenLabs API');
+        }
+    }
+
+    async deleteVoice(voiceId: string): Promise<void> {
+        const headers = this.authHeaders();
+        try {
+            await axios.delete(`${this.baseUrl}/voices/${encodeURIComponent(voiceId)}`, { headers });
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to delete voice via ElevenLabs API');
+        }
+    }
+
+    async getVoiceSettings(voiceId: string): Promise<ProviderVoiceSettings> {
+        const headers = this.authHeaders();
+        try {
+            const response = await axios.get(`${this.baseUrl}/voices/${encodeURIComponent(voiceId)}/settings`, { headers });
+            const { stability, similarity_boost, style, use_speaker_boost } = response.data;
+            return { stability, similarity_boost, style, use_speaker_boost };
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to fetch voice settings from ElevenLabs');
+        }
+    }
+
+    async listVoiceSamples(voiceId: string): Promise<ProviderVoiceSample[]> {
+        const headers = this.authHeaders();
+        try {
+            const response = await axios.get(`${this.baseUrl}/voices/${encodeURIComponent(voiceId)}`, { headers });
+            const samples: ElevenLabsSample[] = response.data.samples ?? [];
+            return samples.map((sample) => ({
+                sample_id: sample.sample_id,
+                file_name: sample.file_name,
+                mime_type: sample.mime_type,
+                size_bytes: sample.size_bytes,
+                duration_secs: sample.duration_secs ?? null,
+            }));
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to fetch voice samples from ElevenLabs');
+        }
+    }
+
+    async getVoiceSampleAudio(voiceId: string, sampleId: string): Promise<SynthesisResult> {
+        const headers = this.authHeaders();
+        try {
+            const response = await axios.get(`${this.baseUrl}/voices/${encodeURIComponent(voiceId)}/samples/${encodeURIComponent(sampleId)}/audio`, {
+                headers,
+                responseType: 'stream',
+            });
+            return { stream: response.data as Readable, contentType: response.headers['content-type'] || 'audio/mpeg' };
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to fetch voice sample audio from ElevenLabs');
+        }
+    }
+
+    async deleteVoiceSample(voiceId: string, sampleId: string): Promise<void> {
+        const headers = this.authHeaders();
+        try {
+            await axios.delete(`${this.baseUrl}/voices/${encodeURIComponent(voiceId)}/samples/${encodeURIComponent(sampleId)}`, { headers });
+        } catch (error: any) {
+            throw await toProviderError(error, 'Failed to delete voice sample via ElevenLabs API');
+        }
+    }
+}
@@ -0,0 +1,35 @@
+import { TtsProvider } from './types.js';
+import { ElevenLabsProvider } from './elevenlabs.js';
+import { LocalTtsProvider } from './local.js';
+
+export * from './types.js';
+
+const DEFAULT_ELEVENLABS_API_BASE_URL = 'https://api.elevenlabs.io/v1';
+
+// ElevenLabs client for a specific API key: the server's, or a user's own key
+export const createElevenLabsProvider = (apiKey: string | undefined, env: NodeJS.ProcessEnv): ElevenLabsProvider => {
+    return new ElevenLabsProvider(apiKey, (env.ELEVENLABS_API_BASE_URL || DEFAULT_ELEVENLABS_API_BASE_URL).replace(/\/$/, ''));
+};
+
+/**
+ * Picks the provider from TTS_PROVIDER (elevenlabs | local, default elevenlabs).
+ * The local provider's engine comes from LOCAL_TTS_ENGINE (tone | espeak, default tone).
+ * ELEVENLABS_API_BASE_URL overrides the ElevenLabs endpoint, e.g. to use the mock server.
+ */
+export const createTtsProvider = (env: NodeJS.ProcessEnv, storageDir: string): TtsProvider => {
+    const providerName = (env.TTS_PROVIDER || 'elevenlabs').toLowerCase();
+
+    switch (providerName) {
+        case 'elevenlabs':
+            return createElevenLabsProvider(env.ELEVENLABS_API_KEY, env);
+        case 'local': {
+            const engine = (env.LOCAL_TTS_ENGINE || 'tone').toLowerCase();
+            if (engine !== 'tone' && engine !== 'espeak') {
+                throw new Error(`Unknown LOCAL_TTS_ENGINE "${engine}". Use tone or espeak.`);
+            }
+            return new LocalTtsProvider(engine, storageDir);
+        }
+        default:
+            throw new Error(`Unknown TTS_PROVIDER "${providerName}". Use elevenlabs or local.`);
+    }
+};
@@ -0,0 +1,316 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { encodeWav } from '../audio/wav.js';
+import { getSampleDuration } from '../audio/index.js';
+import {
+    TtsProvider,
+    ProviderVoice,
+    ProviderModel,
+    SynthesisRequest,
+    SynthesisResult,
+    CloneVoiceRequest,
+    EditVoiceRequest,
+    ProviderVoiceSample,
+    ProviderVoiceSettings,
+    VoiceSampleFile,
+    ProviderError,
+} from './types.js';
+
+// Offline TTS for development and demos. The "tone" engine turns text into
+// syllable-shaped tone bursts with pauses at word and sentence boundaries; the
+// "espeak" engine shells out to espeak-ng for real (robotic) speech.
+
+export type LocalEngine = 'tone' | 'espeak';
+
+interface LocalVoice extends ProviderVoice {
+    pitch: number;        // Base frequency in Hz for the tone engine
+    espeakVoice: string;  // Voice name passed to espeak-ng -v
+    samples?: ProviderVoiceSample[]; // Uploaded audio, stored as <sample_id> in the samples directory
+}
+
+const SAMPLE_RATE = 22050;
+
+// What ElevenLabs reports for a freshly cloned voice
+const DEFAULT_VOICE_SETTINGS: ProviderVoiceSettings = { stability: 0.5, similarity_boost: 0.75, style: 0, use_speaker_boost: true };
+
+const BUILTIN_VOICES: LocalVoice[] = [
+    { voice_id: 'local-aria', name: 'Aria (local)', category: 'premade', description: 'Bright, high synthetic voice', pitch: 262, espeakVoice: 'en+f3' },
+    { voice_id: 'local-cleo', name: 'Cleo (local)', category: 'premade', description: 'Warm, mid-range synthetic voice', pitch: 196, espeakVoice: 'en+f2' },
+    { voice_id: 'local-bram', name: 'Bram (local)', category: 'premade', description: 'Calm, low synthetic voice', pitch: 131, espeakVoice: 'en+m3' },
+    { voice_id: 'local-dex', name: 'Dex (local)', category: 'premade', description: 'Deep synthetic voice', pitch: 98, espeakVoice: 'en+m1' },
+];
+
+// Appends `seconds` of silence
+const pushSilence = (samples: number[], seconds: number) => {
+    for (let i = 0; i < Math.round(seconds * SAMPLE_RATE); i++) samples.push(0);
+};
+
+// Appends one syllable: a tone with a short attack/release and a second harmonic
+const pushSyllable = (samples: number[], frequency: number, seconds: number) => {
+    const length = Math.round(seconds * SAMPLE_RATE);
+    const fade = Math.round(0.015 * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+        const envelope = Math.min(1, i / fade, (length - i) / fade);
+        const t = i / SAMPLE_RATE;
+        const value = Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+        samples.push(Math.round(value * envelope * 0.25 * 32767));
+    }
+};
+
+/**
+ * Renders text as tone bursts. Deterministic: the same text and pitch always
+ * produce the same audio.
+ */
+export const renderTones = (text: string, basePitch: number): Buffer => {
+    const samples: number[] = [];
+    pushSilence(samples, 0.1);
+
+    const tokens = text.match(/[\p{L}\p{N}']+|[.!?]+|[,;:]/gu) || [];
+    tokens.forEach((token, tokenIndex) => {
+        if (/^[.!?]+$/.test(token)) {
+            pushSilence(samples, 0.45);
+            return;
+        }
+        if (/^[,;:]$/.test(token)) {
+            pushSilence(samples, 0.25);
+            return;
+        }
+
+        const syllables = Math.max(1, (token.match(/[aeiouy]+/gi) || []).length);
+        for (let s = 0; s < syllables; s++) {
+            // Vary the pitch a little from syllable to syllable so it sounds like intonation
+            const charCode = token.charCodeAt(s % token.length);
+            const contour = 1 + 0.12 * Math.sin(tokenIndex * 1.7 + s * 0.9 + charCode);
+            pushSyllable(samples, basePitch * contour, 0.14 + (charCode % 4) * 0.015);
+            pushSilence(samples, 0.03);
+        }
+        pushSilence(samples, 0.08);
+    });
+
+    pushSilence(samples, 0.2);
+    return encodeWav(Int16Array.from(samples), SAMPLE_RATE);
+};
+
+// Runs espeak-ng and returns the WAV it writes to stdout. The text goes in on
+// stdin: as an argument, text starting with "-" would be read as an option.
+const runEspeak = (text: string, voice: string): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const child = spawn('espeak-ng', ['--stdout', '--stdin', '-v', voice]);
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        child.stderr.on('data', (chunk: Buffer) => stderr += chunk.toString());
+        child.on('error', (err: NodeJS.ErrnoException) => {
+            const message = err.code === 'ENOENT'
+                ? 'espeak-ng is not installed. Install it or set LOCAL_TTS_ENGINE=tone.'
+                : `espeak-ng failed: ${err.message}`;
+            reject(new ProviderError(message, 500));
+        });
+        child.on('close', (code, signal) => {
+            if (code === 0) {
+                resolve(Buffer.concat(chunks));
+            } else if (code !== null) {
+                reject(new ProviderError(`espeak-ng exited with code ${code}: ${stderr.trim()}`, 500));
+            } else {
+                reject(new ProviderError(`espeak-ng was killed by ${signal}`, 500));
+            }
+        });
+        // Failures to write (e.g. espeak-ng missing) surface through 'error' and 'close'
+        child.stdin.on('error', () => {});
+        child.stdin.end(text);
+    });
+};
+
+// Registry updates run one at a time so concurrent requests can't drop each other's changes
+let registryUpdates: Promise<unknown> = Promise.resolve();
+
+export class LocalTtsProvider implements TtsProvider {
+    readonly name = 'local';
+    readonly defaultModelId: string;
+    private registryPath: string;
+    private samplesDir: string;
+
+    constructor(private engine: LocalEngine, storageDir: string) {
+        this.defaultModelId = engine === 'espeak' ? 'local_espeak_v1' : 'local_tone_v1';
+        this.samplesDir = path.join(storageDir, 'local-samples');
+        fs.mkdirSync(this.samplesDir, { recursive: true });
+        this.registryPath = path.join(storageDir, 'local-voices.json');
+    }
+
+    // Cloned voices are kept in a small JSON file so they survive restarts
+    private async readClones(): Promise<LocalVoice[]> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.registryPath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    // Written beside the registry and renamed over it, so a crash never leaves half a file
+    private async writeClones(clones: LocalVoice[]): Promise<void> {
+        const tempPath = `${this.registryPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(clones, null, 2));
+        await fs.promises.rename(tempPath, this.registryPath);
+    }
+
+    /**
+     * Reads the registry, lets `update` change the list in place and writes it
+     * back, queued behind any update already running. Nothing is written if
+     * `update` throws.
+     */
+    private updateClones<T>(update: (clones: LocalVoice[]) => T | Promise<T>): Promise<T> {
+        const result = registryUpdates.then(async () => {
+            const clones = await this.readClones();
+            const value = await update(clones);
+            await this.writeClones(clones);
+            return value;
+        });
+        registryUpdates = result.catch(() => {});
+        return result;
+    }
+
+    // Keeps the uploaded files so they can be listed and played back
+    private async storeSamples(files: VoiceSampleFile[]): Promise<ProviderVoiceSample[]> {
+        const samples: ProviderVoiceSample[] = [];
+        for (const file of files) {
+            const sample = {
+                sample_id: crypto.randomBytes(8).toString('hex'),
+                file_name: file.fileName,
+                mime_type: file.mimeType,
+                size_bytes: file.buffer.length,
+                duration_secs: getSampleDuration(file.buffer, file.mimeType),
+            };
+            await fs.promises.writeFile(path.join(this.samplesDir, sample.sample_id), file.buffer);
+            samples.push(sample);
+        }
+        return samples;
+    }
+
+    private async removeSamples(samples: ProviderVoiceSample[]): Promise<void> {
+        await Promise.all(samples.map((sample) => fs.promises.rm(path.join(this.samplesDir, sample.sample_id), { force: true })));
+    }
+
+    private findClone(clones: LocalVoice[], voiceId: string): LocalVoice {
+        const clone = clones.find((v) => v.voice_id === voiceId);
+        if (!clone) {
+            throw new ProviderError('Voice not found', 404);
+        }
+        return clone;
+    }
+
+    private async findVoice(voiceId: string): Promise<LocalVoice> {
+        const voice = [...BUILTIN_VOICES, ...(await this.readClones())].find((v) => v.voice_id === voiceId);
+        if (!voice) {
+            throw new ProviderError('Voice not found', 404);
+        }
+        return voice;
+    }
+
+    async listVoices(): Promise<ProviderVoice[]> {
+        const voices = [...BUILTIN_VOICES, ...(await this.readClones())];
+        return voices.map((voice) => ({
+            voice_id: voice.voice_id,
+            name: voice.name,
+            category: voice.category,
+            description: voice.description,
+            labels: voice.labels,
+        }));
+    }
+
+    // One model per engine; neither takes voice settings
+    async listModels(): Promise<ProviderModel[]> {
+        return [{
+            model_id: this.defaultModelId,
+            name: this.engine === 'espeak' ? 'espeak-ng (local)' : 'Tone synthesizer (local)',
+            description: this.engine === 'espeak' ? 'Robotic speech from espeak-ng' : 'Syllable-shaped tones, no real speech',
+            languages: [{ language_id: 'en', name: 'English' }],
+            max_characters: null,
+            can_use_style: false,
+            can_use_speaker_boost: false,
+            can_use_break_tags: false,
+            can_use_phoneme_tags: false,
+        }];
+    }
+
+    async synthesize({ voiceId, text }: SynthesisRequest): Promise<SynthesisResult> {
+        const voice = await this.findVoice(voiceId);
+        const audio = this.engine === 'espeak'
+            ? await runEspeak(text, voice.espeakVoice)
+            : renderTones(text, voice.pitch);
+        return { stream: Readable.from([audio]), contentType: 'audio/wav' };
+    }
+
+    async cloneVoice({ name, description, labels, files }: CloneVoiceRequest): Promise<{ voiceId: string }> {
+        // Derive a stable pitch from the samples so each clone sounds a bit different
+        const hash = crypto.createHash('sha256');
+        files.forEach((file) => hash.update(file.buffer));
+        const digest = hash.digest();
+
+        const clone: LocalVoice = {
+            voice_id: `local-clone-${digest.toString('hex').slice(0, 16)}-${Date.now().toString(36)}`,
+            name,
+            category: 'cloned',
+            description,
+            labels,
+            pitch: 90 + (digest.readUInt16BE(0) % 200),
+            espeakVoice: digest[2] % 2 === 0 ? 'en+f2' : 'en+m2',
+            samples: await this.storeSamples(files),
+        };
+        await this.updateClones((clones) => clones.push(clone));
+        return { voiceId: clone.voice_id };
+    }
+
+    async editVoice(voiceId: string, { name, description, labels, files, onUploadProgress }: EditVoiceRequest): Promise<void> {
+        await this.updateClones(async (clones) => {
+            const clone = this.findClone(clones, voiceId);
+            const added = files ? await this.storeSamples(files) : [];
+            Object.assign(clone, { name, description, ...(labels && { labels }), samples: [...(clone.samples ?? []), ...added] });
+        });
+        onUploadProgress?.(1);
+    }
+
+    async deleteVoice(voiceId: string): Promise<void> {
+        const clone = await this.updateClones((clones) => {
+            const found = this.findClone(clones, voiceId);
+            clones.splice(clones.indexOf(found), 1);
+            return found;
+        });
+        await this.removeSamples(clone.samples ?? []);
+    }
+
+    // Neither engine can be tuned, so every voice reports ElevenLabs' defaults
+    async getVoiceSettings(voiceId: string): Promise<ProviderVoiceSettings> {
+        await this.findVoice(voiceId);
+        return { ...DEFAULT_VOICE_SETTINGS };
+    }
+
+    async listVoiceSamples(voiceId: string): Promise<ProviderVoiceSample[]> {
+        const clone = this.findClone(await this.readClones(), voiceId);
+        return clone.samples ?? [];
+    }
+
+    async getVoiceSampleAudio(voiceId: string, sampleId: string): Promise<SynthesisResult> {
+        const sample = (await this.listVoiceSamples(voiceId)).find((s) => s.sample_id === sampleId);
+        if (!sample) {
+            throw new ProviderError('Sample not found', 404);
+        }
+        return { stream: fs.createReadStream(path.join(this.samplesDir, sample.sample_id)), contentType: sample.mime_type };
+    }
+
+    async deleteVoiceSample(voiceId: string, sampleId: string): Promise<void> {
+        const sample = await this.updateClones((clones) => {
+            const clone = this.findClone(clones, voiceId);
+            const found = clone.samples?.find((s) => s.sample_id === sampleId);
+            if (!found) {
+                throw new ProviderError('Sample not found', 404);
+            }
+            clone.samples = clone.samples!.filter((s) => s !== found);
+            return found;
+        });
+        await this.removeSamples([sample]);
+    }
+}
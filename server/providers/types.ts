@@ -0,0 +1,107 @@
+import { Readable } from 'stream';
+
+// Contract every text-to-speech backend implements. Routes only talk to this
+// interface, so switching TTS_PROVIDER doesn't touch server.ts.
+
+// Voice as returned to the frontend (snake_case matches the existing wire format)
+export interface ProviderVoice {
+    voice_id: string;
+    name: string;
+    category?: string;   // 'premade' voices are listed for everyone
+    labels?: Record<string, string>;
+    description?: string;
+    preview_url?: string;
+}
+
+// Text-to-speech model as returned to the frontend, with what it can do
+export interface ProviderModel {
+    model_id: string;
+    name: string;
+    description?: string;
+    languages: { language_id: string; name: string }[];
+    max_characters: number | null; // Longest text per request; null when unknown
+    can_use_style: boolean;
+    can_use_speaker_boost: boolean;
+    can_use_break_tags: boolean;   // Understands SSML <break time="..."/> in the text
+    can_use_phoneme_tags: boolean; // Understands SSML <phoneme alphabet="ipa"> in the text
+}
+
+export interface SynthesisRequest {
+    voiceId: string;
+    text: string;
+    modelId: string;
+    voiceSettings?: Record<string, unknown>;
+    // Text around this part when a long text is synthesized in parts, so the
+    // intonation carries across the joins. Only used as context, not spoken.
+    previousText?: string;
+    nextText?: string;
+}
+
+// Tuning applied to a voice during synthesis (snake_case matches ElevenLabs'
+// voice_settings, which the frontend sends as is)
+export interface ProviderVoiceSettings {
+    stability: number;        // 0 to 1
+    similarity_boost: number; // 0 to 1
+    style?: number;           // 0 to 1, only some models
+    use_speaker_boost?: boolean;
+}
+
+export interface SynthesisResult {
+    stream: Readable;
+    contentType: string; // e.g. audio/mpeg or audio/wav
+}
+
+// Audio a voice was cloned from, as returned to the frontend
+export interface ProviderVoiceSample {
+    sample_id: string;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    duration_secs: number | null; // Unknown for some formats
+}
+
+export interface VoiceSampleFile {
+    buffer: Buffer;
+    fileName: string;
+    mimeType: string;
+}
+
+export interface CloneVoiceRequest {
+    name: string;
+    description: string;
+    labels: Record<string, string>;
+    files: VoiceSampleFile[];
+    onUploadProgress?: (fraction: number) => void; // Share of the samples sent so far
+}
+
+// Fields of a cloned voice that can be changed after cloning
+export interface EditVoiceRequest {
+    name: string;
+    description: string;
+    labels?: Record<string, string>; // Left as they are when omitted
+    files?: VoiceSampleFile[];       // Samples added to the ones the voice has
+    onUploadProgress?: (fraction: number) => void;
+}
+
+export interface TtsProvider {
+    readonly name: string;
+    readonly defaultModelId: string;
+    listVoices(): Promise<ProviderVoice[]>;
+    listModels(): Promise<ProviderModel[]>; // Only models that do text-to-speech
+    synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+    cloneVoice(request: CloneVoiceRequest): Promise<{ voiceId: string }>;
+    editVoice(voiceId: string, request: EditVoiceRequest): Promise<void>;
+    deleteVoice(voiceId: string): Promise<void>;
+    getVoiceSettings(voiceId: string): Promise<ProviderVoiceSettings>; // The voice's defaults
+    listVoiceSamples(voiceId: string): Promise<ProviderVoiceSample[]>;
+    getVoiceSampleAudio(voiceId: string, sampleId: string): Promise<SynthesisResult>;
+    deleteVoiceSample(voiceId: string, sampleId: string): Promise<void>;
+}
+
+// Error carrying the HTTP status and details the error handler middleware sends back
+export class ProviderError extends Error {
+    constructor(message: string, public status: number = 502, public details?: unknown) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
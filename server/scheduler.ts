@@ -0,0 +1,133 @@
+import { PrismaClient, DeliverySchedule, Prisma } from '@prisma/client';
+
+// Background runner for scheduled greeting deliveries. It polls the
+// DeliverySchedule table, so pending deliveries survive restarts, and claims
+// each due row with a conditional update so two server processes never send
+// the same schedule at once.
+
+export interface RecipientResult {
+    email: string;
+    status: 'sent' | 'failed';
+    messageId?: string;
+    error?: string;
+}
+
+// Sends the greeting to the given recipients and reports per-recipient outcomes
+export type DeliverFn = (schedule: DeliverySchedule, recipients: string[]) => Promise<RecipientResult[]>;
+
+// Wait before each retry; a schedule gets RETRY_DELAYS_MINUTES.length + 1 attempts
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const BATCH_SIZE = 20;
+// A row stuck in "sending" this long belonged to a process that died mid-attempt
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+export class DeliveryScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private isRunning = false;
+
+    constructor(
+        private prisma: PrismaClient,
+        private deliver: DeliverFn,
+        private pollIntervalMs = 30 * 1000
+    ) {}
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+        this.tick();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Overlapping ticks would only contend for the same rows, so skip while busy
+    private async tick(): Promise<void> {
+        if (this.isRunning) return;
+        this.isRunning = true;
+        try {
+            await this.runDueDeliveries();
+        } catch (error) {
+            console.error('Delivery scheduler tick failed:', error);
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    async runDueDeliveries(now = new Date()): Promise<number> {
+        // Recipients may already have been emailed before the crash; the retry
+        // skips anyone recorded as sent, but the rest may get a duplicate.
+        const { count: recovered } = await this.prisma.deliverySchedule.updateMany({
+            where: { status: 'sending', lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+            data: { status: 'scheduled', lockedAt: null, nextAttemptAt: now },
+        });
+        if (recovered > 0) {
+            console.warn(`Recovered ${recovered} delivery schedule(s) left mid-send`);
+        }
+
+        const due = await this.prisma.deliverySchedule.findMany({
+            where: { status: 'scheduled', nextAttemptAt: { lte: now } },
+            orderBy: { nextAttemptAt: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        let processed = 0;
+        for (const schedule of due) {
+            const { count } = await this.prisma.deliverySchedule.updateMany({
+                where: { id: schedule.id, status: 'scheduled', updatedAt: schedule.updatedAt },
+                data: { status: 'sending', lockedAt: new Date() },
+            });
+            if (count === 0) continue;  // Claimed elsewhere, or edited/cancelled since the query
+            await this.attempt(schedule);
+            processed += 1;
+        }
+        return processed;
+    }
+
+    private async attempt(schedule: DeliverySchedule): Promise<void> {
+        const previous = Array.isArray(schedule.results) ? (schedule.results as unknown as RecipientResult[]) : [];
+        const alreadySent = new Set(previous.filter((result) => result.status === 'sent').map((result) => result.email));
+        const pending = schedule.recipients.filter((email) => !alreadySent.has(email));
+
+        let attemptResults: RecipientResult[];
+        try {
+            attemptResults = await this.deliver(schedule, pending);
+        } catch (error: any) {
+            console.error(`Delivery ${schedule.id} failed:`, error);
+            attemptResults = pending.map((email) => ({ email, status: 'failed', error: error.message || 'Delivery failed' }));
+        }
+
+        const resultsByEmail = new Map(previous.map((result) => [result.email, result]));
+        attemptResults.forEach((result) => resultsByEmail.set(result.email, result));
+        const results = schedule.recipients.map((email) => resultsByEmail.get(email)!).filter(Boolean);
+
+        const failures = results.filter((result) => result.status !== 'sent');
+        const attempts = schedule.attempts + 1;
+        const now = new Date();
+
+        let data: Prisma.DeliveryScheduleUpdateInput;
+        if (failures.length === 0) {
+            data = { status: 'delivered', deliveredAt: now, lastError: null };
+        } else if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+            data = { status: 'failed', lastError: failures[0].error || 'Delivery failed' };
+        } else {
+            const delayMinutes = RETRY_DELAYS_MINUTES[attempts - 1];
+            data = {
+                status: 'scheduled',
+                nextAttemptAt: new Date(now.getTime() + delayMinutes * 60 * 1000),
+                lastError: failures[0].error || 'Delivery failed',
+            };
+        }
+
+        await this.prisma.deliverySchedule.update({
+            where: { id: schedule.id },
+            data: { ...data, attempts, lockedAt: null, results: results as unknown as Prisma.InputJsonValue },
+        });
+        console.log(`Delivery ${schedule.id}: attempt ${attempts}, ${results.length - failures.length}/${results.length} sent, now ${data.status}`);
+    }
+}
@@ -0,0 +1,224 @@
+import { ProviderModel } from './providers/index.js';
+
+// Markup users can put in a greeting to steer delivery:
+//   [pause 1.5s]          a beat of silence (seconds or ms)
+//   *word*                emphasis
+//   {Siobhan|shi-VAWN}    pronunciation, as a respelling or as IPA between slashes
+// A backslash makes the next character literal. The script is parsed here and
+// rendered into whatever the model supports; recipients see the plain text.
+
+export type ScriptNode =
+    | { type: 'text'; text: string; start: number; end: number }
+    | { type: 'pause'; seconds: number; start: number; end: number }
+    | { type: 'emphasis'; text: string; start: number; end: number }
+    | { type: 'pronunciation'; word: string; respelling: string | null; ipa: string | null; start: number; end: number };
+
+export interface ScriptError {
+    start: number;   // Offsets into the script of the markup at fault
+    end: number;
+    line: number;    // 1-based
+    message: string;
+}
+
+// A piece of the rendered script: text to synthesize (possibly with SSML tags)
+// or silence to splice in between
+export type ScriptPart = { text: string } | { silence: number };
+
+type MarkupSupport = Pick<ProviderModel, 'can_use_break_tags' | 'can_use_phoneme_tags'>;
+
+const MAX_PAUSE_SECONDS = 10;
+const MAX_BREAK_TAG_SECONDS = 3; // ElevenLabs ignores longer breaks
+
+const PAUSE = /^\[\s*pause\s+(\d+(?:\.\d+)?)\s*(ms|s)?\s*\]$/i;
+const ESCAPABLE = '\\*[]{}|';
+
+const lineAt = (script: string, index: number): number => script.slice(0, index).split('\n').length;
+
+// Makes text safe to put inside an SSML element
+const escapeXml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Drops the backslashes from escaped characters
+const unescape = (text: string): string => text.replace(/\\([\\*[\]{}|])/g, '$1');
+
+// Index of the next unescaped `char` on the same line, or -1
+const findClosing = (script: string, from: number, char: string): number => {
+    for (let i = from; i < script.length && script[i] !== '\n'; i++) {
+        if (script[i] === '\\') i++;
+        else if (script[i] === char) return i;
+    }
+    return -1;
+};
+
+/**
+ * Parses a script into text and markup nodes. Markup with mistakes in it is
+ * reported as an error and kept as plain text, so the nodes always cover the
+ * whole script.
+ */
+export const parseScript = (script: string): { nodes: ScriptNode[]; errors: ScriptError[] } => {
+    const nodes: ScriptNode[] = [];
+    const errors: ScriptError[] = [];
+    let textStart = 0;
+    let i = 0;
+
+    const fail = (start: number, end: number, message: string) => {
+        errors.push({ start, end, line: lineAt(script, start), message });
+    };
+    const addMarkup = (node: ScriptNode) => {
+        if (node.start > textStart) {
+            const raw = script.slice(textStart, node.start);
+            nodes.push({ type: 'text', text: unescape(raw), start: textStart, end: node.start });
+        }
+        nodes.push(node);
+        textStart = node.end;
+    };
+
+    while (i < script.length) {
+        const char = script[i];
+        if (char === '\\') {
+            i += ESCAPABLE.includes(script[i + 1] ?? '') ? 2 : 1;
+            continue;
+        }
+
+        if (char === '[') {
+            const close = findClosing(script, i + 1, ']');
+            if (close === -1) {
+                fail(i, i + 1, 'Unclosed [. Write \\[ for a literal bracket.');
+                i++;
+                continue;
+            }
+            const markup = script.slice(i, close + 1);
+            const match = markup.match(PAUSE);
+            if (!match) {
+                fail(i, close + 1, `Unknown instruction ${markup}. Pauses are written like [pause 1.5s].`);
+            } else {
+                const seconds = Number(match[1]) / (match[2]?.toLowerCase() === 'ms' ? 1000 : 1);
+                if (seconds <= 0 || seconds > MAX_PAUSE_SECONDS) {
+                    fail(i, close + 1, `Pauses must be longer than 0 and at most ${MAX_PAUSE_SECONDS} seconds.`);
+                } else {
+                    addMarkup({ type: 'pause', seconds, start: i, end: close + 1 });
+                }
+            }
+            i = close + 1;
+            continue;
+        }
+
+        if (char === '*') {
+            // "5 * 3": an asterisk followed by a space is just an asterisk
+            if (!/\S/.test(script[i + 1] ?? '')) {
+                i++;
+                continue;
+            }
+            const close = findClosing(script, i + 1, '*');
+            if (close === -1) {
+                fail(i, i + 1, 'Unclosed *. Write \\* for a literal asterisk.');
+                i++;
+                continue;
+            }
+            const inner = script.slice(i + 1, close);
+            if (/(^|[^\\])[[{]/.test(inner)) {
+                fail(i, close + 1, 'Pauses and pronunciations can\'t go inside *emphasis*.');
+            } else {
+                addMarkup({ type: 'emphasis', text: unescape(inner), start: i, end: close + 1 });
+            }
+            i = close + 1;
+            continue;
+        }
+
+        if (char === '{') {
+            const close = findClosing(script, i + 1, '}');
+            if (close === -1) {
+                fail(i, i + 1, 'Unclosed {. Write \\{ for a literal brace.');
+                i++;
+                continue;
+            }
+            const [word, pronunciation, ...extra] = script.slice(i + 1, close).split('|').map((part) => unescape(part).trim());
+            if (pronunciation === undefined || extra.length > 0) {
+                fail(i, close + 1, 'Pronunciations are written like {Siobhan|shi-VAWN}, with one |.');
+            } else if (!word || !pronunciation) {
+                fail(i, close + 1, 'A pronunciation needs both the word and how to say it.');
+            } else if (/^\/.*\/$/.test(pronunciation)) {
+                const ipa = pronunciation.slice(1, -1).trim();
+                if (!ipa || /["<>&]/.test(ipa)) {
+                    fail(i, close + 1, `"${pronunciation}" isn't a usable IPA transcription.`);
+                } else {
+                    addMarkup({ type: 'pronunciation', word, respelling: null, ipa, start: i, end: close + 1 });
+                }
+            } else if (!/^[\p{L}' -]+$/u.test(pronunciation)) {
+                fail(i, close + 1, 'Respellings can only use letters, hyphens, apostrophes and spaces. Put IPA between slashes: {Siobhan|/ʃɪˈvɔːn/}.');
+            } else {
+                addMarkup({ type: 'pronunciation', word, respelling: pronunciation, ipa: null, start: i, end: close + 1 });
+            }
+            i = close + 1;
+            continue;
+        }
+
+        i++;
+    }
+
+    if (textStart < script.length) {
+        nodes.push({ type: 'text', text: unescape(script.slice(textStart)), start: textStart, end: script.length });
+    }
+    if (errors.length === 0 && !nodes.some((node) => node.type !== 'pause' && (node.type !== 'text' || node.text.trim()))) {
+        errors.push({ start: 0, end: script.length, line: 1, message: 'The script has nothing to say besides pauses.' });
+    }
+    return { nodes, errors };
+};
+
+/**
+ * The words of a script without its markup, for showing to recipients.
+ */
+export const scriptToPlainText = (script: string): string => {
+    return parseScript(script).nodes
+        .map((node) => node.type === 'pause' ? '' : node.type === 'pronunciation' ? node.word : node.text)
+        .join('')
+        .replace(/[ \t]{2,}/g, ' ')
+        .trim();
+};
+
+/**
+ * Turns parsed nodes into parts to synthesize. Short pauses become SSML break
+ * tags where the model takes them; the rest are spliced in as silence.
+ * Pronunciations become phoneme tags where the model takes IPA, and are
+ * otherwise spoken as the respelling. ElevenLabs has no emphasis tag, so
+ * emphasized words are sent in capitals, which its models stress. Warnings
+ * name markup the model can't honour. `model` is null when its features are
+ * unknown, in which case no tags are used.
+ */
+export const renderScript = (nodes: ScriptNode[], model: MarkupSupport | null): { parts: ScriptPart[]; warnings: string[] } => {
+    const parts: ScriptPart[] = [];
+    const warnings: string[] = [];
+    let text = '';
+
+    const flushText = () => {
+        if (text.trim()) parts.push({ text: text.trim() });
+        text = '';
+    };
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            text += node.text;
+        } else if (node.type === 'emphasis') {
+            text += node.text.toUpperCase();
+        } else if (node.type === 'pause') {
+            if (model?.can_use_break_tags && node.seconds <= MAX_BREAK_TAG_SECONDS && text.trim()) {
+                text += `<break time="${node.seconds}s" />`;
+                continue;
+            }
+            flushText();
+            const last = parts[parts.length - 1];
+            if (last && 'silence' in last) last.silence += node.seconds;
+            else parts.push({ silence: node.seconds });
+        } else if (node.ipa !== null) {
+            if (model?.can_use_phoneme_tags) {
+                text += `<phoneme alphabet="ipa" ph="${node.ipa}">${escapeXml(node.word)}</phoneme>`;
+            } else {
+                warnings.push(`This model can't follow IPA, so "${node.word}" is read as written.`);
+                text += node.word;
+            }
+        } else {
+            text += node.respelling!.toLowerCase();
+        }
+    }
+    flushText();
+    return { parts, warnings };
+};
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+// Encryption for secrets we have to read back later (users' provider API keys),
+// unlike tokens.ts where a hash is enough. AES-256-GCM under a server-side
+// master key; the stored value is "v1.<iv>.<auth tag>.<ciphertext>" in base64url.
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+/**
+ * Parses the master key from its base64 (or hex) encoding. It must decode to
+ * exactly 32 bytes; generate one with `openssl rand -base64 32`.
+ */
+export const parseMasterKey = (encoded: string): Buffer => {
+    const key = /^[0-9a-f]{64}$/i.test(encoded) ? Buffer.from(encoded, 'hex') : Buffer.from(encoded, 'base64');
+    if (key.length !== 32) {
+        throw new Error('Encryption key must be 32 bytes, base64 or hex encoded (try `openssl rand -base64 32`).');
+    }
+    return key;
+};
+
+export const encryptSecret = (plaintext: string, masterKey: Buffer): string => {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, masterKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+        .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+        .join('.');
+};
+
+// Throws if the value was tampered with or encrypted under a different key
+export const decryptSecret = (payload: string, masterKey: Buffer): string => {
+    const [version, iv, authTag, ciphertext] = payload.split('.');
+    if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+        throw new Error('Unrecognized encrypted secret format.');
+    }
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
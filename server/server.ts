@@ -2,14 +2,34 @@ import express, { Request, Response, NextFunction, RequestHandler } from 'expres
 import cors from 'cors';
 import dotenv from 'dotenv';
 import multer from 'multer';
-import axios from 'axios';
 import fs from 'fs';
+import crypto from 'crypto';
 import path from 'path';
-import { Readable } from 'stream';
 import { fileURLToPath } from 'url'; // Import necessary function
+import { Readable } from 'stream';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, Greeting, ShareLink, DeliverySchedule, Contact, Job, VoicePreset } from '@prisma/client';
 import bcrypt from 'bcrypt'; // Add this import at the top
+import { audioFileExtension, getAudioDuration, concatenateAudio, renderSilence } from './audio/index.js';
+import { getOccasionTheme } from './occasions.js';
+import { renderSharePage, renderShareUnavailablePage } from './sharePage.js';
+import { createMailTransport, MailAttachment } from './mail/transport.js';
+import { renderGreetingEmail, renderPasswordResetEmail, renderVerificationEmail } from './mail/templates.js';
+import { createTtsProvider, createElevenLabsProvider, TtsProvider, VoiceSampleFile, ProviderModel, ProviderVoiceSettings, ProviderError } from './providers/index.js';
+import { TtsCache } from './ttsCache.js';
+import { ModelCatalog } from './modelCatalog.js';
+import { splitIntoChunks } from './textChunks.js';
+import { parseScript, renderScript, scriptToPlainText, ScriptPart } from './scriptMarkup.js';
+import { generateToken, hashToken } from './tokens.js';
+import { parseMasterKey, encryptSecret, decryptSecret } from './secrets.js';
+import { RateLimiter, QuotaPeriod, quotaWindow, formatWait } from './limits.js';
+import { summarizeUsage, usageWindowStart } from './usage.js';
+import { DeliveryScheduler, MAX_DELIVERY_ATTEMPTS } from './scheduler.js';
+import { JobQueue, JobHandler, ReportProgress, ACTIVE_JOB_STATUSES, FINISHED_JOB_STATUSES, JOB_TYPES } from './jobs.js';
+import { isValidTimeZone, zonedTimeToUtc } from './timezones.js';
+import { normalizeContactDate, upcomingOccasions, previewContactImport, ImportCandidate, CONTACT_OCCASIONS } from './contacts.js';
+import { parseVCards } from './calendar/vcard.js';
+import { parseYearlyEvents, renderCalendar } from './calendar/icalendar.js';
 
 // ES Module equivalent for __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -18,34 +38,74 @@ const __dirname = path.dirname(__filename);
 // Calculate path - Go up TWO directories from server/dist to the root
 const envPath = path.resolve(__dirname, '../../.env.local'); 
 
-// --- More Debugging --- 
-console.log("DEBUG: Attempting to load .env file from path:", envPath);
-const dotenvResult = dotenv.config({ path: envPath }); // Store result
-
+// Never log the parsed values: the file holds API keys and secrets
+const dotenvResult = dotenv.config({ path: envPath });
 if (dotenvResult.error) {
-    console.error("DEBUG: dotenv.config() error:", dotenvResult.error);
-} else {
-    // Log all parsed variables (if any) to see what dotenv *did* find
-    console.log("DEBUG: dotenv.config() loaded variables:", dotenvResult.parsed);
+    console.error(`Could not load ${envPath}:`, dotenvResult.error.message);
 }
 
-console.log("DEBUG: Value of VITE_ELEVENLABS_API_KEY in process.env after dotenv.config:", process.env.VITE_ELEVENLABS_API_KEY);
-// --- End Debugging ---
-
 const prisma = new PrismaClient();
 
 const app = express();
 const PORT = process.env.PORT || 3001; // Use a different port than the frontend
 
-const ELEVENLABS_API_KEY = process.env.VITE_ELEVENLABS_API_KEY; // Assuming key is named this in .env.local
-const ELEVENLABS_API_BASE_URL = 'https://api.elevenlabs.io/v1';
 const JWT_SECRET = process.env.JWT_SECRET;
-
-
-if (!ELEVENLABS_API_KEY) {
-    console.error('Error: VITE_ELEVENLABS_API_KEY not found or empty in process.env. Please check .env.local file and path.');
+// Generated greeting audio is kept here, one file per Greeting row
+const AUDIO_STORAGE_DIR = process.env.AUDIO_STORAGE_DIR || path.resolve(__dirname, '../../storage/greetings');
+// Public origin of this server, used to build share links handed to recipients
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`).replace(/\/$/, '');
+// Origin of the frontend, used for links in account emails (password reset etc.)
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:5173').replace(/\/$/, '');
+const MAIL_FROM_ADDRESS = process.env.MAIL_FROM_ADDRESS || 'no-reply@audiogreets.local';
+const MAX_EMAIL_RECIPIENTS = 20;
+// Synthesized audio is cached here so identical requests aren't billed twice
+const TTS_CACHE_DIR = process.env.TTS_CACHE_DIR || path.resolve(__dirname, '../../storage/tts-cache');
+const TTS_CACHE_MAX_BYTES = process.env.TTS_CACHE_MAX_BYTES !== undefined ? Number(process.env.TTS_CACHE_MAX_BYTES) : 500 * 1024 * 1024;
+const MODEL_CACHE_TTL_SECONDS = process.env.MODEL_CACHE_TTL_SECONDS !== undefined ? Number(process.env.MODEL_CACHE_TTL_SECONDS) : 60 * 60;
+// Access tokens are short-lived; clients renew them with the session's refresh token
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_DAYS = 30;
+const PASSWORD_RESET_TTL_MINUTES = 60;
+// Minimum gap between reset emails for one account, so the endpoint can't be used to flood an inbox
+const PASSWORD_RESET_COOLDOWN_SECONDS = 60;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+const EMAIL_VERIFICATION_COOLDOWN_SECONDS = 60;
+// Per-user usage limits. 0 disables a limit.
+const envNumber = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    return value !== undefined && value !== '' && !Number.isNaN(Number(value)) ? Number(value) : fallback;
+};
+const QUOTA_DAILY_CHARACTERS = envNumber('QUOTA_DAILY_CHARACTERS', 10000);
+const QUOTA_MONTHLY_CHARACTERS = envNumber('QUOTA_MONTHLY_CHARACTERS', 100000);
+const RATE_LIMIT_TTS_PER_MINUTE = envNumber('RATE_LIMIT_TTS_PER_MINUTE', 10);
+const RATE_LIMIT_CLONES_PER_HOUR = envNumber('RATE_LIMIT_CLONES_PER_HOUR', 5);
+const MAX_CLONED_VOICES = envNumber('MAX_CLONED_VOICES', 5);
+// How often the delivery runner looks for scheduled greetings that are due
+const DELIVERY_POLL_INTERVAL_SECONDS = envNumber('DELIVERY_POLL_INTERVAL_SECONDS', 30);
+const MAX_SCHEDULE_DAYS_AHEAD = 366;
+// Voice samples wait here until the background clone job has sent them on
+const JOB_STORAGE_DIR = process.env.JOB_STORAGE_DIR || path.resolve(__dirname, '../../storage/jobs');
+const JOB_POLL_INTERVAL_SECONDS = envNumber('JOB_POLL_INTERVAL_SECONDS', 2);
+const JOB_CONCURRENCY = Math.max(1, envNumber('JOB_CONCURRENCY', 2));
+// Master key for users' own ElevenLabs API keys. Without it users can't save a key.
+const API_KEY_ENCRYPTION_KEY = process.env.API_KEY_ENCRYPTION_KEY ? parseMasterKey(process.env.API_KEY_ENCRYPTION_KEY) : null;
+// Comma-separated emails allowed to use the /api/admin routes
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '').split(',').map((email) => email.trim().toLowerCase()).filter(Boolean);
+
+
+// TTS_PROVIDER picks elevenlabs (default) or local (offline engine, no API key needed)
+const ttsProvider = createTtsProvider(process.env, path.resolve(__dirname, '../../storage/local-tts'));
+console.log(`TTS provider: ${ttsProvider.name}`);
+
+// VITE_-prefixed variables are compiled into the frontend bundle, so the key no longer lives there
+if (process.env.VITE_ELEVENLABS_API_KEY) {
+    console.error('Error: VITE_ELEVENLABS_API_KEY is no longer read and would be exposed to browsers. Rename it to ELEVENLABS_API_KEY.');
+}
+if (ttsProvider.name === 'elevenlabs' && !process.env.ELEVENLABS_API_KEY) {
+    console.error('Error: ELEVENLABS_API_KEY not found or empty in process.env. Please check .env.local file and path.');
     // process.exit(1); // Optional: exit if key is missing
-} else {
+} else if (ttsProvider.name === 'elevenlabs') {
     console.log('ElevenLabs API Key seems loaded into process.env.');
 }
 
@@ -57,15 +117,33 @@ if (!JWT_SECRET) {
      console.log('JWT Secret seems loaded.');
 }
 
+fs.mkdirSync(AUDIO_STORAGE_DIR, { recursive: true });
+console.log(`Storing greeting audio in ${AUDIO_STORAGE_DIR}`);
+fs.mkdirSync(JOB_STORAGE_DIR, { recursive: true });
+
+// MAIL_TRANSPORT picks smtp, file (writes .eml files) or console (default)
+const mailTransport = createMailTransport(process.env, path.resolve(__dirname, '../../storage/outbox'));
+console.log(`Mail transport: ${mailTransport.name}`);
+
+const ttsCache = new TtsCache(TTS_CACHE_DIR, TTS_CACHE_MAX_BYTES);
+console.log(`Caching TTS audio in ${TTS_CACHE_DIR} (max ${TTS_CACHE_MAX_BYTES} bytes)`);
+
+const modelCatalog = new ModelCatalog(MODEL_CACHE_TTL_SECONDS);
+
 // Middleware
-app.use(cors()); // Enable CORS for all origins (adjust for production)
+app.use(cors({ exposedHeaders: ['X-Greeting-Id', 'X-Cache', 'ETag'] })); // Enable CORS for all origins (adjust for production)
 app.use(express.json()); // Parse JSON bodies
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Configure Multer for file uploads (store in memory for now)
 const storage = multer.memoryStorage();
-const upload = multer({ 
-    storage: storage,
+// Voice samples go straight to disk: a clone can carry 30 files of 50MB, and
+// they have to outlive the request for the job that uploads them.
+const upload = multer({
+    storage: multer.diskStorage({
+        destination: JOB_STORAGE_DIR,
+        filename: (req, file, cb) => cb(null, crypto.randomBytes(16).toString('hex')),
+    }),
     limits: { fileSize: 50 * 1024 * 1024 } // Limit file size (e.g., 50MB)
 });
 
@@ -74,15 +152,23 @@ const upload = multer({
 interface JwtPayload {
   userId: string;
   email: string;
+  sessionId: string; // Session the token was issued for; revoking it invalidates the token
   iat: number; // Issued at time (added automatically by jwt.sign)
   exp: number; // Expiry time (added automatically by jwt.sign)
 }
 
+// Provider a request should be served by, set by useCallerProvider
+interface CallerProvider {
+  provider: TtsProvider;
+  ownApiKey: boolean; // true when billed to the caller's own ElevenLabs key
+}
+
 // Extend Express Request type to include user property
 declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload; // Optional user property
+      tts?: CallerProvider;
     }
   }
 }
@@ -109,15 +195,311 @@ const authenticateToken = (req: Request, res: Response, next: NextFunction): voi
     jwt.verify(token, JWT_SECRET, (err: any, decodedPayload: any) => {
         if (err) {
             console.log('Auth Middleware: Token verification failed', err.message);
+            if (err.name === 'TokenExpiredError') {
+                // 401 tells the client to renew the token with its refresh token
+                res.status(401).json({ error: 'Access token expired.' });
+                return;
+            }
             return res.sendStatus(403); // Forbidden (invalid token)
         }
 
         // Token is valid, attach payload to request object
         // Type assertion after verification
-        req.user = decodedPayload as JwtPayload; 
-        console.log('Auth Middleware: Token verified for user', req.user?.email);
-        next(); // Proceed to the next middleware or route handler
+        const payload = decodedPayload as JwtPayload;
+        if (!payload.sessionId) {
+            // Issued before sessions existed; make the client sign in again
+            res.status(401).json({ error: 'Session required. Please log in again.' });
+            return;
+        }
+
+        // Reject tokens whose session was logged out or revoked from another device
+        prisma.session.findUnique({ where: { id: payload.sessionId } })
+            .then((session) => {
+                if (!session || session.revokedAt || session.userId !== payload.userId) {
+                    console.log('Auth Middleware: Session revoked or missing for user', payload.email);
+                    res.status(401).json({ error: 'Session has been revoked.' });
+                    return;
+                }
+                req.user = payload;
+                console.log('Auth Middleware: Token verified for user', req.user?.email);
+                next(); // Proceed to the next middleware or route handler
+            })
+            .catch(next);
+    });
+};
+
+const isAdminEmail = (email: string) => ADMIN_EMAILS.includes(email.toLowerCase());
+
+// Only lets through users listed in ADMIN_EMAILS. Use after authenticateToken.
+const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !isAdminEmail(req.user.email)) {
+        res.status(403).json({ error: 'Admin access required.' });
+        return;
+    }
+    next();
+};
+
+// The caller's own ElevenLabs key when they've saved one, otherwise the server's
+// provider. Background jobs call this directly, since they outlive the request.
+const resolveCallerProvider = async (userId: string): Promise<CallerProvider> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { elevenLabsApiKeyEncrypted: true },
+    });
+    if (!user?.elevenLabsApiKeyEncrypted) {
+        return { provider: ttsProvider, ownApiKey: false };
+    }
+
+    let apiKey: string;
+    try {
+        if (!API_KEY_ENCRYPTION_KEY) {
+            throw new Error('API_KEY_ENCRYPTION_KEY is not set');
+        }
+        apiKey = decryptSecret(user.elevenLabsApiKeyEncrypted, API_KEY_ENCRYPTION_KEY);
+    } catch (decryptError: any) {
+        console.error(`Failed to decrypt API key for user ${userId}:`, decryptError.message);
+        throw new ProviderError('Your saved ElevenLabs API key could not be read. Please save it again.', 500);
+    }
+    return { provider: createElevenLabsProvider(apiKey, process.env), ownApiKey: true };
+};
+
+// Serves the request with resolveCallerProvider's choice. Use after authenticateToken.
+const useCallerProvider = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        req.tts = await resolveCallerProvider(req.user!.userId);
+        next();
+    } catch (error: any) {
+        next(error instanceof ProviderError ? error : new Error(`Failed to load API key settings: ${error.message}`));
+    }
+};
+
+// Blocks actions that cost money (cloning, TTS) until the user has verified their
+// email. The code lets the client tell this 403 apart from an auth failure.
+const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.userId },
+            select: { emailVerifiedAt: true },
+        });
+        if (!user?.emailVerifiedAt) {
+            res.status(403).json({ error: 'Please verify your email address first.', code: 'EMAIL_NOT_VERIFIED' });
+            return;
+        }
+        next();
+    } catch (error: any) {
+        next(new Error(`Failed to check email verification: ${error.message}`));
+    }
+};
+
+// --- Usage Limits ---
+// All limit responses are 429 with a machine-readable code and, where waiting
+// helps, retryAfterSeconds (also sent as a Retry-After header).
+
+const ttsRateLimiter = new RateLimiter(RATE_LIMIT_TTS_PER_MINUTE, 60);
+const cloneRateLimiter = new RateLimiter(RATE_LIMIT_CLONES_PER_HOUR, 60 * 60);
+setInterval(() => {
+    ttsRateLimiter.prune();
+    cloneRateLimiter.prune();
+}, 10 * 60 * 1000).unref();
+
+const CHARACTER_QUOTAS: Record<QuotaPeriod, number> = {
+    day: QUOTA_DAILY_CHARACTERS,
+    month: QUOTA_MONTHLY_CHARACTERS,
+};
+
+interface LimitExceededBody {
+    error: string;
+    code: 'RATE_LIMITED' | 'QUOTA_EXCEEDED' | 'VOICE_LIMIT_REACHED';
+    retryAfterSeconds: number | null;
+    [key: string]: unknown;
+}
+
+const sendLimitExceeded = (res: Response, body: LimitExceededBody): void => {
+    if (body.retryAfterSeconds) {
+        res.setHeader('Retry-After', String(body.retryAfterSeconds));
+    }
+    res.status(429).json(body);
+};
+
+// Limits how often each user can hit a route. Use after authenticateToken.
+const rateLimit = (limiter: RateLimiter, action: string) => (req: Request, res: Response, next: NextFunction): void => {
+    const result = limiter.consume(req.user!.userId);
+    if (!result.allowed) {
+        console.log(`Rate limit hit for ${req.user!.email} (${action})`);
+        sendLimitExceeded(res, {
+            error: `Too many ${action} requests. Try again in ${formatWait(result.retryAfterSeconds)}.`,
+            code: 'RATE_LIMITED',
+            limit: result.limit,
+            windowSeconds: limiter.windowSeconds,
+            retryAfterSeconds: result.retryAfterSeconds,
+        });
+        return;
+    }
+    next();
+};
+
+// Characters billed to the server's account for the user in the current day or
+// month. Read from the usage ledger rather than greetings, so deleting history
+// doesn't hand quota back. Requests made with the user's own key don't count.
+// TTS jobs still queued or running count too, as they have passed the check.
+const getCharacterUsage = async (userId: string, period: QuotaPeriod): Promise<number> => {
+    const { start } = quotaWindow(period);
+    const [usage, pendingJobs] = await Promise.all([
+        prisma.usageRecord.aggregate({
+            where: { userId, action: 'tts', success: true, cached: false, ownApiKey: false, createdAt: { gte: start } },
+            _sum: { characters: true },
+        }),
+        prisma.job.findMany({ where: { userId, type: 'tts', status: { in: ACTIVE_JOB_STATUSES } }, select: { input: true } }),
+    ]);
+    const pending = pendingJobs.reduce((total, job) => {
+        const { text } = job.input as { text?: unknown };
+        return total + (typeof text === 'string' ? text.length : 0);
+    }, 0);
+    return (usage._sum.characters ?? 0) + pending;
+};
+
+// Characters of requests that passed the quota check and aren't in the ledger
+// (or queued as a job) yet, per user. Counted by the check so concurrent
+// requests can't all pass it. In memory, like the rate limiters.
+const reservedCharacters = new Map<string, number>();
+
+// Adds a reservation and returns the function that releases it (once)
+const reserveCharacters = (userId: string, characters: number): (() => void) => {
+    reservedCharacters.set(userId, (reservedCharacters.get(userId) ?? 0) + characters);
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        const left = (reservedCharacters.get(userId) ?? 0) - characters;
+        if (left > 0) {
+            reservedCharacters.set(userId, left);
+        } else {
+            reservedCharacters.delete(userId);
+        }
+    };
+};
+
+type UsageRecordInput = {
+    userId: string;
+    action: 'tts' | 'clone';
+    provider: string;
+    ownApiKey: boolean;
+    voiceId?: string | null;
+    modelId?: string | null;
+    characters?: number;
+    bytes?: number | null;
+    latencyMs?: number | null;
+    success: boolean;
+    cached?: boolean;
+    errorMessage?: string | null;
+};
+
+// Appends a row to the usage ledger. Metering must never fail the request it
+// describes, so errors are only logged. Resolves once the row is written, for
+// callers that must not release a quota reservation before then.
+const recordUsage = (usage: UsageRecordInput): Promise<void> => {
+    return prisma.usageRecord.create({ data: usage })
+        .then(() => undefined)
+        .catch((error) => console.error(`Failed to record ${usage.action} usage for user ${usage.userId}:`, error));
+};
+
+// Rejects TTS requests whose text would take the user over a character quota.
+// Users on their own API key pay for their own characters and skip the check.
+// The characters stay reserved until the response is over; by then the route
+// has written its usage to the ledger or queued its job.
+const enforceCharacterQuota = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (req.tts?.ownApiKey) {
+        next();
+        return;
+    }
+    const userId = req.user!.userId;
+    const requested = typeof req.body.text === 'string' ? req.body.text.length : 0;
+    // Reserved before the first await, so a concurrent check sees it
+    const release = reserveCharacters(userId, requested);
+    try {
+        for (const period of ['day', 'month'] as QuotaPeriod[]) {
+            const limit = CHARACTER_QUOTAS[period];
+            if (limit <= 0) continue;
+
+            // Characters reserved by the user's other requests in flight count as used
+            const used = await getCharacterUsage(userId, period) + (reservedCharacters.get(userId) ?? 0) - requested;
+            if (used + requested > limit) {
+                release();
+                const { resetsAt } = quotaWindow(period);
+                const retryAfterSeconds = Math.ceil((resetsAt.getTime() - Date.now()) / 1000);
+                sendLimitExceeded(res, {
+                    error: `${period === 'day' ? 'Daily' : 'Monthly'} character quota reached (${used} of ${limit} used, this message needs ${requested}). It resets in ${formatWait(retryAfterSeconds)}.`,
+                    code: 'QUOTA_EXCEEDED',
+                    period,
+                    limit,
+                    used,
+                    requested,
+                    resetsAt: resetsAt.toISOString(),
+                    retryAfterSeconds,
+                });
+                return;
+            }
+        }
+        res.on('close', release);
+        next();
+    } catch (error: any) {
+        release();
+        next(new Error(`Failed to check character quota: ${error.message}`));
+    }
+};
+
+// Caps how many cloned voices a user can own at once
+const enforceVoiceLimit = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (MAX_CLONED_VOICES <= 0) {
+        next();
+        return;
+    }
+    try {
+        const used = await prisma.voice.count({ where: { userId: req.user!.userId } });
+        if (used >= MAX_CLONED_VOICES) {
+            sendLimitExceeded(res, {
+                error: `You can have at most ${MAX_CLONED_VOICES} cloned voices. Delete one to add another.`,
+                code: 'VOICE_LIMIT_REACHED',
+                limit: MAX_CLONED_VOICES,
+                used,
+                retryAfterSeconds: null,
+            });
+            return;
+        }
+        next();
+    } catch (error: any) {
+        next(new Error(`Failed to check voice limit: ${error.message}`));
+    }
+};
+
+// Emails a fresh verification link, invalidating earlier ones
+const sendVerificationEmail = async (user: { id: string; email: string }): Promise<void> => {
+    const token = generateToken();
+    await prisma.$transaction([
+        prisma.emailVerificationToken.updateMany({
+            where: { userId: user.id, usedAt: null },
+            data: { usedAt: new Date() },
+        }),
+        prisma.emailVerificationToken.create({
+            data: {
+                userId: user.id,
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+            },
+        }),
+    ]);
+
+    const verificationEmail = renderVerificationEmail({
+        // Opened straight from the mail client; the endpoint redirects back to the app
+        verifyUrl: `${PUBLIC_BASE_URL}/api/auth/verify?token=${encodeURIComponent(token)}`,
+        expiresInHours: EMAIL_VERIFICATION_TTL_HOURS,
+    });
+    await mailTransport.send({
+        to: user.email,
+        from: { name: 'AudioGreets', address: MAIL_FROM_ADDRESS },
+        ...verificationEmail,
     });
+    console.log(`Verification email sent to ${user.email}`);
 };
 
 // Define the handler function with explicit RequestHandler type
@@ -158,6 +540,13 @@ const registerHandler: RequestHandler = async (req, res, next) => {
         });
 
         console.log(`User registered successfully: ${newUser.email} (ID: ${newUser.id})`);
+
+        // The account exists either way; a failed email can be resent after logging in
+        try {
+            await sendVerificationEmail(newUser);
+        } catch (mailError: any) {
+            console.error(`Failed to send verification email to ${newUser.email}:`, mailError);
+        }
         res.status(201).json({ 
             message: 'User registered successfully!', 
             userId: newUser.id 
@@ -169,6 +558,46 @@ const registerHandler: RequestHandler = async (req, res, next) => {
     }
 };
 
+// --- Sessions ---
+
+// Refresh tokens look like "<sessionId>.<secret>". Embedding the id lets a
+// refresh find its session even when the secret is stale, which is how reuse of
+// an already-rotated token (e.g. a stolen copy) is detected.
+const splitRefreshToken = (refreshToken: unknown): { sessionId: string; secret: string } | null => {
+    if (typeof refreshToken !== 'string') return null;
+    const [sessionId, secret] = refreshToken.split('.');
+    return sessionId && secret ? { sessionId, secret } : null;
+};
+
+const signAccessToken = (user: { id: string; email: string }, sessionId: string): string => {
+    const payload: Omit<JwtPayload, 'iat' | 'exp'> = {
+        userId: user.id,
+        email: user.email,
+        sessionId,
+    };
+    return jwt.sign(payload, JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL });
+};
+
+const refreshTokenExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Starts a session for a freshly authenticated user and returns its first token pair
+const createSession = async (user: { id: string; email: string }, req: Request) => {
+    const secret = generateToken();
+    const session = await prisma.session.create({
+        data: {
+            userId: user.id,
+            refreshTokenHash: hashToken(secret),
+            userAgent: req.get('user-agent')?.slice(0, 500) || null,
+            ipAddress: req.ip || null,
+            expiresAt: refreshTokenExpiry(),
+        },
+    });
+    return {
+        token: signAccessToken(user, session.id),
+        refreshToken: `${session.id}.${secret}`,
+    };
+};
+
 // POST /api/auth/login
 const loginHandler: RequestHandler = async (req, res, next) => {
     const { email, password } = req.body;
@@ -212,19 +641,17 @@ const loginHandler: RequestHandler = async (req, res, next) => {
         // --- Password is valid - Generate JWT ---
         console.log(`Login successful for user: ${user.email} (ID: ${user.id})`);
 
-        const payload: Omit<JwtPayload, 'iat' | 'exp'> = {
-            userId: user.id,
-            email: user.email,
-        };
-
-        const token = jwt.sign(payload, JWT_SECRET, { expiresIn: '1h' });
+        const { token, refreshToken } = await createSession(user, req);
 
         // Send response (no return needed)
         res.status(200).json({
             message: 'Login successful!',
             token: token,
+            refreshToken: refreshToken,
             userId: user.id,
-            email: user.email
+            email: user.email,
+            emailVerified: !!user.emailVerifiedAt,
+            isAdmin: isAdminEmail(user.email),
         });
 
     } catch (error: any) {
@@ -241,175 +668,2685 @@ app.post('/api/auth/register', registerHandler); // Pass the defined handler
 // Register the login handler
 app.post('/api/auth/login', loginHandler);
 
-// --- Voice / TTS Routes ---
+// POST /api/auth/refresh: trade a refresh token for a new access token. The
+// refresh token is rotated, so each one can only be used once.
+app.post('/api/auth/refresh', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = splitRefreshToken(req.body.refreshToken);
+    if (!parsed) {
+        res.status(400).json({ error: 'Refresh token is required.' });
+        return;
+    }
+    if (!JWT_SECRET) {
+        console.error('Refresh Error: JWT_SECRET is not configured!');
+        return next(new Error('Server configuration error.'));
+    }
+
+    try {
+        const session = await prisma.session.findUnique({
+            where: { id: parsed.sessionId },
+            include: { user: true },
+        });
+        if (!session || session.revokedAt || session.expiresAt < new Date()) {
+            res.status(401).json({ error: 'Session expired. Please log in again.' });
+            return;
+        }
+        if (session.refreshTokenHash !== hashToken(parsed.secret)) {
+            // An old token was replayed: someone else may hold this session, so end it
+            console.warn(`Refresh token reuse detected for session ${session.id}, revoking it.`);
+            await prisma.session.update({ where: { id: session.id }, data: { revokedAt: new Date() } });
+            res.status(401).json({ error: 'Session expired. Please log in again.' });
+            return;
+        }
 
+        const secret = generateToken();
+        await prisma.session.update({
+            where: { id: session.id },
+            data: {
+                refreshTokenHash: hashToken(secret),
+                lastUsedAt: new Date(),
+                expiresAt: refreshTokenExpiry(),
+                ipAddress: req.ip || session.ipAddress,
+            },
+        });
+
+        res.json({
+            token: signAccessToken(session.user, session.id),
+            refreshToken: `${session.id}.${secret}`,
+        });
+    } catch (error: any) {
+        console.error('Refresh Error:', error);
+        next(new Error(`Token refresh failed: ${error.message}`));
+    }
+});
 
-// GET list of available voices
-app.get('/api/voices', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    if (!ELEVENLABS_API_KEY) {
-        res.status(500).json({ error: 'API key not configured' });
+// POST /api/auth/logout: revoke the session behind a refresh token. Works
+// without a valid access token so an expired client can still log out cleanly.
+app.post('/api/auth/logout', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = splitRefreshToken(req.body.refreshToken);
+    if (!parsed) {
+        res.status(400).json({ error: 'Refresh token is required.' });
         return;
     }
+
     try {
-        const response = await axios.get(`${ELEVENLABS_API_BASE_URL}/voices`, {
-            headers: { 'xi-api-key': ELEVENLABS_API_KEY },
+        await prisma.session.updateMany({
+            where: { id: parsed.sessionId, refreshTokenHash: hashToken(parsed.secret), revokedAt: null },
+            data: { revokedAt: new Date() },
         });
-        res.json(response.data.voices);
+        res.status(204).end();
     } catch (error: any) {
-        console.error('Error fetching voices:', error.response?.data || error.message);
-        // Pass error to error handler middleware
-        next(new Error(`Failed to fetch voices from ElevenLabs: ${error.response?.statusText || error.message}`)); 
+        console.error('Logout Error:', error);
+        next(new Error(`Logout failed: ${error.message}`));
     }
 });
 
-// POST: Add a new voice
-app.post('/api/voices', authenticateToken, upload.array('files', 30), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-     if (!ELEVENLABS_API_KEY) {
-        res.status(500).json({ error: 'API key not configured' });
-        return;
+// GET the signed-in user's account details
+app.get('/api/auth/me', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+        if (!user) {
+            res.status(404).json({ error: 'User not found.' });
+            return;
+        }
+        res.json({
+            userId: user.id,
+            email: user.email,
+            emailVerified: !!user.emailVerifiedAt,
+            isAdmin: isAdminEmail(user.email),
+        });
+    } catch (error: any) {
+        console.error('Error loading current user:', error);
+        next(new Error(`Failed to load account: ${error.message}`));
     }
-    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
-        res.status(400).json({ error: 'No audio files provided for cloning.' });
+});
+
+// GET /api/auth/verify?token=...: target of the link in the verification email.
+// Marks the email verified and sends the browser back to the app with the outcome.
+app.get('/api/auth/verify', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = req.query.token;
+    const redirectTo = (outcome: 'success' | 'invalid') => res.redirect(`${APP_BASE_URL}/?email_verified=${outcome}`);
+    if (typeof token !== 'string' || !token) {
+        redirectTo('invalid');
         return;
     }
-    if (!req.body.name) {
-         res.status(400).json({ error: 'Voice name is required.' });
-         return;
+
+    try {
+        const verificationToken = await prisma.emailVerificationToken.findUnique({ where: { tokenHash: hashToken(token) } });
+        if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt < new Date()) {
+            // Opening the link a second time shouldn't look like a failure
+            const user = verificationToken && await prisma.user.findUnique({ where: { id: verificationToken.userId } });
+            redirectTo(user?.emailVerifiedAt ? 'success' : 'invalid');
+            return;
+        }
+
+        const now = new Date();
+        await prisma.$transaction([
+            prisma.emailVerificationToken.updateMany({
+                where: { userId: verificationToken.userId, usedAt: null },
+                data: { usedAt: now },
+            }),
+            prisma.user.update({
+                where: { id: verificationToken.userId },
+                data: { emailVerifiedAt: now },
+            }),
+        ]);
+        console.log(`Email verified for user ${verificationToken.userId}`);
+        redirectTo('success');
+    } catch (error: any) {
+        console.error('Email Verification Error:', error);
+        next(new Error(`Failed to verify email: ${error.message}`));
     }
+});
 
-    const voiceName = req.body.name;
-    const description = req.body.description || `Cloned voice: ${voiceName}`;
-    const labels = req.body.labels ? JSON.stringify(req.body.labels) : '{}';
+// POST send the verification email again
+app.post('/api/auth/resend-verification', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+        if (!user) {
+            res.status(404).json({ error: 'User not found.' });
+            return;
+        }
+        if (user.emailVerifiedAt) {
+            res.status(409).json({ error: 'Your email is already verified.' });
+            return;
+        }
 
-    console.log(`Received ${req.files.length} files for voice cloning: ${voiceName}`);
+        const recent = await prisma.emailVerificationToken.findFirst({
+            where: { userId: user.id, createdAt: { gt: new Date(Date.now() - EMAIL_VERIFICATION_COOLDOWN_SECONDS * 1000) } },
+        });
+        if (recent) {
+            res.status(429).json({ error: 'A verification email was just sent. Please wait a minute before asking again.' });
+            return;
+        }
 
-    const formData = new FormData();
-    formData.append('name', voiceName);
-    formData.append('description', description);
-    formData.append('labels', labels);
+        await sendVerificationEmail(user);
+        res.json({ message: `Verification email sent to ${user.email}.` });
+    } catch (error: any) {
+        console.error('Resend Verification Error:', error);
+        next(new Error(`Failed to resend verification email: ${error.message}`));
+    }
+});
 
-    (req.files as Express.Multer.File[]).forEach((file) => {
-        const blob = new Blob([file.buffer], { type: file.mimetype });
-        formData.append('files', blob, file.originalname);
-        console.log(`Appending file: ${file.originalname} (${file.mimetype}, ${file.size} bytes)`);
-    });
+// POST /api/auth/forgot-password: email a reset link. Always answers the same
+// way so the endpoint can't be used to find out which emails have accounts.
+app.post('/api/auth/forgot-password', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { email } = req.body;
+    if (!email || typeof email !== 'string') {
+        res.status(400).json({ error: 'Email is required.' });
+        return;
+    }
+    const genericResponse = { message: 'If an account exists for that email, a reset link is on its way.' };
 
     try {
-        console.log('Sending request to ElevenLabs API to add voice...');
-        const response = await axios.post(`${ELEVENLABS_API_BASE_URL}/voices/add`, formData, {
-            headers: {
-                'xi-api-key': ELEVENLABS_API_KEY,
-            },
-            maxBodyLength: Infinity,
-            maxContentLength: Infinity,
+        const user = await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } });
+        if (!user) {
+            console.log(`Password reset requested for unknown email ${email.trim().toLowerCase()}`);
+            res.json(genericResponse);
+            return;
+        }
+
+        const recent = await prisma.passwordResetToken.findFirst({
+            where: { userId: user.id, createdAt: { gt: new Date(Date.now() - PASSWORD_RESET_COOLDOWN_SECONDS * 1000) } },
         });
-        console.log('ElevenLabs add voice response:', response.data);
-        res.status(201).json({ voice_id: response.data.voice_id, name: voiceName });
-    } catch (error: any) {
-        console.error('Error adding voice:', error.response?.data || error.message);
-         if (axios.isAxiosError(error)) {
-            console.error('Axios error details:', error.toJSON());
+        if (recent) {
+            console.log(`Password reset for ${user.email} requested again within cooldown, not sending.`);
+            res.json(genericResponse);
+            return;
         }
-        // Pass error to error handler middleware
-        next(new Error(`Failed to add voice via ElevenLabs API: ${error.response?.statusText || error.message}`));
+
+        // Only the newest link should work
+        const token = generateToken();
+        await prisma.$transaction([
+            prisma.passwordResetToken.updateMany({
+                where: { userId: user.id, usedAt: null },
+                data: { usedAt: new Date() },
+            }),
+            prisma.passwordResetToken.create({
+                data: {
+                    userId: user.id,
+                    tokenHash: hashToken(token),
+                    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+                },
+            }),
+        ]);
+
+        const resetEmail = renderPasswordResetEmail({
+            resetUrl: `${APP_BASE_URL}/?reset_token=${encodeURIComponent(token)}`,
+            expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+        });
+        await mailTransport.send({
+            to: user.email,
+            from: { name: 'AudioGreets', address: MAIL_FROM_ADDRESS },
+            ...resetEmail,
+        });
+        console.log(`Password reset email sent to ${user.email}`);
+        res.json(genericResponse);
+    } catch (error: any) {
+        console.error('Forgot Password Error:', error);
+        next(new Error(`Failed to start password reset: ${error.message}`));
     }
 });
 
-
-// POST: Generate Text-to-Speech
-app.post('/api/tts/:voice_id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    if (!ELEVENLABS_API_KEY) {
-        res.status(500).json({ error: 'API key not configured' });
+// POST /api/auth/reset-password: set a new password with a token from the
+// reset email. Every existing session is signed out.
+app.post('/api/auth/reset-password', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { token, password } = req.body;
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+        res.status(400).json({ error: 'Token and new password are required.' });
         return;
     }
-    
-    const { voice_id } = req.params;
-    const { text, model_id, voice_settings } = req.body;
-
-    if (!text) {
-        res.status(400).json({ error: 'Text input is required.' });
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
         return;
     }
 
-    console.log(`Generating TTS for voice_id: ${voice_id}`);
-
     try {
-        const requestBody: any = {
-            text: text,
-            model_id: model_id || 'eleven_multilingual_v2',
-        };
-        
-        if (voice_settings) {
-             try {
-                requestBody.voice_settings = typeof voice_settings === 'string' ? JSON.parse(voice_settings) : voice_settings;
-            } catch (parseError: any) {
-                console.error("Error parsing voice_settings JSON:", parseError);
-                res.status(400).json({ error: 'Invalid voice_settings format.' });
-                return;
-            }
+        const resetToken = await prisma.passwordResetToken.findUnique({ where: { tokenHash: hashToken(token) } });
+        if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+            res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+            return;
         }
 
-        const response = await axios.post(
-            `${ELEVENLABS_API_BASE_URL}/text-to-speech/${voice_id}/stream`,
-            requestBody,
-            {
-                headers: {
-                    'xi-api-key': ELEVENLABS_API_KEY,
-                    'Content-Type': 'application/json',
-                    'Accept': 'audio/mpeg',
-                },
-                responseType: 'stream',
-            }
-        );
+        const hashedPassword = await bcrypt.hash(password, 10);
+        const now = new Date();
+        const revokedSessions = await prisma.$transaction(async (tx) => {
+            // Claim the token first so two concurrent requests can't both use it
+            const claimed = await tx.passwordResetToken.updateMany({
+                where: { id: resetToken.id, usedAt: null },
+                data: { usedAt: now },
+            });
+            if (claimed.count === 0) return null;
+
+            await tx.user.update({ where: { id: resetToken.userId }, data: { password: hashedPassword } });
+            // Following the emailed link proves the user controls the address
+            await tx.user.updateMany({
+                where: { id: resetToken.userId, emailVerifiedAt: null },
+                data: { emailVerifiedAt: now },
+            });
+            await tx.passwordResetToken.updateMany({
+                where: { userId: resetToken.userId, usedAt: null },
+                data: { usedAt: now },
+            });
+            const { count } = await tx.session.updateMany({
+                where: { userId: resetToken.userId, revokedAt: null },
+                data: { revokedAt: now },
+            });
+            return count;
+        });
+        if (revokedSessions === null) {
+            res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+            return;
+        }
 
-        console.log('Received audio stream from ElevenLabs.');
-        res.setHeader('Content-Type', 'audio/mpeg');
-        res.setHeader('Accept-Ranges', 'bytes');
-        response.data.pipe(res);
+        console.log(`Password reset for user ${resetToken.userId}; revoked ${revokedSessions} sessions`);
+        res.json({ message: 'Your password has been reset. Please log in with your new password.' });
+    } catch (error: any) {
+        console.error('Reset Password Error:', error);
+        next(new Error(`Failed to reset password: ${error.message}`));
+    }
+});
 
-        // Handle stream events directly on response.data
-        response.data.on('end', () => {
-            console.log('Audio stream finished.');
-            // res.end() is handled by pipe
+// GET the caller's active sessions (signed-in devices)
+app.get('/api/auth/sessions', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const sessions = await prisma.session.findMany({
+            where: { userId: req.user!.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { lastUsedAt: 'desc' },
         });
-        response.data.on('error', (err: Error) => {
-            console.error('Error piping audio stream:', err);
-            next(err); // Pass stream errors to the error handler
+        res.json(sessions.map((session) => ({
+            id: session.id,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            current: session.id === req.user!.sessionId,
+        })));
+    } catch (error: any) {
+        console.error('Error listing sessions:', error);
+        next(new Error(`Failed to list sessions: ${error.message}`));
+    }
+});
+
+// DELETE every session except the current one ("sign out other devices")
+app.delete('/api/auth/sessions', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { count } = await prisma.session.updateMany({
+            where: { userId: req.user!.userId, revokedAt: null, id: { not: req.user!.sessionId } },
+            data: { revokedAt: new Date() },
+        });
+        res.json({ revoked: count });
+    } catch (error: any) {
+        console.error('Error revoking sessions:', error);
+        next(new Error(`Failed to revoke sessions: ${error.message}`));
+    }
+});
+
+// DELETE one of the caller's sessions
+app.delete('/api/auth/sessions/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { count } = await prisma.session.updateMany({
+            where: { id: req.params.id, userId: req.user!.userId, revokedAt: null },
+            data: { revokedAt: new Date() },
         });
+        if (count === 0) {
+            res.status(404).json({ error: 'Session not found.' });
+            return;
+        }
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error revoking session:', error);
+        next(new Error(`Failed to revoke session: ${error.message}`));
+    }
+});
+
+// --- Account Settings Routes ---
+
+// Shape sent to the client; the key itself never leaves the server once saved
+const toApiKeyResponse = (user: { elevenLabsApiKeyLast4: string | null; elevenLabsApiKeyUpdatedAt: Date | null }) => ({
+    configured: !!user.elevenLabsApiKeyLast4,
+    last4: user.elevenLabsApiKeyLast4,
+    updatedAt: user.elevenLabsApiKeyUpdatedAt,
+    available: !!API_KEY_ENCRYPTION_KEY,  // false when the server can't store keys
+});
 
+// GET whether the caller has saved their own ElevenLabs API key
+app.get('/api/account/api-key', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+        if (!user) {
+            res.status(404).json({ error: 'User not found.' });
+            return;
+        }
+        res.json(toApiKeyResponse(user));
     } catch (error: any) {
-        console.error('Error generating TTS:', error.response?.data || error.message);
-
-        // Check if the error response itself is a stream (contains JSON error from ElevenLabs)
-        if (axios.isAxiosError(error) && error.response?.data instanceof Readable) {
-            let errorData = '';
-            const errorStream = error.response.data as Readable;
-            errorStream.on('data', (chunk: Buffer) => errorData += chunk.toString());
-            errorStream.on('end', () => {
-                 try {
-                     const parsedError = JSON.parse(errorData);
-                     console.error('ElevenLabs TTS Error Body:', parsedError);
-                     // Pass a structured error to the handler
-                     const apiError = new Error('ElevenLabs API Error');
-                     (apiError as any).status = error.response?.status || 500;
-                     (apiError as any).details = parsedError;
-                     next(apiError); 
-                 } catch (e) {
-                     console.error('Could not parse ElevenLabs error stream:', errorData);
-                     next(new Error(`ElevenLabs TTS Error (Unparseable): ${error.response?.statusText || 'Unknown'}`));
-                 }
-             });
-             errorStream.on('error', (streamErr: Error) => { // Handle errors reading the error stream
-                 console.error('Error reading ElevenLabs error stream:', streamErr);
-                 next(new Error(`ElevenLabs TTS Error (Stream Read Fail): ${error.response?.statusText || 'Unknown'}`));
-             });
-        } else {
-            // Handle other errors (network, non-stream Axios errors, etc.)
-             const genericError = new Error(`Failed to generate TTS: ${error.response?.statusText || error.message}`);
-             (genericError as any).status = error.response?.status || 500;
-             (genericError as any).details = axios.isAxiosError(error) ? error.response?.data : undefined;
-             next(genericError); 
+        console.error('Error loading API key settings:', error);
+        next(new Error(`Failed to load API key settings: ${error.message}`));
+    }
+});
+
+// PUT { apiKey }: checks the key with ElevenLabs, then stores it encrypted.
+// From then on the caller's voices and audio are billed to their own account.
+app.put('/api/account/api-key', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const apiKey = typeof req.body.apiKey === 'string' ? req.body.apiKey.trim() : '';
+    if (!apiKey || apiKey.length > 200 || /\s/.test(apiKey)) {
+        res.status(400).json({ error: 'A valid API key is required.' });
+        return;
+    }
+    if (!API_KEY_ENCRYPTION_KEY) {
+        res.status(503).json({ error: 'Saving your own API key is not enabled on this server.' });
+        return;
+    }
+
+    try {
+        const isValid = await createElevenLabsProvider(apiKey, process.env).verifyApiKey();
+        if (!isValid) {
+            res.status(400).json({ error: 'ElevenLabs rejected this API key. Check that it was copied correctly.' });
+            return;
         }
+
+        const user = await prisma.user.update({
+            where: { id: req.user!.userId },
+            data: {
+                elevenLabsApiKeyEncrypted: encryptSecret(apiKey, API_KEY_ENCRYPTION_KEY),
+                elevenLabsApiKeyLast4: apiKey.slice(-4),
+                elevenLabsApiKeyUpdatedAt: new Date(),
+            },
+        });
+        console.log(`User ${req.user!.email} saved their own ElevenLabs API key`);
+        res.json(toApiKeyResponse(user));
+    } catch (error: any) {
+        console.error('Error saving API key:', error.message);
+        // Provider errors (ElevenLabs unreachable) keep their status for the error handler
+        next(error instanceof ProviderError ? error : new Error(`Failed to save API key: ${error.message}`));
+    }
+});
+
+// DELETE the caller's saved key; requests go back to the server's account
+app.delete('/api/account/api-key', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await prisma.user.update({
+            where: { id: req.user!.userId },
+            data: { elevenLabsApiKeyEncrypted: null, elevenLabsApiKeyLast4: null, elevenLabsApiKeyUpdatedAt: null },
+        });
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error removing API key:', error);
+        next(new Error(`Failed to remove API key: ${error.message}`));
+    }
+});
+
+// --- Voice / TTS Routes ---
+
+
+// Voice categories ElevenLabs ships to every account. Anything else (cloned,
+// generated, professional) is only listed for the user who owns it.
+const STOCK_VOICE_CATEGORIES = ['premade'];
+
+// Returns false when the voice is a clone owned by a different user.
+// Stock voices and untracked account voices have no Voice row and stay usable.
+const canUseVoice = async (userId: string, voiceId: string): Promise<boolean> => {
+    const voice = await prisma.voice.findUnique({ where: { voiceId } });
+    return !voice || voice.userId === userId;
+};
+
+// GET list of available voices: stock voices plus the caller's own clones.
+// With their own API key, every voice on the caller's ElevenLabs account is theirs.
+app.get('/api/voices', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { provider, ownApiKey } = req.tts!;
+        const [providerVoices, ownedVoices] = await Promise.all([
+            provider.listVoices(),
+            prisma.voice.findMany({
+                where: { userId: req.user!.userId },
+                select: { voiceId: true },
+            }),
+        ]);
+        const ownedVoiceIds = new Set(ownedVoices.map((voice) => voice.voiceId));
+        const visibleVoices = providerVoices.filter((voice) =>
+            ownApiKey || STOCK_VOICE_CATEGORIES.includes(voice.category || '') || ownedVoiceIds.has(voice.voice_id)
+        );
+        // `owned` marks clones made through this app, which the caller can edit and delete
+        res.json(visibleVoices.map((voice) => ({ ...voice, owned: ownedVoiceIds.has(voice.voice_id) })));
+    } catch (error: any) {
+        console.error('Error fetching voices:', error.message);
+        // Provider errors carry their own status and details for the error handler
+        next(error);
+    }
+});
+
+// Looks up a clone the caller made through this app; null for other voices
+const findOwnedVoice = (userId: string, voiceId: string) =>
+    prisma.voice.findFirst({ where: { voiceId, userId } });
+
+// Labels are a flat map of short strings, e.g. { accent: 'british' }
+const parseVoiceLabels = (value: unknown): Record<string, string> | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const entries = Object.entries(value);
+    const valid = entries.length <= 10 && entries.every(([key, label]) =>
+        key.trim() && key.length <= 50 && typeof label === 'string' && label.length <= 100
+    );
+    return valid ? Object.fromEntries(entries) : null;
+};
+
+// What still points at a voice: greetings made with it (some of which may have
+// deliveries waiting) and contacts who have it as their preferred voice
+const countVoiceReferences = async (userId: string, voiceId: string) => {
+    const [greetings, scheduledDeliveries, contacts] = await Promise.all([
+        prisma.greeting.count({ where: { userId, voiceId } }),
+        prisma.deliverySchedule.count({ where: { userId, status: { in: ['scheduled', 'sending'] }, greeting: { voiceId } } }),
+        prisma.contact.count({ where: { userId, preferredVoiceId: voiceId } }),
+    ]);
+    return { greetings, scheduledDeliveries, contacts };
+};
+
+// GET what references one of the caller's clones, to warn before deleting it
+app.get('/api/voices/:voice_id/references', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        if (!(await findOwnedVoice(req.user!.userId, req.params.voice_id))) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        res.json(await countVoiceReferences(req.user!.userId, req.params.voice_id));
+    } catch (error: any) {
+        console.error('Error counting voice references:', error);
+        next(new Error(`Failed to check voice usage: ${error.message}`));
+    }
+});
+
+// PATCH: Rename a clone or change its description and labels, at the provider and here
+app.patch('/api/voices/:voice_id', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { name, description, labels } = req.body;
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 100)) {
+        res.status(400).json({ error: 'Voice name must be 1 to 100 characters.' });
+        return;
+    }
+    if (description !== undefined && (typeof description !== 'string' || description.length > 500)) {
+        res.status(400).json({ error: 'Description must be at most 500 characters.' });
+        return;
+    }
+    const parsedLabels = labels === undefined ? undefined : parseVoiceLabels(labels);
+    if (parsedLabels === null) {
+        res.status(400).json({ error: 'Labels must be up to 10 short text values.' });
+        return;
+    }
+
+    try {
+        const voice = await findOwnedVoice(req.user!.userId, req.params.voice_id);
+        if (!voice) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+
+        // The provider replaces name and description together, so fill in unchanged ones
+        const changes = {
+            name: name?.trim() ?? voice.name,
+            description: description?.trim() ?? voice.description ?? '',
+        };
+        await req.tts!.provider.editVoice(voice.voiceId, { ...changes, labels: parsedLabels });
+        const updated = await prisma.voice.update({
+            where: { id: voice.id },
+            data: { name: changes.name, description: changes.description || null },
+        });
+        console.log(`Voice edited: ${voice.voiceId}`);
+        res.json({ voice_id: updated.voiceId, name: updated.name, description: updated.description, ...(parsedLabels && { labels: parsedLabels }) });
+    } catch (error: any) {
+        console.error('Error editing voice:', error.message);
+        next(error);
+    }
+});
+
+// DELETE one of the caller's clones. Saved greeting audio is kept either way.
+// With ?reassignTo=<voice id>, greetings and contacts that used the voice are
+// moved to that voice; otherwise greetings keep the old id and contacts lose
+// their preference.
+app.delete('/api/voices/:voice_id', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user!.userId;
+    const reassignTo = typeof req.query.reassignTo === 'string' && req.query.reassignTo ? req.query.reassignTo : null;
+    if (reassignTo === req.params.voice_id) {
+        res.status(400).json({ error: 'Choose a different voice to move greetings to.' });
+        return;
+    }
+
+    try {
+        const voice = await findOwnedVoice(userId, req.params.voice_id);
+        if (!voice) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+
+        const { provider } = req.tts!;
+        if (reassignTo) {
+            const available = await provider.listVoices();
+            if (!available.some((v) => v.voice_id === reassignTo) || !(await canUseVoice(userId, reassignTo))) {
+                res.status(400).json({ error: 'The voice to move greetings to is not available.' });
+                return;
+            }
+        }
+
+        try {
+            await provider.deleteVoice(voice.voiceId);
+        } catch (error: any) {
+            // Already gone at the provider; still drop our record of it
+            if (!(error instanceof ProviderError && error.status === 404)) throw error;
+            console.warn(`Voice ${voice.voiceId} was already deleted at the provider`);
+        }
+
+        await prisma.$transaction([
+            ...(reassignTo ? [prisma.greeting.updateMany({
+                where: { userId, voiceId: voice.voiceId },
+                data: { voiceId: reassignTo },
+            })] : []),
+            prisma.contact.updateMany({
+                where: { userId, preferredVoiceId: voice.voiceId },
+                data: { preferredVoiceId: reassignTo },
+            }),
+            // Presets were tuned for this voice, so they don't carry over
+            prisma.voicePreset.deleteMany({ where: { userId, voiceId: voice.voiceId } }),
+            prisma.voice.delete({ where: { id: voice.id } }),
+        ]);
+        console.log(`Voice deleted: ${voice.voiceId}${reassignTo ? ` (references moved to ${reassignTo})` : ''}`);
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error deleting voice:', error.message);
+        next(error);
+    }
+});
+
+// GET the provider's default settings for a voice, for "reset to voice defaults"
+app.get('/api/voices/:voice_id/settings', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        if (!(await canUseVoice(req.user!.userId, req.params.voice_id))) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        res.json(await req.tts!.provider.getVoiceSettings(req.params.voice_id));
+    } catch (error: any) {
+        console.error('Error fetching voice settings:', error.message);
+        next(error);
+    }
+});
+
+// Removes voice samples multer wrote to disk
+const removeUploadedFiles = (files: Express.Multer.File[]): Promise<void> =>
+    Promise.all(files.map((file) => fs.promises.rm(file.path, { force: true }))).then(() => undefined);
+
+// Sample file saved for a queued job, by name under JOB_STORAGE_DIR
+interface StoredSample {
+    storedName: string;
+    fileName: string;
+    mimeType: string;
+}
+
+interface CloneJobInput {
+    name: string;
+    description: string;
+    labels: Record<string, string>;
+    files: StoredSample[];
+}
+
+const toStoredSamples = (files: Express.Multer.File[]): StoredSample[] =>
+    files.map((file) => ({ storedName: file.filename, fileName: file.originalname, mimeType: file.mimetype }));
+
+// Loads a job's samples for the provider, reporting the first 10% of progress
+const readStoredSamples = async (files: StoredSample[], report: ReportProgress): Promise<VoiceSampleFile[]> => {
+    await report('preparing', 0);
+    const samples: VoiceSampleFile[] = [];
+    for (const [index, file] of files.entries()) {
+        samples.push({
+            buffer: await fs.promises.readFile(path.join(JOB_STORAGE_DIR, file.storedName)),
+            fileName: file.fileName,
+            mimeType: file.mimeType,
+        });
+        await report('preparing', 0.1 * (index + 1) / files.length);
+    }
+    return samples;
+};
+
+const removeStoredSamples = (files: StoredSample[]): Promise<void> =>
+    Promise.all(files.map((file) => fs.promises.rm(path.join(JOB_STORAGE_DIR, file.storedName), { force: true }))).then(() => undefined);
+
+// POST: Add a new voice. The samples are stored and a background job uploads
+// them to the provider; clients follow it through the job routes.
+app.post('/api/voices', authenticateToken, requireVerifiedEmail, useCallerProvider, rateLimit(cloneRateLimiter, 'voice cloning'), enforceVoiceLimit, upload.array('files', 30), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const uploadedFiles = Array.isArray(req.files) ? req.files : [];
+    const reject = (message: string) => {
+        removeUploadedFiles(uploadedFiles).catch((error) => console.error('Failed to remove rejected voice samples:', error));
+        res.status(400).json({ error: message });
+    };
+    if (uploadedFiles.length === 0) {
+        reject('No audio files provided for cloning.');
+        return;
+    }
+    if (!req.body.name) {
+        reject('Voice name is required.');
+        return;
+    }
+
+    const voiceName = req.body.name;
+    const description = req.body.description || `Cloned voice: ${voiceName}`;
+    let labels: Record<string, string> = {};
+    if (req.body.labels) {
+        try {
+            labels = typeof req.body.labels === 'string' ? JSON.parse(req.body.labels) : req.body.labels;
+        } catch {
+            reject('Invalid labels format.');
+            return;
+        }
+    }
+
+    console.log(`Received ${uploadedFiles.length} files for voice cloning: ${voiceName}`);
+    const input: CloneJobInput = {
+        name: voiceName,
+        description,
+        labels,
+        files: toStoredSamples(uploadedFiles),
+    };
+
+    try {
+        const job = await jobQueue.enqueue(req.user!.userId, 'clone', input as unknown as Prisma.InputJsonValue);
+        console.log(`Queued clone job ${job.id} for voice ${voiceName}`);
+        res.status(202).json(toJobResponse(job));
+    } catch (error: any) {
+        console.error('Error queueing voice clone:', error);
+        removeUploadedFiles(uploadedFiles).catch((removeError) => console.error('Failed to remove voice samples:', removeError));
+        next(new Error(`Failed to queue voice cloning: ${error.message}`));
+    }
+});
+
+// Clones a voice from samples stored by POST /api/voices
+const cloneJobHandler: JobHandler = {
+    async run(job, report) {
+        const input = job.input as unknown as CloneJobInput;
+
+        // The voice limit was checked on submission, but other clones may have finished since
+        if (MAX_CLONED_VOICES > 0 && (await prisma.voice.count({ where: { userId: job.userId } })) >= MAX_CLONED_VOICES) {
+            throw new Error(`You can have at most ${MAX_CLONED_VOICES} cloned voices. Delete one to add another.`);
+        }
+
+        const { provider, ownApiKey } = await resolveCallerProvider(job.userId);
+        const files = await readStoredSamples(input.files, report);
+
+        const usage = { userId: job.userId, action: 'clone' as const, provider: provider.name, ownApiKey };
+        const startedAt = Date.now();
+        let voiceId: string;
+        try {
+            console.log(`Sending request to ${provider.name} provider to add voice...`);
+            await report('uploading', 0.1);
+            ({ voiceId } = await provider.cloneVoice({
+                name: input.name,
+                description: input.description,
+                labels: input.labels,
+                files,
+                // Once every byte is sent the provider is still building the voice
+                onUploadProgress: (fraction) => {
+                    report(fraction < 1 ? 'uploading' : 'processing', 0.1 + 0.8 * fraction)
+                        .catch((error) => console.error(`Failed to record progress of job ${job.id}:`, error));
+                },
+            }));
+        } catch (error: any) {
+            recordUsage({ ...usage, latencyMs: Date.now() - startedAt, success: false, errorMessage: error.message });
+            throw error;
+        }
+        console.log(`Voice added: ${voiceId}`);
+        recordUsage({ ...usage, voiceId, latencyMs: Date.now() - startedAt, success: true });
+
+        // Record ownership so the clone is only listed for (and usable by) its creator
+        await report('saving', 0.95);
+        await prisma.voice.create({
+            data: {
+                userId: job.userId,
+                voiceId,
+                name: input.name,
+                description: input.description,
+            },
+        });
+        return { voice_id: voiceId, name: input.name };
+    },
+
+    async cleanup(job) {
+        await removeStoredSamples((job.input as unknown as CloneJobInput).files);
+    },
+};
+
+// Samples stored for a queued upload to an existing clone
+interface SamplesJobInput {
+    voiceId: string;
+    name: string;  // Voice name when the job was queued, for the job summary
+    files: StoredSample[];
+}
+
+// Adds samples stored by POST /api/voices/:voice_id/samples to an existing clone
+const samplesJobHandler: JobHandler = {
+    async run(job, report) {
+        const input = job.input as unknown as SamplesJobInput;
+        // The voice may have been deleted or renamed while the job waited
+        const voice = await findOwnedVoice(job.userId, input.voiceId);
+        if (!voice) {
+            throw new Error('This voice no longer exists.');
+        }
+
+        const { provider, ownApiKey } = await resolveCallerProvider(job.userId);
+        const files = await readStoredSamples(input.files, report);
+
+        const usage = { userId: job.userId, action: 'clone' as const, provider: provider.name, voiceId: voice.voiceId, ownApiKey };
+        const startedAt = Date.now();
+        try {
+            console.log(`Sending ${files.length} samples to ${provider.name} provider for voice ${voice.voiceId}...`);
+            await report('uploading', 0.1);
+            await provider.editVoice(voice.voiceId, {
+                name: voice.name,
+                description: voice.description ?? '',
+                files,
+                onUploadProgress: (fraction) => {
+                    report(fraction < 1 ? 'uploading' : 'processing', 0.1 + 0.8 * fraction)
+                        .catch((error) => console.error(`Failed to record progress of job ${job.id}:`, error));
+                },
+            });
+        } catch (error: any) {
+            recordUsage({ ...usage, latencyMs: Date.now() - startedAt, success: false, errorMessage: error.message });
+            throw error;
+        }
+        console.log(`Samples added to voice ${voice.voiceId}`);
+        recordUsage({ ...usage, latencyMs: Date.now() - startedAt, success: true });
+        return { voice_id: voice.voiceId, name: voice.name };
+    },
+
+    async cleanup(job) {
+        await removeStoredSamples((job.input as unknown as SamplesJobInput).files);
+    },
+};
+
+// GET the samples a clone was made from, with their size and (when known) duration
+app.get('/api/voices/:voice_id/samples', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const voice = await findOwnedVoice(req.user!.userId, req.params.voice_id);
+        if (!voice) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        res.json(await req.tts!.provider.listVoiceSamples(voice.voiceId));
+    } catch (error: any) {
+        console.error('Error fetching voice samples:', error.message);
+        next(error);
+    }
+});
+
+// POST: Add uploaded or recorded samples to a clone. Like cloning, the upload to
+// the provider runs as a background job.
+app.post('/api/voices/:voice_id/samples', authenticateToken, requireVerifiedEmail, useCallerProvider, rateLimit(cloneRateLimiter, 'voice cloning'), upload.array('files', 30), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const uploadedFiles = Array.isArray(req.files) ? req.files : [];
+    const reject = (status: number, message: string) => {
+        removeUploadedFiles(uploadedFiles).catch((error) => console.error('Failed to remove rejected voice samples:', error));
+        res.status(status).json({ error: message });
+    };
+    if (uploadedFiles.length === 0) {
+        reject(400, 'No audio files provided.');
+        return;
+    }
+
+    try {
+        const voice = await findOwnedVoice(req.user!.userId, req.params.voice_id);
+        if (!voice) {
+            reject(404, 'Voice not found.');
+            return;
+        }
+
+        console.log(`Received ${uploadedFiles.length} files to add to voice ${voice.voiceId}`);
+        const input: SamplesJobInput = { voiceId: voice.voiceId, name: voice.name, files: toStoredSamples(uploadedFiles) };
+        const job = await jobQueue.enqueue(req.user!.userId, 'samples', input as unknown as Prisma.InputJsonValue);
+        console.log(`Queued samples job ${job.id} for voice ${voice.voiceId}`);
+        res.status(202).json(toJobResponse(job));
+    } catch (error: any) {
+        console.error('Error queueing voice samples:', error);
+        removeUploadedFiles(uploadedFiles).catch((removeError) => console.error('Failed to remove voice samples:', removeError));
+        next(new Error(`Failed to queue voice samples: ${error.message}`));
+    }
+});
+
+// GET one sample's audio, for playback
+app.get('/api/voices/:voice_id/samples/:sample_id/audio', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const voice = await findOwnedVoice(req.user!.userId, req.params.voice_id);
+        if (!voice) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        // Only ids the voice actually has: the id ends up in the provider's URL
+        const { provider } = req.tts!;
+        const samples = await provider.listVoiceSamples(voice.voiceId);
+        if (!samples.some((sample) => sample.sample_id === req.params.sample_id)) {
+            res.status(404).json({ error: 'Sample not found.' });
+            return;
+        }
+        const { stream, contentType } = await provider.getVoiceSampleAudio(voice.voiceId, req.params.sample_id);
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Cache-Control', 'private, max-age=3600');
+        stream.on('error', (error: Error) => {
+            console.error('Error streaming voice sample:', error);
+            next(error);
+        });
+        stream.pipe(res);
+    } catch (error: any) {
+        console.error('Error fetching voice sample audio:', error.message);
+        next(error);
+    }
+});
+
+// DELETE one sample from a clone. The last sample can't be removed; delete the voice instead.
+app.delete('/api/voices/:voice_id/samples/:sample_id', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const voice = await findOwnedVoice(req.user!.userId, req.params.voice_id);
+        if (!voice) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+
+        const { provider } = req.tts!;
+        const samples = await provider.listVoiceSamples(voice.voiceId);
+        if (!samples.some((sample) => sample.sample_id === req.params.sample_id)) {
+            res.status(404).json({ error: 'Sample not found.' });
+            return;
+        }
+        if (samples.length === 1) {
+            res.status(400).json({ error: 'A voice needs at least one sample. Delete the voice instead.' });
+            return;
+        }
+
+        await provider.deleteVoiceSample(voice.voiceId, req.params.sample_id);
+        console.log(`Sample ${req.params.sample_id} deleted from voice ${voice.voiceId}`);
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error deleting voice sample:', error.message);
+        next(error);
+    }
+});
+
+// GET the provider's text-to-speech models with their languages, character
+// limit and which voice settings they take. `is_default` marks the model used
+// when a request doesn't name one.
+app.get('/api/models', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { provider } = req.tts!;
+        const models = await modelCatalog.list(provider);
+        res.json(models.map((model) => ({ ...model, is_default: model.model_id === provider.defaultModelId })));
+    } catch (error: any) {
+        console.error('Error fetching models:', error.message);
+        next(error);
+    }
+});
+
+// Looks a TTS request's model up in the catalog, so unknown models are turned
+// away before anything is billed. The model is null when the catalog can't be
+// fetched; the provider gets to decide then.
+const findTtsModel = async (provider: TtsProvider, modelId: string): Promise<{ error: string } | { model: ProviderModel | null }> => {
+    try {
+        const model = await modelCatalog.find(provider, modelId);
+        return model ? { model } : { error: `Unknown model: ${modelId}.` };
+    } catch (error: any) {
+        console.warn(`Could not check model ${modelId} against the catalog:`, error.message);
+        return { model: null };
+    }
+};
+
+// Longest text a greeting can have. Texts over the model's per-request limit
+// are generated in parts by the job queue.
+const MAX_TTS_TEXT_CHARACTERS = 20000;
+
+// What to synthesize, as sent to the TTS routes
+interface TtsInput {
+    text: string;
+    modelId: string | null;  // null = the provider's default
+    voiceSettings?: Record<string, unknown>;
+    presetId: string | null; // Preset the voice settings were taken from, recorded with the greeting
+    occasion: string | null;
+}
+
+const parseTtsInput = (body: Record<string, unknown>): { error: string } | { data: TtsInput } => {
+    const { text, model_id, voice_settings, preset_id, occasion } = body;
+    if (!text || typeof text !== 'string') {
+        return { error: 'Text input is required.' };
+    }
+    if (text.length > MAX_TTS_TEXT_CHARACTERS) {
+        return { error: `Text must be at most ${MAX_TTS_TEXT_CHARACTERS} characters.` };
+    }
+    const [scriptError] = parseScript(text).errors;
+    if (scriptError) {
+        return { error: `Line ${scriptError.line}: ${scriptError.message}` };
+    }
+
+    let voiceSettings: Record<string, unknown> | undefined;
+    if (voice_settings) {
+        try {
+            voiceSettings = typeof voice_settings === 'string' ? JSON.parse(voice_settings) : voice_settings as Record<string, unknown>;
+        } catch (parseError: any) {
+            console.error("Error parsing voice_settings JSON:", parseError);
+            return { error: 'Invalid voice_settings format.' };
+        }
+    }
+
+    return {
+        data: {
+            text,
+            modelId: typeof model_id === 'string' && model_id ? model_id : null,
+            voiceSettings,
+            presetId: typeof preset_id === 'string' && preset_id ? preset_id : null,
+            occasion: typeof occasion === 'string' && occasion ? occasion : null,
+        },
+    };
+};
+
+// Adds the history entry for a synthesis. Cache hits cost nothing and are
+// stored with a character count of 0, so they don't count against the quota.
+// The preset is stored by name; an unknown or since-deleted one is left out.
+const createGreeting = async (userId: string, voiceId: string, modelId: string, input: TtsInput, contentType: string, characterCount: number) => {
+    const preset = input.presetId
+        ? await prisma.voicePreset.findFirst({ where: { id: input.presetId, userId, voiceId }, select: { name: true } })
+        : null;
+    return prisma.greeting.create({
+        data: {
+            userId,
+            text: input.text,
+            voiceId,
+            modelId,
+            occasion: input.occasion,
+            voiceSettings: (input.voiceSettings as Prisma.InputJsonValue | undefined) ?? Prisma.JsonNull,
+            presetName: preset?.name ?? null,
+            contentType,
+            characterCount,
+        },
+    });
+};
+
+// Rough size of MP3 speech per character of text, used to estimate progress
+// while the stream arrives (128 kbps at about 14 characters a second)
+const ESTIMATED_AUDIO_BYTES_PER_CHARACTER = 1200;
+
+// Long text is synthesized in parts of at most this many characters (less if
+// the model's own limit is lower), each sent with some of the text around it
+// so the voice keeps the same pace and intonation across the joins
+const TTS_CHUNK_CHARACTERS = 1000;
+const CHUNK_CONTEXT_CHARACTERS = 300;
+
+interface ScriptSynthesisRequest {
+    voiceId: string;
+    modelId: string;
+    voiceSettings?: Record<string, unknown>;
+}
+
+// Synthesizes a rendered script into one file. Text is sent in chunks of at
+// most chunkCharacters, each with its neighbours as context, and pauses are
+// spliced in as silence in the format of the synthesized audio. onProgress
+// gets the share of the text done so far, from 0 to 1.
+const synthesizeScript = async (
+    provider: TtsProvider,
+    request: ScriptSynthesisRequest,
+    parts: ScriptPart[],
+    chunkCharacters: number,
+    onProgress: (fraction: number) => Promise<void> = async () => {},
+): Promise<{ audio: Buffer; contentType: string }> => {
+    const pieces = parts.flatMap((part): ScriptPart[] => 'text' in part
+        ? splitIntoChunks(part.text, chunkCharacters).map((text) => ({ text }))
+        : [part]);
+    const texts = pieces.flatMap((piece) => 'text' in piece ? [piece.text] : []);
+    const totalCharacters = texts.reduce((total, text) => total + text.length, 0);
+
+    let contentType = '';
+    let done = 0;
+    const textAudio: Buffer[] = [];
+    for (const [index, text] of texts.entries()) {
+        const synthesis = await provider.synthesize({
+            ...request,
+            text,
+            previousText: index > 0 ? texts[index - 1].slice(-CHUNK_CONTEXT_CHARACTERS) : undefined,
+            nextText: index < texts.length - 1 ? texts[index + 1].slice(0, CHUNK_CONTEXT_CHARACTERS) : undefined,
+        });
+        contentType = synthesis.contentType;
+        const expectedBytes = text.length * ESTIMATED_AUDIO_BYTES_PER_CHARACTER;
+        const chunks: Buffer[] = [];
+        let received = 0;
+        for await (const chunk of synthesis.stream) {
+            chunks.push(chunk);
+            received += chunk.length;
+            await onProgress((done + text.length * Math.min(received / expectedBytes, 1)) / totalCharacters);
+        }
+        textAudio.push(Buffer.concat(chunks));
+        done += text.length;
+    }
+
+    let next = 0;
+    const ordered = pieces.map((piece) => 'text' in piece ? textAudio[next++] : renderSilence(textAudio[0], contentType, piece.silence));
+    return { audio: concatenateAudio(ordered, contentType), contentType };
+};
+
+// Audio for a cache key or a saved greeting never changes, so clients may keep
+// it indefinitely. Only set on responses that carry the audio.
+const setImmutableAudioHeaders = (res: Response, tag: string): void => {
+    res.setHeader('ETag', `"${tag}"`);
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+};
+
+// POST: Generate Text-to-Speech
+app.post('/api/tts/:voice_id', authenticateToken, requireVerifiedEmail, useCallerProvider, rateLimit(ttsRateLimiter, 'audio generation'), enforceCharacterQuota, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { voice_id } = req.params;
+    const parsed = parseTtsInput(req.body);
+    if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+    }
+    const input = parsed.data;
+    const { text, voiceSettings } = input;
+
+    console.log(`Generating TTS for voice_id: ${voice_id}`);
+
+    const { provider, ownApiKey } = req.tts!;
+    const modelId = input.modelId || provider.defaultModelId;
+    const usage = {
+        userId: req.user!.userId,
+        action: 'tts' as const,
+        provider: provider.name,
+        ownApiKey,
+        voiceId: voice_id,
+        modelId,
+        characters: text.length,
+    };
+    let startedAt: number | null = null;  // Set once the provider (or cache) is asked for audio
+
+    try {
+        if (!(await canUseVoice(req.user!.userId, voice_id))) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        const found = await findTtsModel(provider, modelId);
+        if ('error' in found) {
+            res.status(400).json({ error: found.error });
+            return;
+        }
+        const script = renderScript(parseScript(text).nodes, found.model);
+        // This route makes one request per stretch of text between spliced
+        // pauses; the job route splits longer text
+        const maxCharacters = found.model?.max_characters ?? null;
+        if (maxCharacters !== null && script.parts.some((part) => 'text' in part && part.text.length > maxCharacters)) {
+            res.status(400).json({ error: `${found.model!.name} takes at most ${maxCharacters} characters per request. Queue longer text as a background job, which generates it in parts.` });
+            return;
+        }
+
+        startedAt = Date.now();
+        const cacheKey = ttsCache.keyFor({ provider: provider.name, account: ownApiKey ? req.user!.userId : undefined, voiceId: voice_id, modelId, text, voiceSettings });
+        const cached = await ttsCache.get(cacheKey);
+
+        if (cached) {
+            console.log(`TTS cache hit (${cacheKey.slice(0, 12)}), not calling ${provider.name} provider.`);
+            const greeting = await createGreeting(req.user!.userId, voice_id, modelId, input, cached.contentType, 0);
+            await saveGreetingAudio(greeting, cached.audio);
+            res.setHeader('Content-Type', cached.contentType);
+            res.setHeader('X-Greeting-Id', greeting.id);
+            res.setHeader('X-Cache', 'HIT');
+            setImmutableAudioHeaders(res, cacheKey);
+            res.send(cached.audio);
+            recordUsage({ ...usage, bytes: cached.audio.length, latencyMs: Date.now() - startedAt, success: true, cached: true });
+            return;
+        }
+
+        startedAt = Date.now();
+        // Audio with spliced pauses is put together before any of it is sent
+        const [firstPart] = script.parts;
+        const { stream, contentType } = script.parts.length === 1 && 'text' in firstPart
+            ? await provider.synthesize({ voiceId: voice_id, text: firstPart.text, modelId, voiceSettings })
+            : await synthesizeScript(provider, { voiceId: voice_id, modelId, voiceSettings }, script.parts, maxCharacters ?? TTS_CHUNK_CHARACTERS)
+                .then(({ audio, contentType }) => ({ stream: Readable.from([audio]), contentType }));
+
+        // Create the history entry now so its id can go out with the response headers.
+        // The audio file is attached once the whole stream has arrived.
+        const greeting = await createGreeting(req.user!.userId, voice_id, modelId, input, contentType, text.length);
+
+        console.log(`Received audio stream from ${provider.name} provider.`);
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Accept-Ranges', 'bytes');
+        res.setHeader('X-Greeting-Id', greeting.id);
+        res.setHeader('X-Cache', 'MISS');
+        setImmutableAudioHeaders(res, cacheKey);
+
+        const audioChunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => audioChunks.push(chunk));
+        stream.pipe(res, { end: false });
+
+        // Handle stream events directly on the provider stream
+        stream.on('end', () => {
+            console.log('Audio stream finished.');
+            // The response ends once the usage is in the ledger, which is when
+            // enforceCharacterQuota releases this request's reservation
+            const audio = Buffer.concat(audioChunks);
+            recordUsage({ ...usage, bytes: audio.length, latencyMs: Date.now() - startedAt!, success: true })
+                .finally(() => res.end());
+            saveGreetingAudio(greeting, audio)
+                .catch((saveError) => console.error(`Failed to save audio for greeting ${greeting.id}:`, saveError));
+            ttsCache.put(cacheKey, audio, contentType)
+                .catch((cacheError) => console.error(`Failed to cache audio for greeting ${greeting.id}:`, cacheError));
+        });
+        stream.on('error', (err: Error) => {
+            console.error('Error piping audio stream:', err);
+            recordUsage({ ...usage, latencyMs: Date.now() - startedAt!, success: false, errorMessage: err.message });
+            prisma.greeting.delete({ where: { id: greeting.id } })
+                .catch((deleteError) => console.error(`Failed to remove incomplete greeting ${greeting.id}:`, deleteError));
+            next(err); // Pass stream errors to the error handler
+        });
+
+    } catch (error: any) {
+        console.error('Error generating TTS:', error.message);
+        if (startedAt !== null) {
+            recordUsage({ ...usage, latencyMs: Date.now() - startedAt, success: false, errorMessage: error.message });
+        }
+        // Provider errors carry the upstream status and parsed error body as details
+        next(error);
+    }
+});
+
+interface TtsJobInput extends TtsInput {
+    voiceId: string;
+}
+
+// POST: Queue Text-to-Speech as a background job, for texts long enough that
+// clients want progress. The greeting is saved when the job finishes.
+app.post('/api/tts/:voice_id/jobs', authenticateToken, requireVerifiedEmail, useCallerProvider, rateLimit(ttsRateLimiter, 'audio generation'), enforceCharacterQuota, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = parseTtsInput(req.body);
+    if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+    }
+
+    try {
+        if (!(await canUseVoice(req.user!.userId, req.params.voice_id))) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        const { provider } = req.tts!;
+        const found = await findTtsModel(provider, parsed.data.modelId || provider.defaultModelId);
+        if ('error' in found) {
+            res.status(400).json({ error: found.error });
+            return;
+        }
+        const input: TtsJobInput = { ...parsed.data, voiceId: req.params.voice_id };
+        const job = await jobQueue.enqueue(req.user!.userId, 'tts', input as unknown as Prisma.InputJsonValue);
+        res.status(202).json(toJobResponse(job));
+    } catch (error: any) {
+        console.error('Error queueing TTS job:', error);
+        next(new Error(`Failed to queue audio generation: ${error.message}`));
+    }
+});
+
+// POST: Check a script's markup for the editor: where the markup is, what's
+// wrong with it and what the chosen model can't honour
+app.post('/api/scripts/check', authenticateToken, useCallerProvider, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { text, model_id } = req.body;
+    if (typeof text !== 'string') {
+        res.status(400).json({ error: 'Text is required.' });
+        return;
+    }
+    if (text.length > MAX_TTS_TEXT_CHARACTERS) {
+        res.status(400).json({ error: `Text must be at most ${MAX_TTS_TEXT_CHARACTERS} characters.` });
+        return;
+    }
+
+    const { provider } = req.tts!;
+    try {
+        const found = await findTtsModel(provider, typeof model_id === 'string' && model_id ? model_id : provider.defaultModelId);
+        if ('error' in found) {
+            res.status(400).json({ error: found.error });
+            return;
+        }
+        const { nodes, errors } = parseScript(text);
+        const { warnings } = renderScript(nodes, found.model);
+        res.json({
+            markup: nodes.filter((node) => node.type !== 'text').map(({ type, start, end }) => ({ type, start, end })),
+            errors,
+            warnings,
+        });
+    } catch (error: any) {
+        console.error('Error checking script:', error.message);
+        next(error);
+    }
+});
+
+// Synthesizes a greeting queued by POST /api/tts/:voice_id/jobs
+const ttsJobHandler: JobHandler = {
+    async run(job, report) {
+        const input = job.input as unknown as TtsJobInput;
+        const { provider, ownApiKey } = await resolveCallerProvider(job.userId);
+        const modelId = input.modelId || provider.defaultModelId;
+        const usage = {
+            userId: job.userId,
+            action: 'tts' as const,
+            provider: provider.name,
+            ownApiKey,
+            voiceId: input.voiceId,
+            modelId,
+            characters: input.text.length,
+        };
+
+        let startedAt = Date.now();
+        const cacheKey = ttsCache.keyFor({ provider: provider.name, account: ownApiKey ? job.userId : undefined, voiceId: input.voiceId, modelId, text: input.text, voiceSettings: input.voiceSettings });
+        const cached = await ttsCache.get(cacheKey);
+        if (cached) {
+            console.log(`TTS cache hit (${cacheKey.slice(0, 12)}) for job ${job.id}, not calling ${provider.name} provider.`);
+            await report('saving', 0.9);
+            const greeting = await createGreeting(job.userId, input.voiceId, modelId, input, cached.contentType, 0);
+            await saveGreetingAudio(greeting, cached.audio);
+            recordUsage({ ...usage, bytes: cached.audio.length, latencyMs: Date.now() - startedAt, success: true, cached: true });
+            return { greetingId: greeting.id, contentType: cached.contentType, cached: true };
+        }
+
+        await report('synthesizing', 0);
+        const model = await modelCatalog.find(provider, modelId).catch(() => null);
+        const { parts } = renderScript(parseScript(input.text).nodes, model);
+        startedAt = Date.now();
+        let audio: Buffer;
+        let contentType: string;
+        try {
+            ({ audio, contentType } = await synthesizeScript(
+                provider,
+                { voiceId: input.voiceId, modelId, voiceSettings: input.voiceSettings },
+                parts,
+                Math.min(TTS_CHUNK_CHARACTERS, model?.max_characters ?? TTS_CHUNK_CHARACTERS),
+                (fraction) => report('synthesizing', 0.05 + 0.85 * fraction),
+            ));
+        } catch (error: any) {
+            recordUsage({ ...usage, latencyMs: Date.now() - startedAt, success: false, errorMessage: error.message });
+            throw error;
+        }
+        // Written before the job finishes, so its characters never drop out of the quota count
+        await recordUsage({ ...usage, bytes: audio.length, latencyMs: Date.now() - startedAt, success: true });
+
+        await report('saving', 0.9);
+        const greeting = await createGreeting(job.userId, input.voiceId, modelId, input, contentType, input.text.length);
+        await saveGreetingAudio(greeting, audio);
+        ttsCache.put(cacheKey, audio, contentType)
+            .catch((cacheError) => console.error(`Failed to cache audio for greeting ${greeting.id}:`, cacheError));
+        return { greetingId: greeting.id, contentType, cached: false };
+    },
+};
+
+// GET the caller's remaining character quota and other limits
+app.get('/api/quota', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        // Character quotas only cover the server's account, so they don't apply on an own key
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.userId },
+            select: { elevenLabsApiKeyEncrypted: true },
+        });
+        const ownApiKey = !!user?.elevenLabsApiKeyEncrypted;
+
+        const characterQuota = async (period: QuotaPeriod) => {
+            const limit = ownApiKey ? 0 : CHARACTER_QUOTAS[period];
+            const used = await getCharacterUsage(req.user!.userId, period);
+            return {
+                limit: limit > 0 ? limit : null,  // null = unlimited
+                used,
+                remaining: limit > 0 ? Math.max(0, limit - used) : null,
+                resetsAt: quotaWindow(period).resetsAt,
+            };
+        };
+
+        const [day, month, voiceCount] = await Promise.all([
+            characterQuota('day'),
+            characterQuota('month'),
+            prisma.voice.count({ where: { userId: req.user!.userId } }),
+        ]);
+        res.json({
+            ownApiKey,
+            characters: { day, month },
+            voices: { limit: MAX_CLONED_VOICES > 0 ? MAX_CLONED_VOICES : null, used: voiceCount },
+            rateLimits: {
+                tts: { limit: RATE_LIMIT_TTS_PER_MINUTE || null, windowSeconds: ttsRateLimiter.windowSeconds },
+                cloning: { limit: RATE_LIMIT_CLONES_PER_HOUR || null, windowSeconds: cloneRateLimiter.windowSeconds },
+            },
+        });
+    } catch (error: any) {
+        console.error('Error loading quota:', error);
+        next(new Error(`Failed to load quota: ${error.message}`));
+    }
+});
+
+const MAX_USAGE_DAYS = 365;
+
+// ?days= for the usage endpoints: 30 by default, at most a year. null if invalid.
+const parseUsageDays = (value: unknown): number | null => {
+    if (value === undefined) return 30;
+    const days = Number(value);
+    return Number.isInteger(days) && days >= 1 && days <= MAX_USAGE_DAYS ? days : null;
+};
+
+// GET /api/usage?days=30: the caller's daily usage, totals and per-voice breakdown
+app.get('/api/usage', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const days = parseUsageDays(req.query.days);
+    if (days === null) {
+        res.status(400).json({ error: `days must be a whole number between 1 and ${MAX_USAGE_DAYS}.` });
+        return;
+    }
+
+    try {
+        res.json(await summarizeUsage(prisma, { from: usageWindowStart(days), userId: req.user!.userId }));
+    } catch (error: any) {
+        console.error('Error loading usage:', error);
+        next(new Error(`Failed to load usage: ${error.message}`));
+    }
+});
+
+// --- Greeting History Routes ---
+
+// Writes the finished audio to storage and attaches it to the greeting row
+const saveGreetingAudio = async (greeting: Greeting, audio: Buffer): Promise<void> => {
+    const audioFile = `${greeting.id}.${audioFileExtension(greeting.contentType)}`;
+    await fs.promises.writeFile(path.join(AUDIO_STORAGE_DIR, audioFile), audio);
+    await prisma.greeting.update({
+        where: { id: greeting.id },
+        data: {
+            audioFile,
+            audioBytes: audio.length,
+            durationSeconds: getAudioDuration(audio, greeting.contentType),
+        },
+    });
+    console.log(`Saved audio for greeting ${greeting.id} (${audio.length} bytes)`);
+};
+
+// Shape sent to the client; the on-disk file name stays server-side
+const toGreetingResponse = (greeting: Greeting) => ({
+    id: greeting.id,
+    text: greeting.text,
+    voiceId: greeting.voiceId,
+    modelId: greeting.modelId,
+    occasion: greeting.occasion,
+    voiceSettings: greeting.voiceSettings,
+    presetName: greeting.presetName,
+    contentType: greeting.contentType,
+    durationSeconds: greeting.durationSeconds,
+    audioBytes: greeting.audioBytes,
+    createdAt: greeting.createdAt,
+});
+
+// GET the caller's greeting history, newest first
+app.get('/api/greetings', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? ''), 10) || 50, 1), 100);
+
+    try {
+        const greetings = await prisma.greeting.findMany({
+            where: { userId: req.user!.userId, audioFile: { not: null } },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+        res.json(greetings.map(toGreetingResponse));
+    } catch (error: any) {
+        console.error('Error fetching greetings:', error);
+        next(new Error(`Failed to fetch greetings: ${error.message}`));
+    }
+});
+
+// GET the stored audio for one of the caller's greetings
+app.get('/api/greetings/:id/audio', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const greeting = await prisma.greeting.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (!greeting || !greeting.audioFile) {
+            res.status(404).json({ error: 'Greeting not found.' });
+            return;
+        }
+
+        // The file is written once, so its name identifies the content
+        setImmutableAudioHeaders(res, greeting.audioFile);
+        if (req.fresh) {
+            res.status(304).end();
+            return;
+        }
+
+        res.sendFile(path.join(AUDIO_STORAGE_DIR, greeting.audioFile), {
+            etag: false,
+            cacheControl: false,
+            headers: {
+                'Content-Type': greeting.contentType,
+                'Content-Disposition': `inline; filename="greeting-${greeting.id}.${audioFileExtension(greeting.contentType)}"`,
+            },
+        }, (err) => {
+            if (err) next(err);
+        });
+    } catch (error: any) {
+        console.error('Error fetching greeting audio:', error);
+        next(new Error(`Failed to fetch greeting audio: ${error.message}`));
+    }
+});
+
+// --- Share Link Routes ---
+
+const toShareLinkResponse = (link: ShareLink) => ({
+    slug: link.slug,
+    url: `${PUBLIC_BASE_URL}/s/${link.slug}`,
+    createdAt: link.createdAt,
+});
+
+// Returns the greeting's active share link, creating one if it has none
+const getOrCreateShareLink = async (greetingId: string): Promise<ShareLink> => {
+    const existingLink = await prisma.shareLink.findFirst({
+        where: { greetingId, revokedAt: null },
+        orderBy: { createdAt: 'desc' },
+    });
+    if (existingLink) {
+        return existingLink;
+    }
+    return prisma.shareLink.create({
+        data: {
+            greetingId,
+            slug: crypto.randomBytes(18).toString('base64url'), // 24 URL-safe chars, unguessable
+        },
+    });
+};
+
+// Resolves a public slug to its greeting, or null if revoked or missing
+const findSharedGreeting = async (slug: string): Promise<Greeting | null> => {
+    const link = await prisma.shareLink.findUnique({
+        where: { slug },
+        include: { greeting: true },
+    });
+    if (!link || link.revokedAt || !link.greeting.audioFile) {
+        return null;
+    }
+    return link.greeting;
+};
+
+// POST: Get (or create) the share link for one of the caller's greetings
+app.post('/api/greetings/:id/share', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const greeting = await prisma.greeting.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (!greeting || !greeting.audioFile) {
+            res.status(404).json({ error: 'Greeting not found.' });
+            return;
+        }
+
+        const link = await getOrCreateShareLink(greeting.id);
+        res.json(toShareLinkResponse(link));
+    } catch (error: any) {
+        console.error('Error creating share link:', error);
+        next(new Error(`Failed to create share link: ${error.message}`));
+    }
+});
+
+// DELETE: Revoke a share link owned by the caller
+app.delete('/api/share/:slug', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const link = await prisma.shareLink.findUnique({
+            where: { slug: req.params.slug },
+            include: { greeting: { select: { userId: true } } },
+        });
+        if (!link || link.greeting.userId !== req.user!.userId) {
+            res.status(404).json({ error: 'Share link not found.' });
+            return;
+        }
+
+        if (!link.revokedAt) {
+            await prisma.shareLink.update({
+                where: { id: link.id },
+                data: { revokedAt: new Date() },
+            });
+            console.log(`Share link ${link.slug} revoked by user ${req.user!.userId}`);
+        }
+        res.sendStatus(204);
+    } catch (error: any) {
+        console.error('Error revoking share link:', error);
+        next(new Error(`Failed to revoke share link: ${error.message}`));
+    }
+});
+
+// GET: Public audio stream for a shared greeting (no auth, the slug is the credential)
+app.get('/api/share/:slug/audio', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const greeting = await findSharedGreeting(req.params.slug);
+        if (!greeting) {
+            res.status(404).json({ error: 'Greeting not found.' });
+            return;
+        }
+
+        res.sendFile(path.join(AUDIO_STORAGE_DIR, greeting.audioFile!), {
+            headers: { 'Content-Type': greeting.contentType },
+        }, (err) => {
+            if (err) next(err);
+        });
+    } catch (error: any) {
+        console.error('Error streaming shared greeting:', error);
+        next(new Error(`Failed to stream shared greeting: ${error.message}`));
+    }
+});
+
+// GET: Public playback page for a shared greeting
+app.get('/s/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const greeting = await findSharedGreeting(req.params.slug);
+        if (!greeting) {
+            res.status(404).type('html').send(renderShareUnavailablePage());
+            return;
+        }
+
+        res.type('html').send(renderSharePage({
+            theme: getOccasionTheme(greeting.occasion),
+            text: scriptToPlainText(greeting.text),
+            audioUrl: `${PUBLIC_BASE_URL}/api/share/${encodeURIComponent(req.params.slug)}/audio`,
+        }));
+    } catch (error: any) {
+        console.error('Error rendering share page:', error);
+        next(new Error(`Failed to render share page: ${error.message}`));
+    }
+});
+
+// --- Greeting Email Routes ---
+
+type EmailDelivery = 'attachment' | 'link';
+
+interface EmailDeliveryResult {
+    email: string;
+    status: 'sent' | 'failed';
+    messageId?: string;
+    error?: string;
+}
+
+const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Emails a stored greeting to each recipient separately, so one bad address
+// doesn't stop delivery to the others
+const sendGreetingEmail = async (
+    greeting: Greeting,
+    options: { recipients: string[]; senderName: string; replyTo?: string; note?: string; delivery: EmailDelivery }
+): Promise<EmailDeliveryResult[]> => {
+    let shareUrl: string | undefined;
+    let attachments: MailAttachment[] | undefined;
+    if (options.delivery === 'link') {
+        shareUrl = toShareLinkResponse(await getOrCreateShareLink(greeting.id)).url;
+    } else {
+        attachments = [{
+            filename: `audio-greeting.${audioFileExtension(greeting.contentType)}`,
+            content: await fs.promises.readFile(path.join(AUDIO_STORAGE_DIR, greeting.audioFile!)),
+            contentType: greeting.contentType,
+        }];
+    }
+
+    const email = renderGreetingEmail({
+        theme: getOccasionTheme(greeting.occasion),
+        senderName: options.senderName,
+        note: options.note,
+        greetingText: scriptToPlainText(greeting.text),
+        shareUrl,
+    });
+
+    const results: EmailDeliveryResult[] = [];
+    for (const recipient of options.recipients) {
+        try {
+            const { messageId } = await mailTransport.send({
+                to: recipient,
+                from: { name: `${options.senderName} via AudioGreets`, address: MAIL_FROM_ADDRESS },
+                replyTo: options.replyTo,
+                ...email,
+                attachments,
+            });
+            results.push({ email: recipient, status: 'sent', messageId });
+        } catch (error: any) {
+            console.error(`Failed to email greeting ${greeting.id} to ${recipient}:`, error);
+            results.push({ email: recipient, status: 'failed', error: error.message || 'Delivery failed' });
+        }
+    }
+    return results;
+};
+
+// POST: Email one of the caller's greetings to one or more recipients
+app.post('/api/greetings/:id/email', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { recipients, senderName, note, delivery = 'attachment' } = req.body;
+
+    if (!Array.isArray(recipients) || recipients.length === 0 || !recipients.every((r) => typeof r === 'string')) {
+        res.status(400).json({ error: 'At least one recipient email is required.' });
+        return;
+    }
+    const uniqueRecipients: string[] = Array.from(new Set(recipients.map((r: string) => r.trim()).filter(Boolean)));
+    const invalidRecipients = uniqueRecipients.filter((r) => !isValidEmail(r));
+    if (invalidRecipients.length > 0) {
+        res.status(400).json({ error: `Invalid email address: ${invalidRecipients.join(', ')}` });
+        return;
+    }
+    if (uniqueRecipients.length > MAX_EMAIL_RECIPIENTS) {
+        res.status(400).json({ error: `A greeting can be sent to at most ${MAX_EMAIL_RECIPIENTS} recipients at once.` });
+        return;
+    }
+    if (delivery !== 'attachment' && delivery !== 'link') {
+        res.status(400).json({ error: 'Delivery must be "attachment" or "link".' });
+        return;
+    }
+    if ((senderName !== undefined && typeof senderName !== 'string') || (note !== undefined && typeof note !== 'string')) {
+        res.status(400).json({ error: 'Sender name and note must be strings.' });
+        return;
+    }
+    if (note && note.length > 1000) {
+        res.status(400).json({ error: 'Personal note must be 1000 characters or fewer.' });
+        return;
+    }
+
+    try {
+        const greeting = await prisma.greeting.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (!greeting || !greeting.audioFile) {
+            res.status(404).json({ error: 'Greeting not found.' });
+            return;
+        }
+
+        const results = await sendGreetingEmail(greeting, {
+            recipients: uniqueRecipients,
+            senderName: senderName?.trim().slice(0, 100) || req.user!.email,
+            replyTo: req.user!.email,
+            note: note?.trim() || undefined,
+            delivery,
+        });
+        console.log(`Greeting ${greeting.id} emailed: ${results.filter((r) => r.status === 'sent').length}/${results.length} delivered`);
+        res.json({ results });
+    } catch (error: any) {
+        console.error('Error emailing greeting:', error);
+        next(new Error(`Failed to email greeting: ${error.message}`));
+    }
+});
+
+// --- Scheduled Delivery Routes ---
+
+type DeliveryChannel = 'email' | 'share_link';
+const DELIVERY_CHANNELS: Record<DeliveryChannel, EmailDelivery> = { email: 'attachment', share_link: 'link' };
+
+type ScheduleWithGreeting = DeliverySchedule & { greeting: Pick<Greeting, 'text' | 'occasion'> };
+
+const toScheduleResponse = (schedule: ScheduleWithGreeting) => ({
+    id: schedule.id,
+    greetingId: schedule.greetingId,
+    greetingText: schedule.greeting.text,
+    occasion: schedule.greeting.occasion,
+    recipients: schedule.recipients,
+    channel: schedule.channel,
+    senderName: schedule.senderName,
+    note: schedule.note,
+    date: schedule.localDate,
+    time: schedule.localTime,
+    timeZone: schedule.timeZone,
+    scheduledFor: schedule.scheduledFor,
+    status: schedule.status,
+    attempts: schedule.attempts,
+    nextAttemptAt: schedule.status === 'scheduled' ? schedule.nextAttemptAt : null,
+    lastError: schedule.lastError,
+    results: schedule.results,
+    deliveredAt: schedule.deliveredAt,
+    createdAt: schedule.createdAt,
+});
+
+/**
+ * Validates a schedule request body (merged over the existing schedule when
+ * editing). Returns the fields to store, or an error message for a 400.
+ */
+const parseScheduleInput = (input: Record<string, unknown>): { error: string } | { data: {
+    recipients: string[];
+    channel: DeliveryChannel;
+    senderName: string | null;
+    note: string | null;
+    localDate: string;
+    localTime: string;
+    timeZone: string;
+    scheduledFor: Date;
+} } => {
+    const { recipients, channel, senderName, note, date, time, timeZone } = input;
+
+    if (!Array.isArray(recipients) || recipients.length === 0 || !recipients.every((r) => typeof r === 'string')) {
+        return { error: 'At least one recipient email is required.' };
+    }
+    const uniqueRecipients: string[] = Array.from(new Set(recipients.map((r: string) => r.trim()).filter(Boolean)));
+    const invalidRecipients = uniqueRecipients.filter((r) => !isValidEmail(r));
+    if (uniqueRecipients.length === 0 || invalidRecipients.length > 0) {
+        return { error: `Invalid email address: ${invalidRecipients.join(', ')}` };
+    }
+    if (uniqueRecipients.length > MAX_EMAIL_RECIPIENTS) {
+        return { error: `A greeting can be sent to at most ${MAX_EMAIL_RECIPIENTS} recipients at once.` };
+    }
+    if (typeof channel !== 'string' || !Object.prototype.hasOwnProperty.call(DELIVERY_CHANNELS, channel)) {
+        return { error: 'Channel must be "email" or "share_link".' };
+    }
+    if ((senderName != null && typeof senderName !== 'string') || (note != null && typeof note !== 'string')) {
+        return { error: 'Sender name and note must be strings.' };
+    }
+    if (typeof note === 'string' && note.length > 1000) {
+        return { error: 'Personal note must be 1000 characters or fewer.' };
+    }
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+        return { error: 'A valid IANA time zone is required, e.g. "Europe/London".' };
+    }
+    if (typeof date !== 'string' || typeof time !== 'string') {
+        return { error: 'Date (YYYY-MM-DD) and time (HH:mm) are required.' };
+    }
+    const scheduledFor = zonedTimeToUtc(date, time, timeZone);
+    if (!scheduledFor) {
+        return { error: 'Date must be YYYY-MM-DD and time HH:mm (24-hour).' };
+    }
+    if (scheduledFor.getTime() <= Date.now()) {
+        return { error: 'The delivery time must be in the future.' };
+    }
+    if (scheduledFor.getTime() > Date.now() + MAX_SCHEDULE_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+        return { error: 'Deliveries can be scheduled at most a year ahead.' };
+    }
+
+    return {
+        data: {
+            recipients: uniqueRecipients,
+            channel: channel as DeliveryChannel,
+            senderName: typeof senderName === 'string' ? senderName.trim().slice(0, 100) || null : null,
+            note: typeof note === 'string' ? note.trim() || null : null,
+            localDate: date,
+            localTime: time,
+            timeZone,
+            scheduledFor,
+        },
+    };
+};
+
+// POST: Schedule one of the caller's greetings to be emailed later
+app.post('/api/greetings/:id/schedules', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = parseScheduleInput(req.body);
+    if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+    }
+
+    try {
+        const greeting = await prisma.greeting.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (!greeting || !greeting.audioFile) {
+            res.status(404).json({ error: 'Greeting not found.' });
+            return;
+        }
+
+        const schedule = await prisma.deliverySchedule.create({
+            data: {
+                ...parsed.data,
+                userId: req.user!.userId,
+                greetingId: greeting.id,
+                nextAttemptAt: parsed.data.scheduledFor,
+            },
+            include: { greeting: { select: { text: true, occasion: true } } },
+        });
+        console.log(`Greeting ${greeting.id} scheduled for ${schedule.scheduledFor.toISOString()} (${schedule.id})`);
+        res.status(201).json(toScheduleResponse(schedule));
+    } catch (error: any) {
+        console.error('Error scheduling delivery:', error);
+        next(new Error(`Failed to schedule delivery: ${error.message}`));
+    }
+});
+
+// GET the caller's deliveries: ?scope=upcoming (default, soonest first) or past (latest first)
+app.get('/api/schedules', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const scope = req.query.scope ?? 'upcoming';
+    if (scope !== 'upcoming' && scope !== 'past') {
+        res.status(400).json({ error: 'scope must be "upcoming" or "past".' });
+        return;
+    }
+
+    try {
+        const schedules = await prisma.deliverySchedule.findMany({
+            where: {
+                userId: req.user!.userId,
+                status: scope === 'upcoming' ? { in: ['scheduled', 'sending'] } : { in: ['delivered', 'failed', 'cancelled'] },
+            },
+            orderBy: { scheduledFor: scope === 'upcoming' ? 'asc' : 'desc' },
+            take: scope === 'upcoming' ? undefined : 50,
+            include: { greeting: { select: { text: true, occasion: true } } },
+        });
+        res.json(schedules.map(toScheduleResponse));
+    } catch (error: any) {
+        console.error('Error fetching schedules:', error);
+        next(new Error(`Failed to fetch scheduled deliveries: ${error.message}`));
+    }
+});
+
+// PATCH: Change a pending delivery. Editing a failed one schedules it again.
+app.patch('/api/schedules/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const existing = await prisma.deliverySchedule.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (!existing) {
+            res.status(404).json({ error: 'Scheduled delivery not found.' });
+            return;
+        }
+        if (existing.status !== 'scheduled' && existing.status !== 'failed') {
+            res.status(409).json({ error: `This delivery is ${existing.status} and can no longer be changed.` });
+            return;
+        }
+
+        const parsed = parseScheduleInput({
+            recipients: existing.recipients,
+            channel: existing.channel,
+            senderName: existing.senderName,
+            note: existing.note,
+            date: existing.localDate,
+            time: existing.localTime,
+            timeZone: existing.timeZone,
+            ...req.body,
+        });
+        if ('error' in parsed) {
+            res.status(400).json({ error: parsed.error });
+            return;
+        }
+
+        // Only update if nobody (the runner, another tab) changed the row meanwhile
+        const { count } = await prisma.deliverySchedule.updateMany({
+            where: { id: existing.id, updatedAt: existing.updatedAt },
+            data: {
+                ...parsed.data,
+                status: 'scheduled',
+                attempts: 0,
+                nextAttemptAt: parsed.data.scheduledFor,
+                lastError: null,
+                results: Prisma.DbNull,
+            },
+        });
+        if (count === 0) {
+            res.status(409).json({ error: 'This delivery changed while you were editing it. Please reload and try again.' });
+            return;
+        }
+
+        const schedule = await prisma.deliverySchedule.findUniqueOrThrow({
+            where: { id: existing.id },
+            include: { greeting: { select: { text: true, occasion: true } } },
+        });
+        res.json(toScheduleResponse(schedule));
+    } catch (error: any) {
+        console.error('Error updating schedule:', error);
+        next(new Error(`Failed to update scheduled delivery: ${error.message}`));
+    }
+});
+
+// DELETE: Cancel a pending delivery. The row is kept so it shows up under past deliveries.
+app.delete('/api/schedules/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { count } = await prisma.deliverySchedule.updateMany({
+            where: { id: req.params.id, userId: req.user!.userId, status: 'scheduled' },
+            data: { status: 'cancelled' },
+        });
+        if (count === 0) {
+            const existing = await prisma.deliverySchedule.findFirst({
+                where: { id: req.params.id, userId: req.user!.userId },
+            });
+            if (!existing) {
+                res.status(404).json({ error: 'Scheduled delivery not found.' });
+            } else {
+                res.status(409).json({ error: `This delivery is ${existing.status} and can no longer be cancelled.` });
+            }
+            return;
+        }
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error cancelling schedule:', error);
+        next(new Error(`Failed to cancel scheduled delivery: ${error.message}`));
+    }
+});
+
+// Sends a due schedule through the same path as the email route
+const deliveryScheduler = new DeliveryScheduler(prisma, async (schedule, recipients) => {
+    const greeting = await prisma.greeting.findUnique({
+        where: { id: schedule.greetingId },
+        include: { user: { select: { email: true } } },
+    });
+    if (!greeting?.audioFile) {
+        throw new Error('The greeting audio is no longer available.');
+    }
+    return sendGreetingEmail(greeting, {
+        recipients,
+        senderName: schedule.senderName || greeting.user.email,
+        replyTo: greeting.user.email,
+        note: schedule.note || undefined,
+        delivery: DELIVERY_CHANNELS[schedule.channel as DeliveryChannel],
+    });
+}, DELIVERY_POLL_INTERVAL_SECONDS * 1000);
+
+// --- Contact Routes ---
+
+const MAX_UPCOMING_DAYS = 366;
+
+const toContactResponse = (contact: Contact) => ({
+    id: contact.id,
+    name: contact.name,
+    email: contact.email,
+    relationship: contact.relationship,
+    birthday: contact.birthday,
+    anniversary: contact.anniversary,
+    preferredVoiceId: contact.preferredVoiceId,
+    notes: contact.notes,
+    createdAt: contact.createdAt,
+    updatedAt: contact.updatedAt,
+});
+
+type ContactInput = Pick<Contact, 'name' | 'email' | 'relationship' | 'birthday' | 'anniversary' | 'preferredVoiceId' | 'notes'>;
+
+// Optional text field: blank clears it, anything over maxLength is rejected
+const optionalText = (value: unknown, maxLength: number): string | null | undefined => {
+    if (value == null) return null;
+    if (typeof value !== 'string' || value.length > maxLength) return undefined;
+    return value.trim() || null;
+};
+
+/**
+ * Validates a contact body (merged over the existing contact when editing).
+ * Returns the fields to store, or an error message for a 400.
+ */
+const parseContactInput = (input: Record<string, unknown>): { error: string } | { data: ContactInput } => {
+    const { name, email, relationship, birthday, anniversary, preferredVoiceId, notes } = input;
+
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+        return { error: 'Name is required and must be 100 characters or fewer.' };
+    }
+    if (typeof email !== 'string' || !isValidEmail(email.trim())) {
+        return { error: 'A valid email address is required.' };
+    }
+
+    const dates: Record<'birthday' | 'anniversary', string | null> = { birthday: null, anniversary: null };
+    for (const [field, value] of Object.entries({ birthday, anniversary }) as ['birthday' | 'anniversary', unknown][]) {
+        if (value == null || value === '') continue;
+        const normalized = typeof value === 'string' ? normalizeContactDate(value) : null;
+        if (!normalized) {
+            return { error: `The ${field} must be YYYY-MM-DD, or MM-DD if you don't know the year.` };
+        }
+        dates[field] = normalized;
+    }
+
+    const parsedRelationship = optionalText(relationship, 50);
+    const parsedVoiceId = optionalText(preferredVoiceId, 100);
+    const parsedNotes = optionalText(notes, 1000);
+    if (parsedRelationship === undefined) {
+        return { error: 'Relationship must be 50 characters or fewer.' };
+    }
+    if (parsedVoiceId === undefined) {
+        return { error: 'Preferred voice must be a voice id.' };
+    }
+    if (parsedNotes === undefined) {
+        return { error: 'Notes must be 1000 characters or fewer.' };
+    }
+
+    return {
+        data: {
+            name: name.trim(),
+            email: email.trim().toLowerCase(),
+            relationship: parsedRelationship,
+            ...dates,
+            preferredVoiceId: parsedVoiceId,
+            notes: parsedNotes,
+        },
+    };
+};
+
+const isUniqueViolation = (error: unknown) =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// GET the caller's contacts, alphabetically
+app.get('/api/contacts', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const contacts = await prisma.contact.findMany({
+            where: { userId: req.user!.userId },
+            orderBy: { name: 'asc' },
+        });
+        res.json(contacts.map(toContactResponse));
+    } catch (error: any) {
+        console.error('Error fetching contacts:', error);
+        next(new Error(`Failed to fetch contacts: ${error.message}`));
+    }
+});
+
+// GET birthdays and anniversaries coming up: ?days=30 and ?today=YYYY-MM-DD
+// (the caller's local date; defaults to today in UTC)
+app.get('/api/contacts/upcoming', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const days = req.query.days === undefined ? 30 : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_UPCOMING_DAYS) {
+        res.status(400).json({ error: `days must be a whole number between 0 and ${MAX_UPCOMING_DAYS}.` });
+        return;
+    }
+    const today = req.query.today === undefined ? new Date().toISOString().slice(0, 10) : String(req.query.today);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(today) || normalizeContactDate(today) !== today) {
+        res.status(400).json({ error: 'today must be a date in YYYY-MM-DD format.' });
+        return;
+    }
+
+    try {
+        const contacts = await prisma.contact.findMany({
+            where: { userId: req.user!.userId, OR: [{ birthday: { not: null } }, { anniversary: { not: null } }] },
+        });
+        res.json(upcomingOccasions(contacts, today, days));
+    } catch (error: any) {
+        console.error('Error fetching upcoming occasions:', error);
+        next(new Error(`Failed to fetch upcoming occasions: ${error.message}`));
+    }
+});
+
+// POST: Add a contact
+app.post('/api/contacts', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = parseContactInput(req.body ?? {});
+    if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+    }
+
+    try {
+        const contact = await prisma.contact.create({
+            data: { ...parsed.data, userId: req.user!.userId },
+        });
+        res.status(201).json(toContactResponse(contact));
+    } catch (error: any) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({ error: 'You already have a contact with that email address.' });
+            return;
+        }
+        console.error('Error creating contact:', error);
+        next(new Error(`Failed to create contact: ${error.message}`));
+    }
+});
+
+// PATCH: Update a contact; omitted fields keep their current values
+app.patch('/api/contacts/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const existing = await prisma.contact.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (!existing) {
+            res.status(404).json({ error: 'Contact not found.' });
+            return;
+        }
+
+        const parsed = parseContactInput({ ...toContactResponse(existing), ...req.body });
+        if ('error' in parsed) {
+            res.status(400).json({ error: parsed.error });
+            return;
+        }
+
+        const contact = await prisma.contact.update({
+            where: { id: existing.id },
+            data: parsed.data,
+        });
+        res.json(toContactResponse(contact));
+    } catch (error: any) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({ error: 'You already have a contact with that email address.' });
+            return;
+        }
+        console.error('Error updating contact:', error);
+        next(new Error(`Failed to update contact: ${error.message}`));
+    }
+});
+
+// DELETE a contact. Greetings and deliveries already sent to them are unaffected.
+app.delete('/api/contacts/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { count } = await prisma.contact.deleteMany({
+            where: { id: req.params.id, userId: req.user!.userId },
+        });
+        if (count === 0) {
+            res.status(404).json({ error: 'Contact not found.' });
+            return;
+        }
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error deleting contact:', error);
+        next(new Error(`Failed to delete contact: ${error.message}`));
+    }
+});
+
+// --- Contact Import Routes ---
+
+const MAX_IMPORT_ROWS = 1000;
+const contactImportUpload = multer({
+    storage,
+    limits: { fileSize: 2 * 1024 * 1024, files: 10 },
+});
+
+// Turns an uploaded .vcf or .ics file into import candidates; null if it's neither
+const parseImportFile = (file: Express.Multer.File): ImportCandidate[] | null => {
+    const text = file.buffer.toString('utf8');
+    if (/^BEGIN:VCARD/im.test(text)) {
+        return parseVCards(text);
+    }
+    if (/^BEGIN:VCALENDAR/im.test(text)) {
+        return parseYearlyEvents(text).map((event) => ({
+            name: event.name,
+            email: event.email,
+            birthday: event.occasion === 'birthday' ? event.date : null,
+            anniversary: event.occasion === 'anniversary' ? event.date : null,
+        }));
+    }
+    return null;
+};
+
+// POST: Parse .vcf/.ics uploads ("files") and show what importing them would do.
+// Nothing is saved; the client sends the rows it wants to /api/contacts/import.
+app.post('/api/contacts/import/preview', authenticateToken, contactImportUpload.array('files', 10), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) {
+        res.status(400).json({ error: 'Upload at least one .vcf or .ics file.' });
+        return;
+    }
+
+    const candidates: ImportCandidate[] = [];
+    for (const file of files) {
+        const parsed = parseImportFile(file);
+        if (!parsed) {
+            res.status(400).json({ error: `${file.originalname} isn't a vCard (.vcf) or iCalendar (.ics) file.` });
+            return;
+        }
+        candidates.push(...parsed);
+    }
+    if (candidates.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({ error: `Files can hold at most ${MAX_IMPORT_ROWS} entries per import.` });
+        return;
+    }
+
+    try {
+        const existing = await prisma.contact.findMany({ where: { userId: req.user!.userId } });
+        res.json({ parsed: candidates.length, rows: previewContactImport(candidates, existing) });
+    } catch (error: any) {
+        console.error('Error previewing contact import:', error);
+        next(new Error(`Failed to preview import: ${error.message}`));
+    }
+});
+
+// POST: Import the rows picked from a preview. Existing contacts (matched by
+// email) only gain dates they don't have; nothing already saved is overwritten.
+app.post('/api/contacts/import', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const rows = req.body?.contacts;
+    if (!Array.isArray(rows) || rows.length === 0) {
+        res.status(400).json({ error: 'Pick at least one contact to import.' });
+        return;
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({ error: `At most ${MAX_IMPORT_ROWS} contacts can be imported at once.` });
+        return;
+    }
+
+    const errors: { email: string; error: string }[] = [];
+    const valid = new Map<string, ContactInput>();
+    for (const row of rows) {
+        const parsed = parseContactInput({ name: row?.name, email: row?.email, birthday: row?.birthday, anniversary: row?.anniversary });
+        if ('error' in parsed) {
+            errors.push({ email: String(row?.email ?? ''), error: parsed.error });
+        } else {
+            valid.set(parsed.data.email, parsed.data);
+        }
+    }
+
+    try {
+        const existing = await prisma.contact.findMany({
+            where: { userId: req.user!.userId, email: { in: Array.from(valid.keys()) } },
+        });
+        const existingByEmail = new Map(existing.map((contact) => [contact.email, contact]));
+
+        let created = 0;
+        let updated = 0;
+        let unchanged = 0;
+        for (const data of valid.values()) {
+            const contact = existingByEmail.get(data.email);
+            if (!contact) {
+                await prisma.contact.create({ data: { ...data, userId: req.user!.userId } });
+                created++;
+                continue;
+            }
+            const missingDates = Object.fromEntries(
+                CONTACT_OCCASIONS.filter((occasion) => data[occasion] && !contact[occasion]).map((occasion) => [occasion, data[occasion]])
+            );
+            if (Object.keys(missingDates).length === 0) {
+                unchanged++;
+                continue;
+            }
+            await prisma.contact.update({ where: { id: contact.id }, data: missingDates });
+            updated++;
+        }
+
+        console.log(`Contact import for user ${req.user!.userId}: ${created} created, ${updated} updated, ${unchanged} unchanged, ${errors.length} rejected`);
+        res.json({ created, updated, unchanged, errors });
+    } catch (error: any) {
+        console.error('Error importing contacts:', error);
+        next(new Error(`Failed to import contacts: ${error.message}`));
+    }
+});
+
+// --- Voice Preset Routes ---
+
+const MAX_PRESETS_PER_VOICE = 20;
+
+const toVoicePresetResponse = (preset: VoicePreset) => ({
+    id: preset.id,
+    voiceId: preset.voiceId,
+    name: preset.name,
+    settings: preset.settings,
+    createdAt: preset.createdAt,
+    updatedAt: preset.updatedAt,
+});
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+// Stability and similarity boost are required; style and speaker boost only
+// apply to some models. Returns null when anything is out of range.
+const parseVoiceSettings = (value: unknown): ProviderVoiceSettings | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const { stability, similarity_boost, style, use_speaker_boost } = value as Record<string, unknown>;
+    if (!isFraction(stability) || !isFraction(similarity_boost)) return null;
+    if (style !== undefined && !isFraction(style)) return null;
+    if (use_speaker_boost !== undefined && typeof use_speaker_boost !== 'boolean') return null;
+    return {
+        stability,
+        similarity_boost,
+        ...(style !== undefined && { style }),
+        ...(use_speaker_boost !== undefined && { use_speaker_boost }),
+    };
+};
+
+/**
+ * Validates a preset body (merged over the existing preset when editing).
+ * Returns the fields to store, or an error message for a 400.
+ */
+const parseVoicePresetInput = (input: Record<string, unknown>): { error: string } | { data: { name: string; settings: ProviderVoiceSettings } } => {
+    const { name, settings } = input;
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 50) {
+        return { error: 'Preset name is required and must be 50 characters or fewer.' };
+    }
+    const parsedSettings = parseVoiceSettings(settings);
+    if (!parsedSettings) {
+        return { error: 'Settings need a stability and similarity_boost between 0 and 1, an optional style between 0 and 1 and an optional use_speaker_boost flag.' };
+    }
+    return { data: { name: name.trim(), settings: parsedSettings } };
+};
+
+// GET the caller's presets for a voice, alphabetically
+app.get('/api/voices/:voice_id/presets', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const presets = await prisma.voicePreset.findMany({
+            where: { userId: req.user!.userId, voiceId: req.params.voice_id },
+            orderBy: { name: 'asc' },
+        });
+        res.json(presets.map(toVoicePresetResponse));
+    } catch (error: any) {
+        console.error('Error fetching voice presets:', error);
+        next(new Error(`Failed to fetch voice presets: ${error.message}`));
+    }
+});
+
+// POST: Save the current settings under a name, e.g. "warm" or "energetic"
+app.post('/api/voices/:voice_id/presets', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user!.userId;
+    const parsed = parseVoicePresetInput(req.body ?? {});
+    if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+    }
+
+    try {
+        if (!(await canUseVoice(userId, req.params.voice_id))) {
+            res.status(404).json({ error: 'Voice not found.' });
+            return;
+        }
+        const count = await prisma.voicePreset.count({ where: { userId, voiceId: req.params.voice_id } });
+        if (count >= MAX_PRESETS_PER_VOICE) {
+            res.status(400).json({ error: `A voice can have at most ${MAX_PRESETS_PER_VOICE} presets. Delete one to save another.` });
+            return;
+        }
+
+        const preset = await prisma.voicePreset.create({
+            data: { userId, voiceId: req.params.voice_id, name: parsed.data.name, settings: parsed.data.settings as unknown as Prisma.InputJsonValue },
+        });
+        res.status(201).json(toVoicePresetResponse(preset));
+    } catch (error: any) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({ error: 'This voice already has a preset with that name.' });
+            return;
+        }
+        console.error('Error creating voice preset:', error);
+        next(new Error(`Failed to create voice preset: ${error.message}`));
+    }
+});
+
+// PATCH: Rename a preset or overwrite its settings; omitted fields keep their current values
+app.patch('/api/voices/:voice_id/presets/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const existing = await prisma.voicePreset.findFirst({
+            where: { id: req.params.id, userId: req.user!.userId, voiceId: req.params.voice_id },
+        });
+        if (!existing) {
+            res.status(404).json({ error: 'Preset not found.' });
+            return;
+        }
+
+        const parsed = parseVoicePresetInput({ name: existing.name, settings: existing.settings, ...req.body });
+        if ('error' in parsed) {
+            res.status(400).json({ error: parsed.error });
+            return;
+        }
+
+        const preset = await prisma.voicePreset.update({
+            where: { id: existing.id },
+            data: { name: parsed.data.name, settings: parsed.data.settings as unknown as Prisma.InputJsonValue },
+        });
+        res.json(toVoicePresetResponse(preset));
+    } catch (error: any) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({ error: 'This voice already has a preset with that name.' });
+            return;
+        }
+        console.error('Error updating voice preset:', error);
+        next(new Error(`Failed to update voice preset: ${error.message}`));
+    }
+});
+
+// DELETE a preset. Greetings made with it keep its name in their history.
+app.delete('/api/voices/:voice_id/presets/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { count } = await prisma.voicePreset.deleteMany({
+            where: { id: req.params.id, userId: req.user!.userId, voiceId: req.params.voice_id },
+        });
+        if (count === 0) {
+            res.status(404).json({ error: 'Preset not found.' });
+            return;
+        }
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error deleting voice preset:', error);
+        next(new Error(`Failed to delete voice preset: ${error.message}`));
+    }
+});
+
+// --- Calendar Feed Routes ---
+
+// Delivered and failed deliveries stay in the feed this long, so they don't
+// vanish from the calendar the moment they're sent
+const CALENDAR_FEED_HISTORY_DAYS = 30;
+const CALENDAR_EVENT_MINUTES = 15;
+
+const calendarFeedUrl = (token: string) => `${PUBLIC_BASE_URL}/calendar/${token}.ics`;
+
+// GET whether the caller has a feed URL. The URL itself is only shown when created.
+app.get('/api/account/calendar-feed', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user!.userId } });
+        res.json({ enabled: !!user.calendarFeedTokenHash, createdAt: user.calendarFeedCreatedAt });
+    } catch (error: any) {
+        console.error('Error fetching calendar feed settings:', error);
+        next(new Error(`Failed to fetch calendar feed settings: ${error.message}`));
+    }
+});
+
+// POST: Create a feed URL, replacing (and so revoking) any previous one
+app.post('/api/account/calendar-feed', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const token = generateToken();
+        const user = await prisma.user.update({
+            where: { id: req.user!.userId },
+            data: { calendarFeedTokenHash: hashToken(token), calendarFeedCreatedAt: new Date() },
+        });
+        res.status(201).json({ enabled: true, createdAt: user.calendarFeedCreatedAt, url: calendarFeedUrl(token) });
+    } catch (error: any) {
+        console.error('Error creating calendar feed:', error);
+        next(new Error(`Failed to create calendar feed: ${error.message}`));
+    }
+});
+
+// DELETE: Turn the feed off; subscribed calendars stop updating
+app.delete('/api/account/calendar-feed', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await prisma.user.update({
+            where: { id: req.user!.userId },
+            data: { calendarFeedTokenHash: null, calendarFeedCreatedAt: null },
+        });
+        res.status(204).end();
+    } catch (error: any) {
+        console.error('Error removing calendar feed:', error);
+        next(new Error(`Failed to remove calendar feed: ${error.message}`));
+    }
+});
+
+// GET the public .ics feed. Calendar apps can't send auth headers, so the
+// token in the URL is the credential.
+app.get('/calendar/:token.ics', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = await prisma.user.findUnique({
+            where: { calendarFeedTokenHash: hashToken(req.params.token) },
+        });
+        if (!user) {
+            res.status(404).type('text/plain').send('Calendar feed not found.');
+            return;
+        }
+
+        const schedules = await prisma.deliverySchedule.findMany({
+            where: {
+                userId: user.id,
+                status: { not: 'cancelled' },
+                scheduledFor: { gte: new Date(Date.now() - CALENDAR_FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+            },
+            orderBy: { scheduledFor: 'asc' },
+            take: 500,
+            include: { greeting: { select: { text: true, occasion: true } } },
+        });
+
+        const calendar = renderCalendar('AudioGreets deliveries', schedules.map((schedule) => {
+            const theme = getOccasionTheme(schedule.greeting.occasion);
+            const recipients = schedule.recipients.length === 1 ? schedule.recipients[0] : `${schedule.recipients.length} recipients`;
+            const status = schedule.status === 'delivered' ? ' (sent)' : schedule.status === 'failed' ? ' (failed)' : '';
+            return {
+                uid: `${schedule.id}@audiogreets`,
+                start: schedule.scheduledFor,
+                end: new Date(schedule.scheduledFor.getTime() + CALENDAR_EVENT_MINUTES * 60 * 1000),
+                summary: `${theme.emoji} ${theme.name} greeting to ${recipients}${status}`,
+                description: `"${scriptToPlainText(schedule.greeting.text)}"\n\nTo: ${schedule.recipients.join(', ')}`,
+                updatedAt: schedule.updatedAt,
+            };
+        }));
+
+        res.setHeader('Cache-Control', 'private, max-age=300');
+        res.type('text/calendar; charset=utf-8').send(calendar);
+    } catch (error: any) {
+        console.error('Error rendering calendar feed:', error);
+        next(new Error(`Failed to render calendar feed: ${error.message}`));
+    }
+});
+
+// --- Background Job Routes ---
+
+// How often an event stream re-reads its job, for progress made by a worker in another process
+const JOB_EVENTS_POLL_MS = 2000;
+const JOB_EVENTS_KEEPALIVE_MS = 15 * 1000;
+
+// Input holds stored file names and the full text, so clients get a short summary instead
+const toJobResponse = (job: Job) => {
+    const input = job.input as Record<string, unknown>;
+    const summary = job.type === 'tts' ? input.text : input.name;
+    return {
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        stage: job.stage,
+        progress: job.progress,
+        summary: typeof summary === 'string' ? summary.slice(0, 100) : null,
+        result: job.result,
+        error: job.error,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        finishedAt: job.finishedAt,
+    };
+};
+
+const jobQueue = new JobQueue(prisma, { clone: cloneJobHandler, samples: samplesJobHandler, tts: ttsJobHandler }, JOB_POLL_INTERVAL_SECONDS * 1000, JOB_CONCURRENCY);
+
+// GET the caller's recent jobs, newest first. ?active=true lists only unfinished
+// ones, which clients resume watching after a reload; ?type narrows to one job type.
+app.get('/api/jobs', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+    if (type && !(JOB_TYPES as readonly string[]).includes(type)) {
+        res.status(400).json({ error: `type must be one of: ${JOB_TYPES.join(', ')}.` });
+        return;
+    }
+
+    try {
+        const jobs = await prisma.job.findMany({
+            where: {
+                userId: req.user!.userId,
+                ...(type && { type }),
+                ...(req.query.active === 'true' && { status: { in: ACTIVE_JOB_STATUSES } }),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+        });
+        res.json(jobs.map(toJobResponse));
+    } catch (error: any) {
+        console.error('Error fetching jobs:', error);
+        next(new Error(`Failed to fetch jobs: ${error.message}`));
+    }
+});
+
+app.get('/api/jobs/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const job = await prisma.job.findFirst({ where: { id: req.params.id, userId: req.user!.userId } });
+        if (!job) {
+            res.status(404).json({ error: 'Job not found.' });
+            return;
+        }
+        res.json(toJobResponse(job));
+    } catch (error: any) {
+        console.error('Error fetching job:', error);
+        next(new Error(`Failed to fetch job: ${error.message}`));
+    }
+});
+
+// GET a Server-Sent Events stream of the job: a "job" event with the current
+// state, another on every change, and the stream closes once it has finished.
+app.get('/api/jobs/:id/events', authenticateToken, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let job: Job | null;
+    try {
+        job = await prisma.job.findFirst({ where: { id: req.params.id, userId: req.user!.userId } });
+    } catch (error: any) {
+        console.error('Error fetching job for event stream:', error);
+        next(new Error(`Failed to fetch job: ${error.message}`));
+        return;
+    }
+    if (!job) {
+        res.status(404).json({ error: 'Job not found.' });
+        return;
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stop proxies such as nginx from holding events back
+    });
+
+    let last: Job | null = null;
+    let closed = false;
+    const send = (update: Job) => {
+        if (closed) return;
+        // Polled rows can lag behind progress this process has already emitted
+        if (last && update.status === 'running' && last.status === 'running' && update.stage === last.stage && update.progress <= last.progress) return;
+        last = update;
+        res.write(`event: job\ndata: ${JSON.stringify(toJobResponse(update))}\n\n`);
+        if (FINISHED_JOB_STATUSES.includes(update.status)) close();
+    };
+
+    const unsubscribe = jobQueue.subscribe(job.id, send);
+    const poll = setInterval(() => {
+        prisma.job.findUnique({ where: { id: req.params.id } })
+            .then((update) => update && send(update))
+            .catch((error) => console.error(`Failed to poll job ${req.params.id} for its event stream:`, error));
+    }, JOB_EVENTS_POLL_MS);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), JOB_EVENTS_KEEPALIVE_MS);
+
+    function close() {
+        closed = true;
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(keepAlive);
+        res.end();
+    }
+    req.on('close', () => {
+        if (!closed) close();
+    });
+
+    send(job);
+});
+
+// --- Admin Routes ---
+
+// GET TTS cache size and hit rate
+app.get('/api/admin/tts-cache', authenticateToken, requireAdmin, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        res.json(await ttsCache.stats());
+    } catch (error: any) {
+        console.error('Error reading TTS cache stats:', error);
+        next(new Error(`Failed to read TTS cache stats: ${error.message}`));
+    }
+});
+
+// POST evict cache entries: shrink to maxBytes (least recently used first) and/or
+// drop entries unused for more than maxAgeSeconds. { maxBytes: 0 } empties the cache.
+app.post('/api/admin/tts-cache/evict', authenticateToken, requireAdmin, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { maxBytes, maxAgeSeconds } = req.body;
+    const isValidLimit = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+    if (maxBytes === undefined && maxAgeSeconds === undefined) {
+        res.status(400).json({ error: 'Provide maxBytes and/or maxAgeSeconds.' });
+        return;
+    }
+    if (!isValidLimit(maxBytes) || !isValidLimit(maxAgeSeconds)) {
+        res.status(400).json({ error: 'maxBytes and maxAgeSeconds must be non-negative numbers.' });
+        return;
+    }
+
+    try {
+        const result = await ttsCache.evict({ maxBytes, maxAgeSeconds });
+        console.log(`Admin ${req.user!.email} evicted ${result.removedEntries} TTS cache entries (${result.removedBytes} bytes)`);
+        res.json({ ...result, stats: await ttsCache.stats() });
+    } catch (error: any) {
+        console.error('Error evicting TTS cache:', error);
+        next(new Error(`Failed to evict TTS cache: ${error.message}`));
+    }
+});
+
+// GET /api/admin/usage?days=30: usage across all users, plus a per-user breakdown
+app.get('/api/admin/usage', authenticateToken, requireAdmin, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const days = parseUsageDays(req.query.days);
+    if (days === null) {
+        res.status(400).json({ error: `days must be a whole number between 1 and ${MAX_USAGE_DAYS}.` });
+        return;
+    }
+
+    try {
+        const from = usageWindowStart(days);
+        const [summary, userGroups] = await Promise.all([
+            summarizeUsage(prisma, { from }),
+            prisma.usageRecord.groupBy({
+                by: ['userId'],
+                where: { action: 'tts', success: true, cached: false, createdAt: { gte: from } },
+                _count: { _all: true },
+                _sum: { characters: true },
+            }),
+        ]);
+        const users = await prisma.user.findMany({
+            where: { id: { in: userGroups.map((group) => group.userId) } },
+            select: { id: true, email: true },
+        });
+        const emails = new Map(users.map((user) => [user.id, user.email]));
+
+        res.json({
+            ...summary,
+            byUser: userGroups
+                .map((group) => ({
+                    userId: group.userId,
+                    email: emails.get(group.userId) ?? null,
+                    requests: group._count._all,
+                    characters: group._sum.characters ?? 0,
+                }))
+                .sort((a, b) => b.characters - a.characters),
+        });
+    } catch (error: any) {
+        console.error('Error loading usage for all users:', error);
+        next(new Error(`Failed to load usage: ${error.message}`));
     }
 });
 
@@ -436,4 +3373,8 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
 // Start the server
 app.listen(PORT, () => {
     console.log(`Backend server listening on http://localhost:${PORT}`);
+    deliveryScheduler.start();
+    console.log(`Delivery runner polling every ${DELIVERY_POLL_INTERVAL_SECONDS}s (up to ${MAX_DELIVERY_ATTEMPTS} attempts per delivery)`);
+    jobQueue.start();
+    console.log(`Job queue polling every ${JOB_POLL_INTERVAL_SECONDS}s, running up to ${JOB_CONCURRENCY} jobs at once`);
 }); 
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { escapeHtml } from './html.js';
+import { OccasionTheme } from './occasions.js';
+
+// Standalone HTML for the public share page (GET /s/:slug). Recipients don't
+// have the React app, so everything it needs is inlined here.
+
+interface SharePageOptions {
+    theme: OccasionTheme;
+    text: string;
+    audioUrl: string;
+}
+
+const layout = (title: string, accentColor: string, backgroundColor: string, body: string): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<meta name="robots" content="noindex" />
+<title>${escapeHtml(title)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    min-height: 100vh;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 24px;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    background: ${backgroundColor};
+    color: #1f2937;
+  }
+  .card {
+    width: 100%;
+    max-width: 480px;
+    background: #ffffff;
+    border-radius: 16px;
+    border-top: 6px solid ${accentColor};
+    box-shadow: 0 10px 30px rgba(0, 0, 0, 0.08);
+    padding: 32px;
+    text-align: center;
+  }
+  .emoji { font-size: 48px; line-height: 1; }
+  h1 { margin: 16px 0 8px; font-size: 24px; color: ${accentColor}; }
+  p { margin: 0 0 24px; color: #4b5563; line-height: 1.5; white-space: pre-wrap; }
+  audio { width: 100%; }
+  .footer { margin-top: 24px; font-size: 12px; color: #9ca3af; }
+</style>
+</head>
+<body>
+<main class="card">
+${body}
+<div class="footer">Made with AudioGreets</div>
+</main>
+</body>
+</html>`;
+
+export const renderSharePage = ({ theme, text, audioUrl }: SharePageOptions): string => {
+    const title = `${theme.emoji} A ${theme.name.toLowerCase()} greeting for you`;
+    return layout(title, theme.accentColor, theme.backgroundColor, `
+<div class="emoji">${theme.emoji}</div>
+<h1>Someone sent you a ${escapeHtml(theme.name.toLowerCase())} greeting</h1>
+<p>${escapeHtml(text)}</p>
+<audio controls preload="metadata" src="${escapeHtml(audioUrl)}"></audio>`);
+};
+
+export const renderShareUnavailablePage = (): string => {
+    return layout('Greeting unavailable', '#6b7280', '#f3f4f6', `
+<div class="emoji">🔇</div>
+<h1>This greeting is no longer available</h1>
+<p>The link may have been revoked by the sender, or it was typed incorrectly.</p>`);
+};
@@ -0,0 +1,97 @@
+// Splits long text for synthesis. Providers cap the characters per request and
+// long requests drift in pace and tone, so long greetings are synthesized a
+// chunk at a time. Chunks end at sentence boundaries wherever possible.
+
+// Words whose trailing period doesn't end a sentence (compared lowercased)
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'etc', 'e.g', 'i.e', 'no', 'approx']);
+
+// Sentence-ending punctuation plus any closing quotes or brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/;
+
+// Clause breaks a sentence that is too long on its own may be split at
+const CLAUSE_BREAK = /[,;:—–]\s/g;
+
+// SSML elements rendered from script markup; chunks never end inside one
+const SSML_ELEMENT = /<break\b[^<>]*\/>|<phoneme\b[^<>]*>[^<>]*<\/phoneme>/g;
+
+// Start and end of each SSML element in the text
+const ssmlRanges = (text: string): [number, number][] => {
+    return [...text.matchAll(SSML_ELEMENT)].map((match) => [match.index!, match.index! + match[0].length]);
+};
+
+const isInsideSsml = (ranges: [number, number][], index: number): boolean => {
+    return ranges.some(([start, end]) => index > start && index < end);
+};
+
+const isSentenceEnd = (text: string, start: number, match: RegExpExecArray): boolean => {
+    const next = text.slice(match.index + match[0].length);
+    // "at 3 p.m. tomorrow": lowercase text after the punctuation continues the sentence,
+    // unless the punctuation ends a line
+    if (/^[a-z]/.test(next) && !match[0].includes('\n')) return false;
+    if (!match[0].startsWith('.') || /^\.{2,}/.test(match[0])) return true;
+    const word = text.slice(start, match.index).match(/(\S+)$/)?.[1].toLowerCase() ?? '';
+    // Abbreviations and initials such as "J. R. R. Tolkien"
+    return !ABBREVIATIONS.has(word.replace(/^["'“‘(]+/, '')) && !/^[a-z]$/i.test(word);
+};
+
+/**
+ * Splits text into sentences. Each sentence keeps its trailing whitespace, so
+ * joining them gives back the original text.
+ */
+export const splitSentences = (text: string): string[] => {
+    const sentences: string[] = [];
+    const boundary = new RegExp(SENTENCE_END.source, 'g');
+    const ranges = ssmlRanges(text);
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+        if (isInsideSsml(ranges, match.index) || !isSentenceEnd(text, start, match)) continue;
+        const end = match.index + match[0].length;
+        sentences.push(text.slice(start, end));
+        start = end;
+    }
+    if (start < text.length) sentences.push(text.slice(start));
+    return sentences;
+};
+
+// Breaks a sentence longer than maxCharacters: at a clause break in its second
+// half if there is one, otherwise between words, and as a last resort mid-word
+// (but never inside an SSML element)
+const splitLongSentence = (sentence: string, maxCharacters: number): string[] => {
+    const pieces: string[] = [];
+    let rest = sentence;
+    while (rest.trimEnd().length > maxCharacters) {
+        const window = rest.slice(0, maxCharacters + 1);
+        const ranges = ssmlRanges(rest);
+        const clauseBreaks = [...window.matchAll(CLAUSE_BREAK)].map((match) => match.index! + 1);
+        const lastClauseBreak = clauseBreaks.filter((index) => index > maxCharacters / 2 && !isInsideSsml(ranges, index)).pop();
+        const lastSpace = [...window.matchAll(/\s/g)].map((match) => match.index!).filter((index) => !isInsideSsml(ranges, index)).pop() ?? -1;
+        let cut = lastClauseBreak ?? (lastSpace > 0 ? lastSpace : maxCharacters);
+        const element = ranges.find(([start, end]) => cut > start && cut < end);
+        if (element) cut = element[0] > 0 ? element[0] : element[1];
+        while (cut < rest.length && /\s/.test(rest[cut])) cut++;
+        pieces.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+};
+
+/**
+ * Groups the sentences of `text` into chunks of at most maxCharacters each
+ * (not counting whitespace at their ends, which is trimmed). Text that fits
+ * comes back as a single chunk.
+ */
+export const splitIntoChunks = (text: string, maxCharacters: number): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of splitSentences(text).flatMap((sentence) => splitLongSentence(sentence, maxCharacters))) {
+        if (current.trim() && (current + piece).trim().length > maxCharacters) {
+            chunks.push(current.trim());
+            current = '';
+        }
+        current += piece;
+    }
+    if (current.trim()) chunks.push(current.trim());
+    return chunks;
+};
@@ -0,0 +1,66 @@
+// Wall-clock dates and times in IANA time zones, using only Intl so no tz
+// database has to be bundled.
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Offset of timeZone from UTC at the given instant, in milliseconds
+const timeZoneOffset = (instant: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const value = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+    const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+    return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock date (YYYY-MM-DD) and time (HH:mm) in timeZone to an
+ * instant. Returns null for malformed input or dates that don't exist. Times
+ * skipped by a DST change resolve to the hour after; repeated times to the
+ * first occurrence.
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date | null => {
+    const dateMatch = DATE_PATTERN.exec(date);
+    const timeMatch = TIME_PATTERN.exec(time);
+    if (!dateMatch || !timeMatch || !isValidTimeZone(timeZone)) {
+        return null;
+    }
+
+    const [year, month, day] = dateMatch.slice(1).map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, Number(timeMatch[1]), Number(timeMatch[2]));
+    const check = new Date(wallClock);
+    if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+        return null;  // e.g. 2025-02-30
+    }
+
+    // The offsets a day either side cover both sides of any DST change. A
+    // candidate is valid if the zone really has that offset at that instant.
+    const offsetBefore = timeZoneOffset(wallClock - DAY_MS, timeZone);
+    const offsetAfter = timeZoneOffset(wallClock + DAY_MS, timeZone);
+    const valid = [offsetBefore, offsetAfter]
+        .map((offset) => wallClock - offset)
+        .filter((candidate) => wallClock - timeZoneOffset(candidate, timeZone) === candidate);
+    if (valid.length > 0) {
+        return new Date(Math.min(...valid));
+    }
+    // Skipped by a spring-forward: read the time with the pre-change offset
+    return new Date(wallClock - offsetBefore);
+};
@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+// Opaque random tokens (refresh tokens, one-time links). Only the hash is
+// stored, so a leaked database can't be used to sign in.
+
+export const generateToken = (bytes = 32): string => {
+    return crypto.randomBytes(bytes).toString('base64url');
+};
+
+export const hashToken = (token: string): string => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { audioContentType, audioFileExtension } from './audio/index.js';
+
+// Content-addressed store for synthesized audio. Identical requests (same
+// provider, voice, model, text and settings) map to the same key, so repeat
+// generations are served from disk instead of being billed again.
+//
+// Entries are stored as <key>.<ext>. A file's mtime records when it was last
+// served, which drives size-based (least recently used first) and age-based
+// eviction.
+
+export interface CacheKeyParams {
+    provider: string;
+    // Set for audio made with a user's own API key: their voices aren't the
+    // server account's, so the same voice id means nothing to other users
+    account?: string;
+    voiceId: string;
+    modelId: string;
+    text: string;
+    voiceSettings?: Record<string, unknown>;
+}
+
+export interface CachedAudio {
+    key: string;
+    audio: Buffer;
+    contentType: string;
+}
+
+export interface CacheStats {
+    entries: number;
+    totalBytes: number;
+    maxBytes: number;
+    hits: number;    // Since the server started
+    misses: number;
+    oldestUsedAt: string | null;
+    newestUsedAt: string | null;
+}
+
+export interface EvictOptions {
+    maxBytes?: number;       // Shrink the cache to at most this many bytes
+    maxAgeSeconds?: number;  // Remove entries not used for longer than this
+}
+
+export interface EvictResult {
+    removedEntries: number;
+    removedBytes: number;
+}
+
+interface CacheEntry {
+    key: string;
+    filePath: string;
+    bytes: number;
+    usedAt: Date;
+}
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+// Whitespace differences don't change the spoken result
+export const normalizeText = (text: string): string => {
+    return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+};
+
+// JSON with object keys sorted, so { a, b } and { b, a } hash the same
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+};
+
+export class TtsCache {
+    private hits = 0;
+    private misses = 0;
+
+    constructor(private dir: string, private maxBytes: number) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    keyFor({ provider, account, voiceId, modelId, text, voiceSettings }: CacheKeyParams): string {
+        return crypto
+            .createHash('sha256')
+            .update(canonicalJson({ provider, account, voiceId, modelId, text: normalizeText(text), voiceSettings: voiceSettings ?? null }))
+            .digest('hex');
+    }
+
+    private async listEntries(): Promise<CacheEntry[]> {
+        const files = await fs.promises.readdir(this.dir);
+        const entries: CacheEntry[] = [];
+        for (const file of files) {
+            const key = path.parse(file).name;
+            if (!KEY_PATTERN.test(key)) continue; // Skip temp files from in-progress writes
+            const filePath = path.join(this.dir, file);
+            try {
+                const stat = await fs.promises.stat(filePath);
+                entries.push({ key, filePath, bytes: stat.size, usedAt: stat.mtime });
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') throw error; // Evicted concurrently
+            }
+        }
+        return entries;
+    }
+
+    async get(key: string): Promise<CachedAudio | null> {
+        for (const extension of ['mp3', 'wav']) {
+            const filePath = path.join(this.dir, `${key}.${extension}`);
+            try {
+                const audio = await fs.promises.readFile(filePath);
+                const now = new Date();
+                await fs.promises.utimes(filePath, now, now);
+                this.hits += 1;
+                return { key, audio, contentType: audioContentType(extension) };
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') throw error;
+            }
+        }
+        this.misses += 1;
+        return null;
+    }
+
+    async put(key: string, audio: Buffer, contentType: string): Promise<void> {
+        if (this.maxBytes <= 0 || audio.length > this.maxBytes) return;
+
+        // Write to a temp file first so readers never see a partial entry
+        const filePath = path.join(this.dir, `${key}.${audioFileExtension(contentType)}`);
+        const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+        await fs.promises.writeFile(tempPath, audio);
+        await fs.promises.rename(tempPath, filePath);
+        await this.evict({ maxBytes: this.maxBytes });
+    }
+
+    async stats(): Promise<CacheStats> {
+        const entries = await this.listEntries();
+        const usedTimes = entries.map((entry) => entry.usedAt.getTime());
+        return {
+            entries: entries.length,
+            totalBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+            maxBytes: this.maxBytes,
+            hits: this.hits,
+            misses: this.misses,
+            oldestUsedAt: usedTimes.length ? new Date(Math.min(...usedTimes)).toISOString() : null,
+            newestUsedAt: usedTimes.length ? new Date(Math.max(...usedTimes)).toISOString() : null,
+        };
+    }
+
+    async evict({ maxBytes, maxAgeSeconds }: EvictOptions): Promise<EvictResult> {
+        // Least recently used first
+        const entries = (await this.listEntries()).sort((a, b) => a.usedAt.getTime() - b.usedAt.getTime());
+        let totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+        const cutoff = maxAgeSeconds !== undefined ? Date.now() - maxAgeSeconds * 1000 : null;
+        const result: EvictResult = { removedEntries: 0, removedBytes: 0 };
+
+        for (const entry of entries) {
+            const tooOld = cutoff !== null && entry.usedAt.getTime() < cutoff;
+            const overSize = maxBytes !== undefined && totalBytes > maxBytes;
+            if (!tooOld && !overSize) continue;
+
+            try {
+                await fs.promises.unlink(entry.filePath);
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') throw error;
+                continue;
+            }
+            totalBytes -= entry.bytes;
+            result.removedEntries += 1;
+            result.removedBytes += entry.bytes;
+        }
+        return result;
+    }
+}
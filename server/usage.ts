@@ -0,0 +1,128 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// Aggregations over the UsageRecord ledger for the usage dashboard. Days are
+// UTC calendar days, matching how quotas reset.
+
+export interface DailyUsage {
+    date: string;        // YYYY-MM-DD
+    requests: number;
+    failures: number;
+    cacheHits: number;
+    characters: number;  // Billed characters (successful, uncached TTS)
+    bytes: number;
+    avgLatencyMs: number | null;
+}
+
+// Billed (successful, uncached) TTS calls per voice
+export interface VoiceUsage {
+    voiceId: string;
+    requests: number;
+    characters: number;
+}
+
+export interface UsageSummary {
+    from: string;
+    to: string;
+    totals: Omit<DailyUsage, 'date'> & { clones: number };
+    daily: DailyUsage[];
+    byVoice: VoiceUsage[];
+}
+
+interface DailyRow {
+    date: string;
+    requests: number;
+    failures: number;
+    cacheHits: number;
+    characters: number;
+    bytes: number;
+    latencySum: number;
+    latencyCount: number;
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// The first UTC day of a `days`-long window ending today
+export const usageWindowStart = (days: number, now = new Date()): Date => {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)));
+};
+
+/**
+ * Summarizes usage since `from`, for one user or (without userId) everyone.
+ * Days with no activity are included as zeros so charts have a continuous axis.
+ */
+export const summarizeUsage = async (
+    prisma: PrismaClient,
+    { from, userId }: { from: Date; userId?: string }
+): Promise<UsageSummary> => {
+    const userFilter = userId ? Prisma.sql`AND "userId" = ${userId}` : Prisma.empty;
+
+    const [rows, voiceGroups, clones] = await Promise.all([
+        prisma.$queryRaw<DailyRow[]>`
+            SELECT to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS "date",
+                   COUNT(*)::int AS "requests",
+                   (COUNT(*) FILTER (WHERE NOT "success"))::int AS "failures",
+                   (COUNT(*) FILTER (WHERE "cached"))::int AS "cacheHits",
+                   COALESCE(SUM("characters") FILTER (WHERE "success" AND NOT "cached"), 0)::float8 AS "characters",
+                   COALESCE(SUM("bytes"), 0)::float8 AS "bytes",
+                   COALESCE(SUM("latencyMs"), 0)::float8 AS "latencySum",
+                   (COUNT("latencyMs"))::int AS "latencyCount"
+            FROM "UsageRecord"
+            WHERE "action" = 'tts' AND "createdAt" >= ${from} ${userFilter}
+            GROUP BY 1
+            ORDER BY 1`,
+        prisma.usageRecord.groupBy({
+            by: ['voiceId'],
+            where: { action: 'tts', success: true, cached: false, createdAt: { gte: from }, ...(userId && { userId }) },
+            _count: { _all: true },
+            _sum: { characters: true },
+        }),
+        prisma.usageRecord.count({
+            where: { action: 'clone', success: true, createdAt: { gte: from }, ...(userId && { userId }) },
+        }),
+    ]);
+
+    const rowsByDate = new Map(rows.map((row) => [row.date, row]));
+    const daily: DailyUsage[] = [];
+    const today = toDateString(new Date());
+    for (let day = new Date(from); toDateString(day) <= today; day.setUTCDate(day.getUTCDate() + 1)) {
+        const date = toDateString(day);
+        const row = rowsByDate.get(date);
+        daily.push({
+            date,
+            requests: row?.requests ?? 0,
+            failures: row?.failures ?? 0,
+            cacheHits: row?.cacheHits ?? 0,
+            characters: row?.characters ?? 0,
+            bytes: row?.bytes ?? 0,
+            avgLatencyMs: row && row.latencyCount > 0 ? Math.round(row.latencySum / row.latencyCount) : null,
+        });
+    }
+
+    const latencySum = rows.reduce((sum, row) => sum + row.latencySum, 0);
+    const latencyCount = rows.reduce((sum, row) => sum + row.latencyCount, 0);
+    const sum = (field: 'requests' | 'failures' | 'cacheHits' | 'characters' | 'bytes') =>
+        daily.reduce((total, day) => total + day[field], 0);
+
+    return {
+        from: toDateString(from),
+        to: today,
+        totals: {
+            requests: sum('requests'),
+            failures: sum('failures'),
+            cacheHits: sum('cacheHits'),
+            characters: sum('characters'),
+            bytes: sum('bytes'),
+            avgLatencyMs: latencyCount > 0 ? Math.round(latencySum / latencyCount) : null,
+            clones,
+        },
+        daily,
+        byVoice: voiceGroups
+            .filter((group) => group.voiceId)
+            .map((group) => ({
+                voiceId: group.voiceId!,
+                requests: group._count._all,
+                characters: group._sum.characters ?? 0,
+            }))
+            .sort((a, b) => b.characters - a.characters),
+    };
+};
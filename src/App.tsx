@@ -4,6 +4,7 @@ import { AlertCircle, Loader2, Volume, Moon, Sun } from 'lucide-react';
 import Header from './components/Header';
 import TextToSpeechForm from './components/TextToSpeechForm';
 import VoiceCloningForm from './components/VoiceCloningForm';
+import MyVoicesPanel from './components/MyVoicesPanel';
 import AudioPlayer from './components/AudioPlayer';
 import ApiKeyModal from './components/ApiKeyModal';
 import EmailModal from './components/EmailModal';
@@ -11,9 +12,20 @@ import ShareLinkModal from './components/ShareLinkModal';
 import Footer from './components/Footer';
 import LoginForm from './components/LoginForm';
 import RegisterForm from './components/RegisterForm';
+import ForgotPasswordForm from './components/ForgotPasswordForm';
+import ResetPasswordForm from './components/ResetPasswordForm';
+import GreetingHistory from './components/GreetingHistory';
+import SessionsModal from './components/SessionsModal';
+import UsageDashboard from './components/UsageDashboard';
+import ScheduleModal from './components/ScheduleModal';
+import UpcomingDeliveries from './components/UpcomingDeliveries';
+import ContactsPage from './components/ContactsPage';
+import CalendarFeedModal from './components/CalendarFeedModal';
+import VerifyEmailBanner from './components/VerifyEmailBanner';
 
-import { getVoices, generateTTS, ElevenLabsVoice, AddVoiceResponse, AuthResponse } from './services/elevenlabs';
-import { AudioState, CurrentUser } from './types/index';
+import { getVoices, getModels, TtsModel, streamTTS, startTtsJob, getActiveJobs, watchJob, Job, TtsJobResult, logoutUser, getCurrentUser, getQuota, QuotaInfo, getGreetings, getGreetingAudio, sendGreetingEmail, getSchedules, scheduleDelivery, updateSchedule, cancelSchedule, DeliverySchedule, ScheduleRequest, getContacts, createContact, updateContact, deleteContact, Contact, ContactRequest, updateVoice, deleteVoice, VoiceUpdate, TtsVoice, AddVoiceResponse, AuthResponse, Greeting, VoiceSettings, SendEmailRequest } from './services/elevenlabs';
+import { AudioState, CurrentUser, AppPage, GreetingRecipient } from './types/index';
+import { BACKGROUND_TTS_MIN_CHARACTERS } from './constants';
 
 function App() {
   // --- Theme State --- 
@@ -47,13 +59,19 @@ function App() {
   const [apiKeyModalOpen, setApiKeyModalOpen] = useState(false);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [shareLinkModalOpen, setShareLinkModalOpen] = useState(false);
+  const [sessionsModalOpen, setSessionsModalOpen] = useState(false);
+  const [calendarFeedModalOpen, setCalendarFeedModalOpen] = useState(false);
+  const [page, setPage] = useState<AppPage>('studio');
   const [audioState, setAudioState] = useState<AudioState>({
     isGenerating: false,
+    isStreaming: false,
     isPlaying: false,
     audioUrl: null,
+    downloadUrl: null,
+    greetingId: null,
     error: null
   });
-  const [voices, setVoices] = useState<ElevenLabsVoice[]>([]);
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
   const [isLoadingVoices, setIsLoadingVoices] = useState(false);
   const [voicesError, setVoicesError] = useState<string | null>(null);
   const [authToken, setAuthToken] = useState<string | null>(() => localStorage.getItem('authToken'));
@@ -73,14 +91,46 @@ function App() {
        return null; 
      }
   });
-  const [authView, setAuthView] = useState<'login' | 'register'>('login');
+  // Password reset emails link back to the app with ?reset_token=...
+  const [resetToken, setResetToken] = useState<string | null>(() => new URLSearchParams(window.location.search).get('reset_token'));
+  const [authView, setAuthView] = useState<'login' | 'register' | 'forgot' | 'reset'>(() => resetToken ? 'reset' : 'login');
+  // The email verification link redirects back with ?email_verified=success|invalid
+  const [authNotice, setAuthNotice] = useState<string | null>(() => {
+    const outcome = new URLSearchParams(window.location.search).get('email_verified');
+    if (outcome === 'success') return 'Your email is verified. Log in to get started.';
+    if (outcome === 'invalid') return 'That verification link is invalid or has expired. Log in to request a new one.';
+    return null;
+  });
   const [authLoading, setAuthLoading] = useState<boolean>(true);
-  const [selectedVoice, setSelectedVoice] = useState<ElevenLabsVoice | null>(null);
+  const [selectedVoice, setSelectedVoice] = useState<TtsVoice | null>(null);
+  const [greetings, setGreetings] = useState<Greeting[]>([]);
+  const [isLoadingGreetings, setIsLoadingGreetings] = useState(false);
+  const [greetingsError, setGreetingsError] = useState<string | null>(null);
+  const [busyGreetingId, setBusyGreetingId] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<DeliverySchedule[]>([]);
+  const [isLoadingSchedules, setIsLoadingSchedules] = useState(false);
+  const [schedulesError, setSchedulesError] = useState<string | null>(null);
+  const [busyScheduleId, setBusyScheduleId] = useState<string | null>(null);
+  // Greeting being scheduled, or delivery being edited, while the schedule modal is open
+  const [scheduleTarget, setScheduleTarget] = useState<{ greetingId: string; schedule: DeliverySchedule | null } | null>(null);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [isLoadingContacts, setIsLoadingContacts] = useState(false);
+  const [contactsError, setContactsError] = useState<string | null>(null);
+  const [busyContactId, setBusyContactId] = useState<string | null>(null);
+  const [samplesVoiceId, setSamplesVoiceId] = useState<string | null>(null); // Clone the cloning form adds samples to
+  const [greetingRecipient, setGreetingRecipient] = useState<GreetingRecipient | null>(null);
+  const [quota, setQuota] = useState<QuotaInfo | null>(null);
+  const [models, setModels] = useState<TtsModel[]>([]);
+  // Long greeting being generated by the server's job queue
+  const [ttsJob, setTtsJob] = useState<Job | null>(null);
+  const ttsJobId = ttsJob?.id;
 
 
   const handleLogout = useCallback(() => {
     console.log('Logging out');
+    logoutUser(); // Revoke the session server-side; local logout doesn't wait for it
     localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('currentUser');
     localStorage.removeItem('elevenlabs_api_key');
     setAuthToken(null);
@@ -88,10 +138,139 @@ function App() {
     setVoices([]); 
     setSelectedVoice(null);
     setVoicesError(null);
-    setAudioState({ isGenerating: false, isPlaying: false, audioUrl: null, error: null });
-    setAuthView('login'); 
+    setGreetings([]);
+    setGreetingsError(null);
+    setSchedules([]);
+    setSchedulesError(null);
+    setScheduleTarget(null);
+    setContacts([]);
+    setContactsError(null);
+    setGreetingRecipient(null);
+    setQuota(null);
+    setModels([]);
+    setTtsJob(null);
+    setSamplesVoiceId(null);
+    setAudioState({ isGenerating: false, isStreaming: false, isPlaying: false, audioUrl: null, downloadUrl: null, greetingId: null, error: null });
+    setSessionsModalOpen(false);
+    setCalendarFeedModalOpen(false);
+    setApiKeyModalOpen(false);
+    setPage('studio');
+    setAuthView(view => view === 'reset' ? view : 'login'); // Keep an open password reset link on screen
   }, []);
 
+  const fetchGreetings = useCallback(async () => {
+    setIsLoadingGreetings(true);
+    setGreetingsError(null);
+    try {
+      const fetchedGreetings = await getGreetings();
+      setGreetings(fetchedGreetings);
+    } catch (error: any) {
+      console.error('Error fetching greetings:', error);
+      const errorMessage = error.message || 'Failed to load greeting history.';
+      setGreetingsError(errorMessage);
+      if (errorMessage.includes('Unauthorized')) {
+          console.warn('Auth error during fetchGreetings, logging out.');
+          handleLogout();
+      }
+    } finally {
+      setIsLoadingGreetings(false);
+    }
+  }, [handleLogout]);
+
+  const fetchSchedules = useCallback(async () => {
+    setIsLoadingSchedules(true);
+    setSchedulesError(null);
+    try {
+      setSchedules(await getSchedules('upcoming'));
+    } catch (error: any) {
+      console.error('Error fetching scheduled deliveries:', error);
+      const errorMessage = error.message || 'Failed to load scheduled deliveries.';
+      setSchedulesError(errorMessage);
+      if (errorMessage.includes('Unauthorized')) {
+          console.warn('Auth error during fetchSchedules, logging out.');
+          handleLogout();
+      }
+    } finally {
+      setIsLoadingSchedules(false);
+    }
+  }, [handleLogout]);
+
+  const fetchContacts = useCallback(async () => {
+    setIsLoadingContacts(true);
+    setContactsError(null);
+    try {
+      setContacts(await getContacts());
+    } catch (error: any) {
+      console.error('Error fetching contacts:', error);
+      const errorMessage = error.message || 'Failed to load contacts.';
+      setContactsError(errorMessage);
+      if (errorMessage.includes('Unauthorized')) {
+          console.warn('Auth error during fetchContacts, logging out.');
+          handleLogout();
+      }
+    } finally {
+      setIsLoadingContacts(false);
+    }
+  }, [handleLogout]);
+
+  // Quota display is informational; the server enforces the limits
+  const fetchQuota = useCallback(async () => {
+    try {
+      setQuota(await getQuota());
+    } catch (error: any) {
+      console.error('Error fetching quota:', error);
+      if (error.message?.includes('Unauthorized')) {
+        handleLogout();
+      }
+    }
+  }, [handleLogout]);
+
+  // Without the model list the form sticks to the server's default model
+  const fetchModels = useCallback(async () => {
+    try {
+      setModels(await getModels());
+    } catch (error: any) {
+      console.error('Error fetching models:', error);
+      if (error.message?.includes('Unauthorized')) {
+        handleLogout();
+      }
+    }
+  }, [handleLogout]);
+
+  // A long greeting started before a page reload is still generating on the server
+  const resumeTtsJob = useCallback(async () => {
+    try {
+      const [job] = await getActiveJobs('tts');
+      if (job) {
+        setTtsJob(current => current ?? job);
+        setAudioState(prev => ({ ...prev, isGenerating: true, error: null }));
+      }
+    } catch (error: any) {
+      console.error('Error checking for running greetings:', error);
+      if (error.message?.includes('Unauthorized')) {
+        handleLogout();
+      }
+    }
+  }, [handleLogout]);
+
+  // Picks up changes made outside this tab, such as verifying the email address
+  const refreshAccount = useCallback(async () => {
+    try {
+      const account = await getCurrentUser();
+      setCurrentUser(prev => {
+        if (!prev) return prev;
+        const updated = { ...prev, emailVerified: account.emailVerified, isAdmin: account.isAdmin };
+        localStorage.setItem('currentUser', JSON.stringify(updated));
+        return updated;
+      });
+    } catch (error: any) {
+      console.error('Error refreshing account:', error);
+      if (error.message?.includes('Unauthorized')) {
+        handleLogout();
+      }
+    }
+  }, [handleLogout]);
+
   const fetchVoices = useCallback(async (token: string | null) => {
     if (!token) {
         setVoices([]);
@@ -140,6 +319,13 @@ function App() {
           setAuthToken(token);
           setCurrentUser(user);
           fetchVoices(token);
+          fetchModels();
+          fetchGreetings();
+          fetchSchedules();
+          fetchContacts();
+          fetchQuota();
+          refreshAccount();
+          resumeTtsJob();
         } else {
           console.warn("Invalid user data found in storage, logging out.");
           handleLogout(); 
@@ -157,19 +343,68 @@ function App() {
         setIsLoadingVoices(false);
     }
     setAuthLoading(false); 
-  }, [handleLogout, fetchVoices]);
+  }, [handleLogout, fetchVoices, fetchModels, fetchGreetings, fetchSchedules, fetchContacts, fetchQuota, refreshAccount, resumeTtsJob]);
+
+  // Follows the background greeting until it's done, then loads its audio
+  useEffect(() => {
+    if (!ttsJobId) return;
+    const controller = new AbortController();
+    const finish = (changes: Partial<AudioState>) => {
+      setTtsJob(null);
+      setAudioState(prev => ({ ...prev, isGenerating: false, ...changes }));
+      fetchQuota();
+    };
+    watchJob(ttsJobId, setTtsJob, controller.signal)
+      .then(async (finished) => {
+        if (finished.status !== 'succeeded' || !finished.result) {
+          finish({ error: finished.error || 'An error occurred while generating the audio.' });
+          return;
+        }
+        const { greetingId } = finished.result as TtsJobResult;
+        const audioUrl = URL.createObjectURL(await getGreetingAudio(greetingId));
+        console.log("Audio generated successfully.");
+        finish({ isPlaying: false, audioUrl, downloadUrl: audioUrl, greetingId, error: null });
+        fetchGreetings();
+      })
+      .catch((error: any) => {
+        if (controller.signal.aborted) return;
+        console.error('Error generating audio:', error);
+        const errorMessage = error.message || 'An error occurred while generating the audio.';
+        finish({ error: errorMessage });
+        if (errorMessage.includes('Unauthorized')) {
+          handleLogout();
+        }
+      });
+    return () => controller.abort();
+  }, [ttsJobId, fetchGreetings, fetchQuota, handleLogout]);
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (url.searchParams.has('email_verified')) {
+      url.searchParams.delete('email_verified');
+      window.history.replaceState(null, '', url.toString());
+    }
+  }, []);
 
   const handleLoginSuccess = (data: AuthResponse) => {
     console.log('Login successful');
-    const userData: CurrentUser = { userId: data.userId, email: data.email }; 
+    const userData: CurrentUser = { userId: data.userId, email: data.email, emailVerified: data.emailVerified, isAdmin: data.isAdmin }; 
     localStorage.setItem('authToken', data.token);
+    localStorage.setItem('refreshToken', data.refreshToken);
     localStorage.setItem('currentUser', JSON.stringify(userData));
     setAuthToken(data.token);
     setCurrentUser(userData);
     setAuthView('login');
+    setAuthNotice(null);
     setVoicesError(null);
-    setAudioState({ isGenerating: false, isPlaying: false, audioUrl: null, error: null });
+    setAudioState({ isGenerating: false, isStreaming: false, isPlaying: false, audioUrl: null, downloadUrl: null, greetingId: null, error: null });
     fetchVoices(data.token);
+    fetchModels();
+    fetchGreetings();
+    fetchSchedules();
+    fetchContacts();
+    fetchQuota();
+    resumeTtsJob();
   };
 
   const handleRegisterSuccess = () => {
@@ -179,25 +414,49 @@ function App() {
 
   const switchToRegister = () => setAuthView('register');
   const switchToLogin = () => setAuthView('login');
+  const switchToForgotPassword = () => setAuthView('forgot');
+
+  // Drop the token from the address bar so it isn't reused or shared by accident
+  const clearResetToken = () => {
+    setResetToken(null);
+    const url = new URL(window.location.href);
+    url.searchParams.delete('reset_token');
+    window.history.replaceState(null, '', url.toString());
+  };
+
+  const handleResetSuccess = (message: string) => {
+    clearResetToken();
+    setAuthNotice(message);
+    setAuthView('login');
+  };
   const handleVoiceCloned = (newVoice: AddVoiceResponse) => {
     console.log('New voice cloned, refetching voices list...');
 
     const currentToken = localStorage.getItem('authToken');
     if (currentToken) {
         fetchVoices(currentToken); 
+        fetchQuota();
     } else {
         console.warn('Cannot refetch voices, user not logged in.');
         handleLogout(); 
     }
   };
 
-  const handleApiKeySubmit = (apiKey: string) => {
-    console.log('Legacy API Key submitted');
-    localStorage.setItem('elevenlabs_api_key_legacy', apiKey); 
-    setApiKeyModalOpen(false);
+  // Saving or removing an own API key switches which account voices and models come from
+  const handleApiKeyChanged = () => {
+    fetchVoices(localStorage.getItem('authToken'));
+    fetchModels();
+    fetchQuota();
   };
 
-  const handleGenerateAudio = async (data: { voiceId: string; message: string }) => {
+  const handleGenerateAudio = async (data: {
+    voiceId: string;
+    message: string;
+    occasionId?: string;
+    modelId?: string;
+    voiceSettings?: VoiceSettings;
+    presetId?: string;
+  }) => {
     const currentToken = localStorage.getItem('authToken');
     if (!currentToken) {
         console.warn("Attempted to generate audio while logged out.");
@@ -208,35 +467,253 @@ function App() {
     console.log(`Generating audio with voice ID: ${data.voiceId}`);
     setAudioState({
       isGenerating: true,
+      isStreaming: false,
       isPlaying: false,
       audioUrl: null,
+      downloadUrl: null,
+      greetingId: null,
       error: null
     });
     try {
-       const audioBlob = await generateTTS(data.voiceId, data.message, currentToken); 
-       const audioUrl = URL.createObjectURL(audioBlob);
+       // Long texts take a while; the job effect shows progress and loads the audio.
+       // Texts over the model's per-request limit are generated in parts by the job.
+       const modelLimit = models.find(model => model.model_id === data.modelId)?.max_characters ?? null;
+       if (data.message.length >= BACKGROUND_TTS_MIN_CHARACTERS || (modelLimit !== null && data.message.length > modelLimit)) {
+         setTtsJob(await startTtsJob(data.voiceId, data.message, data.modelId, data.voiceSettings, data.occasionId, data.presetId));
+         return;
+       }
+       const { greetingId, streamUrl, complete } = await streamTTS(
+         data.voiceId,
+         data.message,
+         data.modelId,
+         data.voiceSettings,
+         data.occasionId,
+         data.presetId
+       );
+       if (streamUrl) {
+         // Start playing while the rest of the audio arrives
+         setAudioState({
+           isGenerating: false,
+           isStreaming: true,
+           isPlaying: false,
+           audioUrl: streamUrl,
+           downloadUrl: null,
+           greetingId,
+           error: null
+         });
+       }
+       const downloadUrl = URL.createObjectURL(await complete);
        console.log("Audio generated successfully.");
-       setAudioState({
+       // The player keeps the stream it's playing; the blob is for download
+       setAudioState(prev => streamUrl && prev.audioUrl !== streamUrl ? prev : {
          isGenerating: false,
+         isStreaming: false,
          isPlaying: false,
-         audioUrl,
+         audioUrl: streamUrl ?? downloadUrl,
+         downloadUrl,
+         greetingId,
          error: null
        });
+       fetchGreetings();
+       fetchQuota();
     } catch (error: any) { 
        console.error('Error generating audio:', error);
        const errorMessage = error.message || 'An error occurred while generating the audio.';
-       setAudioState(prev => ({ ...prev, isGenerating: false, error: errorMessage }));
+       setAudioState(prev => ({ ...prev, isGenerating: false, isStreaming: false, error: errorMessage }));
+       fetchQuota();
        if (errorMessage.includes('Unauthorized')) { 
-           console.warn('Auth error during generateTTS, logging out.');
+           console.warn('Auth error during streamTTS, logging out.');
            handleLogout();
        }
     } 
   };
 
-  const handleSendEmail = (email: string) => {
-    alert(`Audio greeting would be sent to ${email} in a production environment.`);
+  const handleReplayGreeting = async (greeting: Greeting) => {
+    setBusyGreetingId(greeting.id);
+    try {
+      const blob = await getGreetingAudio(greeting.id);
+      const audioUrl = URL.createObjectURL(blob);
+      setAudioState({
+        isGenerating: false,
+        isStreaming: false,
+        isPlaying: false,
+        audioUrl,
+        downloadUrl: audioUrl,
+        greetingId: greeting.id,
+        error: null
+      });
+    } catch (error: any) {
+      console.error('Error loading greeting audio:', error);
+      setGreetingsError(error.message || 'Failed to load greeting audio.');
+    } finally {
+      setBusyGreetingId(null);
+    }
   };
 
+  const handleDownloadGreeting = async (greeting: Greeting) => {
+    setBusyGreetingId(greeting.id);
+    try {
+      const blob = await getGreetingAudio(greeting.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audio-greeting-${greeting.id}.${greeting.contentType === 'audio/wav' ? 'wav' : 'mp3'}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error downloading greeting audio:', error);
+      setGreetingsError(error.message || 'Failed to download greeting audio.');
+    } finally {
+      setBusyGreetingId(null);
+    }
+  };
+
+  const handleRegenerateGreeting = (greeting: Greeting) => {
+    handleGenerateAudio({
+      voiceId: greeting.voiceId,
+      message: greeting.text,
+      occasionId: greeting.occasion || undefined,
+      modelId: greeting.modelId,
+      voiceSettings: greeting.voiceSettings || undefined,
+    });
+  };
+
+  const handleSendEmail = async (request: SendEmailRequest) => {
+    if (!audioState.greetingId) {
+      throw new Error('Generate a greeting before sending it.');
+    }
+    try {
+      return await sendGreetingEmail(audioState.greetingId, request);
+    } catch (error: any) {
+      if (error.message?.includes('Unauthorized')) {
+        console.warn('Auth error during sendGreetingEmail, logging out.');
+        handleLogout();
+      }
+      throw error;
+    }
+  };
+
+  // Creates a delivery, or updates the one being edited
+  const handleSaveSchedule = async (request: ScheduleRequest) => {
+    if (!scheduleTarget) return;
+    try {
+      if (scheduleTarget.schedule) {
+        await updateSchedule(scheduleTarget.schedule.id, request);
+      } else {
+        await scheduleDelivery(scheduleTarget.greetingId, request);
+      }
+      fetchSchedules();
+    } catch (error: any) {
+      if (error.message?.includes('Unauthorized')) {
+        console.warn('Auth error while scheduling, logging out.');
+        handleLogout();
+      }
+      throw error;
+    }
+  };
+
+  const handleCancelSchedule = async (schedule: DeliverySchedule) => {
+    if (!window.confirm('Cancel this delivery? The greeting itself stays in your history.')) return;
+    setBusyScheduleId(schedule.id);
+    setSchedulesError(null);
+    try {
+      await cancelSchedule(schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } catch (error: any) {
+      console.error('Error cancelling delivery:', error);
+      setSchedulesError(error.message || 'Failed to cancel delivery.');
+      if (error.message?.includes('Unauthorized')) {
+        handleLogout();
+      }
+    } finally {
+      setBusyScheduleId(null);
+    }
+  };
+
+  const handleUpdateVoice = async (voice: TtsVoice, changes: VoiceUpdate) => {
+    try {
+      const updated = await updateVoice(voice.voice_id, changes);
+      setVoices(prev => prev.map(v => v.voice_id === updated.voice_id ? { ...v, ...updated } : v));
+    } catch (error: any) {
+      if (error.message?.includes('Unauthorized')) {
+        console.warn('Auth error while editing voice, logging out.');
+        handleLogout();
+      }
+      throw error;
+    }
+  };
+
+  const handleDeleteVoice = async (voice: TtsVoice, reassignTo: string | null) => {
+    try {
+      await deleteVoice(voice.voice_id, reassignTo ?? undefined);
+      setVoices(prev => prev.filter(v => v.voice_id !== voice.voice_id));
+      setSelectedVoice(prev => prev?.voice_id === voice.voice_id ? null : prev);
+      setSamplesVoiceId(prev => prev === voice.voice_id ? null : prev);
+      // Greetings and contact preferences may have moved to another voice
+      fetchGreetings();
+      fetchContacts();
+    } catch (error: any) {
+      if (error.message?.includes('Unauthorized')) {
+        console.warn('Auth error while deleting voice, logging out.');
+        handleLogout();
+      }
+      throw error;
+    }
+  };
+
+  // Switches Step 1 to adding samples to the voice and brings it into view
+  const handleManageSamples = (voice: TtsVoice) => {
+    setSamplesVoiceId(voice.voice_id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSaveContact = async (contact: Contact | null, request: ContactRequest) => {
+    try {
+      if (contact) {
+        const updated = await updateContact(contact.id, request);
+        setContacts(prev => prev.map(c => c.id === updated.id ? updated : c));
+      } else {
+        await createContact(request);
+        fetchContacts();
+      }
+    } catch (error: any) {
+      if (error.message?.includes('Unauthorized')) {
+        console.warn('Auth error while saving contact, logging out.');
+        handleLogout();
+      }
+      throw error;
+    }
+  };
+
+  const handleDeleteContact = async (contact: Contact) => {
+    if (!window.confirm(`Delete ${contact.name} from your contacts?`)) return;
+    setBusyContactId(contact.id);
+    setContactsError(null);
+    try {
+      await deleteContact(contact.id);
+      setContacts(prev => prev.filter(c => c.id !== contact.id));
+      setGreetingRecipient(prev => prev?.contactId === contact.id ? null : prev);
+    } catch (error: any) {
+      console.error('Error deleting contact:', error);
+      setContactsError(error.message || 'Failed to delete contact.');
+      if (error.message?.includes('Unauthorized')) {
+        handleLogout();
+      }
+    } finally {
+      setBusyContactId(null);
+    }
+  };
+
+  // Opens the studio with the contact (and occasion, if picked) prefilled
+  const handleWriteGreeting = (contact: Contact, occasionId?: string) => {
+    setGreetingRecipient({ contactId: contact.id, occasionId });
+    setPage('studio');
+  };
+
+  const recipientContact = contacts.find(c => c.id === greetingRecipient?.contactId);
+
   const handleShareLink = () => {
     setShareLinkModalOpen(true);
   };
@@ -257,10 +734,20 @@ function App() {
                 <Volume className="h-12 w-12 text-blue-600 dark:text-blue-400 mx-auto" />
                 <h1 className="mt-4 text-3xl font-bold text-gray-900 dark:text-gray-100">AudioGreets</h1>
              </div>
-            {authView === 'login' ? (
+            {authView === 'reset' && resetToken ? (
+                <ResetPasswordForm
+                  token={resetToken}
+                  onResetSuccess={handleResetSuccess}
+                  switchToForgotPassword={() => { clearResetToken(); switchToForgotPassword(); }}
+                />
+            ) : authView === 'forgot' ? (
+                <ForgotPasswordForm switchToLogin={switchToLogin} />
+            ) : authView === 'login' || authView === 'reset' ? (
                 <LoginForm
                   onLoginSuccess={handleLoginSuccess}
                   switchToRegister={switchToRegister}
+                  switchToForgotPassword={switchToForgotPassword}
+                  notice={authNotice}
                 />
             ) : (
                 <RegisterForm 
@@ -279,12 +766,39 @@ function App() {
         onOpenApiKeyModal={() => setApiKeyModalOpen(true)} 
         currentUser={currentUser} 
         onLogout={handleLogout} 
+        onOpenSessions={() => setSessionsModalOpen(true)}
+        page={page}
+        onChangePage={setPage}
         toggleTheme={toggleTheme}
         theme={theme}
       />
       
       <main className="flex-grow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {currentUser.emailVerified === false && (
+            <VerifyEmailBanner
+              email={currentUser.email}
+              onUnauthorized={handleLogout}
+              onCheckAgain={refreshAccount}
+            />
+          )}
+          {page === 'usage' ? (
+            <UsageDashboard voices={voices} isAdmin={!!currentUser.isAdmin} onUnauthorized={handleLogout} />
+          ) : page === 'contacts' ? (
+            <ContactsPage
+              contacts={contacts}
+              voices={voices}
+              isLoading={isLoadingContacts}
+              error={contactsError}
+              busyContactId={busyContactId}
+              onSave={handleSaveContact}
+              onDelete={handleDeleteContact}
+              onRefresh={fetchContacts}
+              onWriteGreeting={handleWriteGreeting}
+              onUnauthorized={handleLogout}
+            />
+          ) : (
+          <>
           {voicesError && (
                 <div className="bg-red-100 border border-red-400 text-red-700 dark:bg-red-900 dark:border-red-700 dark:text-red-200 rounded-lg p-4 mb-6 flex items-start">
                   <AlertCircle className="h-5 w-5 text-red-500 dark:text-red-400 mr-3 flex-shrink-0 mt-0.5" />
@@ -303,7 +817,12 @@ function App() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-1 bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-6 border-b border-gray-200 dark:border-gray-700 pb-3">1. Add Custom Voice</h2>
-               <VoiceCloningForm onVoiceCloned={handleVoiceCloned} />
+               <VoiceCloningForm
+                 onVoiceCloned={handleVoiceCloned}
+                 voices={voices}
+                 targetVoiceId={samplesVoiceId}
+                 onTargetVoiceChange={setSamplesVoiceId}
+               />
             </div>
 
             <div className="lg:col-span-1 bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
@@ -321,13 +840,20 @@ function App() {
               ) : !voicesError && !isLoadingVoices ? (
                  <TextToSpeechForm 
                    onSubmit={handleGenerateAudio}
-                   isGenerating={audioState.isGenerating}
+                   isGenerating={audioState.isGenerating || audioState.isStreaming}
+                   generationJob={ttsJob}
                    isAudioGenerated={!!audioState.audioUrl}
                    onSendEmail={() => setEmailModalOpen(true)}
                    onShareLink={() => setShareLinkModalOpen(true)}
                    availableVoices={voices} 
+                   models={models}
+                   characterQuota={quota?.characters ?? null}
                    isLoadingVoices={false}
                    voicesError={null}
+                   contacts={contacts}
+                   recipient={greetingRecipient}
+                   onRecipientChange={setGreetingRecipient}
+                   onUnauthorized={handleLogout}
                  />
                ) : null }
             </div>
@@ -348,10 +874,12 @@ function App() {
               
               <AudioPlayer 
                 audioUrl={audioState.audioUrl} 
+                downloadUrl={audioState.downloadUrl}
                 isGenerating={audioState.isGenerating} 
+                isStreaming={audioState.isStreaming}
               />
               
-              {audioState.audioUrl && !audioState.isGenerating && (
+              {audioState.audioUrl && !audioState.isGenerating && !audioState.isStreaming && (
                 <div className="mt-6 bg-blue-50 dark:bg-blue-900/30 border border-blue-100 dark:border-blue-800/50 rounded-lg p-4">
                   <h3 className="text-sm font-medium text-blue-800 dark:text-blue-300 mb-2">What's next?</h3>
                   <p className="text-sm text-blue-700 dark:text-blue-400">
@@ -366,6 +894,48 @@ function App() {
                )}
             </div>
           </div>
+
+          <div className="mt-8">
+            <GreetingHistory
+              greetings={greetings}
+              voices={voices}
+              isLoading={isLoadingGreetings}
+              error={greetingsError}
+              activeGreetingId={audioState.greetingId}
+              busyGreetingId={busyGreetingId}
+              isGenerating={audioState.isGenerating || audioState.isStreaming}
+              onReplay={handleReplayGreeting}
+              onDownload={handleDownloadGreeting}
+              onRegenerate={handleRegenerateGreeting}
+              onSchedule={(greeting) => setScheduleTarget({ greetingId: greeting.id, schedule: null })}
+              onRefresh={fetchGreetings}
+            />
+          </div>
+
+          <div className="mt-8">
+            <UpcomingDeliveries
+              schedules={schedules}
+              isLoading={isLoadingSchedules}
+              error={schedulesError}
+              busyScheduleId={busyScheduleId}
+              onEdit={(schedule) => setScheduleTarget({ greetingId: schedule.greetingId, schedule })}
+              onCancel={handleCancelSchedule}
+              onRefresh={fetchSchedules}
+              onOpenCalendarFeed={() => setCalendarFeedModalOpen(true)}
+            />
+          </div>
+
+          <div className="mt-8">
+            <MyVoicesPanel
+              voices={voices}
+              onUpdate={handleUpdateVoice}
+              onDelete={handleDeleteVoice}
+              onManageSamples={handleManageSamples}
+              onUnauthorized={handleLogout}
+            />
+          </div>
+          </>
+          )}
         </div>
       </main>
 
@@ -375,18 +945,39 @@ function App() {
         isOpen={emailModalOpen}
         onClose={() => setEmailModalOpen(false)}
         onSend={handleSendEmail}
+        defaultRecipients={recipientContact ? [recipientContact.email] : undefined}
       />
       
       <ShareLinkModal 
         isOpen={shareLinkModalOpen}
         onClose={() => setShareLinkModalOpen(false)}
-        audioUrl={audioState.audioUrl}
+        greetingId={audioState.greetingId}
+      />
+
+      <ScheduleModal
+        isOpen={!!scheduleTarget}
+        onClose={() => setScheduleTarget(null)}
+        onSubmit={handleSaveSchedule}
+        schedule={scheduleTarget?.schedule ?? null}
+      />
+
+      <CalendarFeedModal
+        isOpen={calendarFeedModalOpen}
+        onClose={() => setCalendarFeedModalOpen(false)}
+        onUnauthorized={handleLogout}
+      />
+
+      <SessionsModal
+        isOpen={sessionsModalOpen}
+        onClose={() => setSessionsModalOpen(false)}
+        onUnauthorized={handleLogout}
       />
 
       <ApiKeyModal 
         isOpen={apiKeyModalOpen}
         onClose={() => setApiKeyModalOpen(false)}
-        onSubmit={handleApiKeySubmit}
+        onUnauthorized={handleLogout}
+        onKeyChanged={handleApiKeyChanged}
       />
     </div>
   );
@@ -1,23 +1,78 @@
-import React, { useState } from 'react';
-import { Key } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Key, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 import Button from './Button';
 import FormField from './FormField';
+import { getApiKeySettings, saveApiKey, removeApiKey, ApiKeySettings } from '../services/elevenlabs';
 
 type ApiKeyModalProps = {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (apiKey: string) => void;
+  onUnauthorized: () => void;
+  onKeyChanged: () => void; // Voices and quota depend on which account is billed
 };
 
-const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSubmit }) => {
-  // Try reading initial key from localStorage (might be empty)
-  const [apiKey, setApiKey] = useState<string>(localStorage.getItem('elevenlabs_api_key_legacy') || '');
+const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onUnauthorized, onKeyChanged }) => {
+  const [settings, setSettings] = useState<ApiKeySettings | null>(null);
+  const [apiKey, setApiKey] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleError = useCallback((err: any, fallback: string) => {
+    console.error(fallback, err);
+    if (err.message?.includes('Unauthorized')) {
+      onUnauthorized();
+      return;
+    }
+    setError(err.message || fallback);
+  }, [onUnauthorized]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setApiKey('');
+    setError(null);
+    setMessage(null);
+    setIsLoading(true);
+    getApiKeySettings()
+      .then(setSettings)
+      .catch((err) => handleError(err, 'Failed to load API key settings.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, handleError]);
 
   if (!isOpen) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(apiKey); 
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setSettings(await saveApiKey(apiKey.trim()));
+      setApiKey('');
+      setMessage('Key saved. Your voices and audio now use your ElevenLabs account.');
+      onKeyChanged();
+    } catch (err: any) {
+      handleError(err, 'Failed to save API key.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await removeApiKey();
+      setSettings(prev => prev && { ...prev, configured: false, last4: null, updatedAt: null });
+      setMessage('Key removed. The app account is used again.');
+      onKeyChanged();
+    } catch (err: any) {
+      handleError(err, 'Failed to remove API key.');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -31,40 +86,84 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSubmit })
             <div className="w-10 h-10 rounded-full bg-yellow-100 dark:bg-yellow-900/30 flex items-center justify-center mr-3">
               <Key className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
             </div>
-            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">ElevenLabs API Key (Legacy)</h2>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Your ElevenLabs API Key</h2>
           </div>
-          
+
           {/* Body Content */}
           <p className="text-gray-600 dark:text-gray-400 mb-4 text-sm">
-            This setting might be deprecated if using account authentication. If needed, enter your ElevenLabs API key here.
+            Save your own key to bill voice cloning and audio generation to your ElevenLabs account. Your app character quota doesn't apply while a key is saved.
+            The key is stored encrypted and is never shown again.
           </p>
-          
-          <form onSubmit={handleSubmit}>
-            <FormField label="API Key" htmlFor="api-key"> 
-              <input
-                type="password" // Use password type to obscure key
-                id="api-key"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 sm:text-sm"
-                placeholder="Enter your API key"
-              />
-            </FormField>
-            
-            {/* Footer Actions */}
-            <div className="flex justify-end space-x-3 mt-6">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button type="submit" variant="primary" disabled={!apiKey.trim()}> 
-                Save Key
-              </Button>
+
+          {isLoading ? (
+            <div className="text-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600 dark:text-blue-400 mx-auto" />
             </div>
-          </form>
+          ) : (
+            <>
+              {settings?.configured && (
+                <div className="flex items-center justify-between text-sm bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-md p-3 mb-4">
+                  <span className="text-gray-700 dark:text-gray-200">
+                    Saved key ending in <span className="font-mono font-medium">{settings.last4}</span>
+                  </span>
+                  <Button type="button" variant="ghost" size="sm" onClick={handleRemove} disabled={isSaving} className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300">
+                    Remove
+                  </Button>
+                </div>
+              )}
+
+              {message && (
+                <div className="flex items-center mb-4 text-sm text-green-600 dark:text-green-300 bg-green-50 dark:bg-green-900/30 p-3 rounded-md border border-green-200 dark:border-green-600/50">
+                  <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />{message}
+                </div>
+              )}
+              {error && (
+                <div className="flex items-center mb-4 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50">
+                  <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 text-red-500 dark:text-red-400" />{error}
+                </div>
+              )}
+
+              {settings && !settings.available ? (
+                <>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Saving your own API key is not enabled on this server.</p>
+                  <div className="flex justify-end mt-6">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                      Close
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <form onSubmit={handleSubmit}>
+                  <FormField label={settings?.configured ? 'Replace Key' : 'API Key'} htmlFor="api-key" description="Checked with ElevenLabs before it is saved">
+                    <input
+                      type="password" // Use password type to obscure key
+                      id="api-key"
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                      autoComplete="off"
+                      disabled={isSaving}
+                      className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 sm:text-sm disabled:opacity-50"
+                      placeholder="Enter your API key"
+                    />
+                  </FormField>
+
+                  {/* Footer Actions */}
+                  <div className="flex justify-end space-x-3 mt-6">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                      Close
+                    </Button>
+                    <Button type="submit" variant="primary" disabled={!apiKey.trim() || isSaving} icon={isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}>
+                      {isSaving ? 'Checking...' : 'Save Key'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default ApiKeyModal;
\ No newline at end of file
+export default ApiKeyModal;
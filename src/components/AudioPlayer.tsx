@@ -4,10 +4,12 @@ import Button from './Button';
 
 type AudioPlayerProps = {
   audioUrl: string | null;
+  downloadUrl: string | null; // Complete audio; null while it's still streaming in
   isGenerating: boolean;
+  isStreaming: boolean; // audioUrl is a MediaSource still receiving audio
 };
 
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) => {
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, downloadUrl, isGenerating, isStreaming }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -63,13 +65,13 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
     if (!audio) return;
 
     const handleLoadedMetadata = () => {
+      setIsLoadingMetadata(false);
+      setError(null);
       if (isFinite(audio.duration)) {
         setDuration(audio.duration);
-        setIsLoadingMetadata(false);
-        setError(null);
         console.log(`Audio metadata loaded: Duration=${audio.duration}`);
       } else {
-        // Sometimes duration is Infinity initially
+        // Streamed audio has no duration until the last chunk arrives
         console.warn('Audio duration is Infinity initially, will retry on durationchange.');
       }
     };
@@ -103,20 +105,14 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
   useEffect(() => {
     const audio = audioRef.current;
     // Exit if no audio element or URL
-    if (!audio || !audioUrl) {
-       // Ensure nodes are disconnected if element/URL is removed
-       if (sourceRef.current) sourceRef.current.disconnect();
-       if (analyserRef.current) analyserRef.current.disconnect();
-       sourceRef.current = null;
-       analyserRef.current = null;
-       return;
-    }
+    if (!audio || !audioUrl) return;
 
     const setupAudioNodes = () => {
       const audioContext = ensureAudioContext();
       if (!audioContext) return; // Stop if context failed
 
-      // Prevent re-setup if source already exists for this element/context
+      // Prevent re-setup if source already exists for this element/context.
+      // The element outlives URL changes and can only ever have one source node.
       if (sourceRef.current) {
           console.log("Audio nodes already set up.");
           return;
@@ -140,37 +136,26 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
       }
     };
 
-    // Use 'canplaythrough' event to ensure the element is ready
-    const handleCanPlayThrough = () => {
-      console.log("'canplaythrough' event fired.");
+    // 'canplay' rather than 'canplaythrough': a stream may never buffer enough
+    // for the latter before playback starts, and the visualizer should run on it
+    const handleCanPlay = () => {
+      console.log("'canplay' event fired.");
       setupAudioNodes();
     };
 
     // Check if audio is already ready
-    if (audio.readyState >= 4) { // HAVE_ENOUGH_DATA
-      console.log("Audio readyState >= 4, setting up nodes immediately.");
+    if (audio.readyState >= 3) { // HAVE_FUTURE_DATA
+      console.log("Audio readyState >= 3, setting up nodes immediately.");
       setupAudioNodes();
     } else {
-      console.log(`Audio not ready (readyState: ${audio.readyState}), adding 'canplaythrough' listener.`);
-      audio.addEventListener('canplaythrough', handleCanPlayThrough);
+      console.log(`Audio not ready (readyState: ${audio.readyState}), adding 'canplay' listener.`);
+      audio.addEventListener('canplay', handleCanPlay);
     }
 
     // Cleanup function for this effect
     return () => {
       console.log("Cleaning up node setup effect for:", audioUrl);
-      audio.removeEventListener('canplaythrough', handleCanPlayThrough); // Remove listener
-
-      // Disconnect nodes when audioUrl changes or component unmounts
-      if (sourceRef.current) {
-        console.log("Disconnecting source node.");
-        sourceRef.current.disconnect();
-        sourceRef.current = null;
-      }
-      if (analyserRef.current) {
-        console.log("Disconnecting analyser node.");
-        analyserRef.current.disconnect();
-        analyserRef.current = null;
-      }
+      audio.removeEventListener('canplay', handleCanPlay); // Remove listener
     };
     // Rerun when audioUrl changes or the context helper potentially changes (though stable due to useCallback)
   }, [audioUrl, ensureAudioContext]);
@@ -254,7 +239,16 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
   useEffect(() => {
     return () => {
       console.log("AudioPlayer unmounting. Closing AudioContext.");
-      // Nodes disconnected by Effect 2 cleanup. Close the context.
+      if (sourceRef.current) {
+        console.log("Disconnecting source node.");
+        sourceRef.current.disconnect();
+        sourceRef.current = null;
+      }
+      if (analyserRef.current) {
+        console.log("Disconnecting analyser node.");
+        analyserRef.current.disconnect();
+        analyserRef.current = null;
+      }
       const audioContext = audioContextRef.current;
       if (audioContext && audioContext.state !== 'closed') {
         audioContext.close().catch(e => console.error("Error closing AudioContext on unmount:", e));
@@ -294,40 +288,51 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
     };
   }, [audioUrl]);
 
-  // Toggle Play/Pause handler
-  const togglePlayPause = () => {
+  // Starts playback, resuming the AudioContext first so the visualizer gets data
+  const startPlayback = useCallback(() => {
     const audio = audioRef.current;
-    if (!audio || !audioUrl || isGenerating || isLoadingMetadata || !!error) return;
-
-    // Helper functions to play and pause audio with state updates
+    if (!audio) return;
     const playAudio = () => {
       audio.play()
         .then(() => setIsPlaying(true))
         .catch(e => console.error("Error playing audio:", e));
     };
-    const pauseAudio = () => {
-      audio.pause();
-      setIsPlaying(false);
-    };
-
-    // Ensure AudioContext is active before playback
     const context = ensureAudioContext();
     if (context && context.state === 'suspended') {
       context.resume()
-        .then(() => {
-          if (audio.paused) {
-            playAudio();
-          } else {
-            pauseAudio();
-          }
-        })
+        .then(playAudio)
         .catch(e => console.error("Error resuming AudioContext:", e));
     } else {
-      if (audio.paused) {
-        playAudio();
-      } else {
-        pauseAudio();
-      }
+      playAudio();
+    }
+  }, [ensureAudioContext]);
+
+  // Read through a ref so that finishing the stream doesn't rerun the effect below
+  const isStreamingRef = useRef(isStreaming);
+  useEffect(() => {
+    isStreamingRef.current = isStreaming;
+  }, [isStreaming]);
+
+  // Streamed audio starts playing as soon as the first chunks can play. The browser
+  // may refuse without a recent click, in which case the play button still works.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !audioUrl || !isStreamingRef.current) return;
+    const handleCanPlay = () => startPlayback();
+    audio.addEventListener('canplay', handleCanPlay, { once: true });
+    return () => audio.removeEventListener('canplay', handleCanPlay);
+  }, [audioUrl, startPlayback]);
+
+  // Toggle Play/Pause handler
+  const togglePlayPause = () => {
+    const audio = audioRef.current;
+    if (!audio || !audioUrl || isGenerating || isLoadingMetadata || !!error) return;
+
+    if (audio.paused) {
+      startPlayback();
+    } else {
+      audio.pause();
+      setIsPlaying(false);
     }
   };
 
@@ -355,11 +360,19 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
     // audioRef.current?.load(); // Reset for re-play if desired
   };
 
-  const handleDownload = () => {
-    if (!audioUrl) return;
+  const handleDownload = async () => {
+    if (!downloadUrl) return;
+    // The local engine produces WAV, the others MP3; the blob knows which
+    let extension = 'mp3';
+    try {
+      const blob = await fetch(downloadUrl).then(response => response.blob());
+      if (blob.type === 'audio/wav' || blob.type === 'audio/x-wav') extension = 'wav';
+    } catch (e) {
+      console.error("Error reading audio type:", e);
+    }
     const link = document.createElement('a');
-    link.href = audioUrl;
-    link.download = 'audio-greeting.mp3';
+    link.href = downloadUrl;
+    link.download = `audio-greeting.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -371,34 +384,30 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  // Conditional rendering for loading/generated states
+  // Placeholder for loading/generated states. The <audio> element stays mounted
+  // regardless, since a streaming MediaSource URL can only be attached once.
+  let placeholder: React.ReactNode = null;
   if (isGenerating) {
-    return (
+    placeholder = (
       <div className="p-6 rounded-lg bg-gray-100 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 flex items-center justify-center h-40">
         <Loader2 className="h-8 w-8 text-indigo-600 dark:text-indigo-400 animate-spin" />
         <span className="ml-3 text-gray-600 dark:text-gray-400">Generating audio...</span>
       </div>
     );
-  }
-
-  if (error) {
-    return (
+  } else if (error) {
+    placeholder = (
       <div className="p-6 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-600/50 flex items-center justify-center h-40 text-center">
          <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
       </div>
     );
-  }
-
-  if (!audioUrl) {
-    return (
+  } else if (!audioUrl) {
+    placeholder = (
       <div className="p-6 rounded-lg bg-gray-100 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 flex items-center justify-center h-40 text-center">
         <span className="text-gray-500 dark:text-gray-400">No audio generated yet.</span>
       </div>
     );
-  }
-  
-  if (isLoadingMetadata) {
-    return (
+  } else if (isLoadingMetadata) {
+    placeholder = (
       <div className="p-6 rounded-lg bg-gray-100 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 flex items-center justify-center h-40">
          <Loader2 className="h-6 w-6 text-gray-500 dark:text-gray-400 animate-spin" />
          <span className="ml-3 text-gray-500 dark:text-gray-400">Loading audio...</span>
@@ -406,59 +415,64 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isGenerating }) =>
     );
   }
 
-  // Main player UI
   return (
-    <div className="p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm space-y-3">
-      <audio ref={audioRef} src={audioUrl} crossOrigin="anonymous" preload="metadata"/>
-      
-      <div className="mb-4">
-        <canvas 
-          ref={canvasRef} 
-          width="600" 
-          height="100"
-          className="w-full h-[100px] rounded-md bg-gray-50"
-        />
-      </div>
+    <>
+      {/* src is set by the reset effect above */}
+      <audio ref={audioRef} crossOrigin="anonymous" preload="metadata"/>
+
+      {/* Main player UI */}
+      {placeholder ?? (
+        <div className="p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm space-y-3">
+          <div className="mb-4">
+            <canvas 
+              ref={canvasRef} 
+              width="600" 
+              height="100"
+              className="w-full h-[100px] rounded-md bg-gray-50"
+            />
+          </div>
       
-      <div className="flex items-center space-x-4">
-        <Button 
-          onClick={togglePlayPause} 
-          disabled={!audioUrl || isGenerating || isLoadingMetadata || !!error}
-          variant="ghost"
-          size="sm"
-          className="p-2 rounded-full text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50 disabled:text-gray-400 dark:disabled:text-gray-600"
-        >
-          {isPlaying ? <Pause className="h-6 w-6" /> : <Play className="h-6 w-6" />}
-        </Button>
-
-        <div className="flex-grow">
-          <input 
-            type="range"
-            min="0"
-            max={duration || 1} // Use 1 if duration is 0 to prevent errors
-            value={progress}
-            onChange={handleSeek}
-            disabled={!audioUrl || isGenerating || isLoadingMetadata || !!error || duration === 0}
-            className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-          />
+          <div className="flex items-center space-x-4">
+            <Button 
+              onClick={togglePlayPause} 
+              disabled={!audioUrl || isGenerating || isLoadingMetadata || !!error}
+              variant="ghost"
+              size="sm"
+              className="p-2 rounded-full text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50 disabled:text-gray-400 dark:disabled:text-gray-600"
+            >
+              {isPlaying ? <Pause className="h-6 w-6" /> : <Play className="h-6 w-6" />}
+            </Button>
+
+            <div className="flex-grow">
+              <input 
+                type="range"
+                min="0"
+                max={duration || 1} // Use 1 if duration is 0 to prevent errors
+                value={progress}
+                onChange={handleSeek}
+                disabled={!audioUrl || isGenerating || isLoadingMetadata || !!error || duration === 0}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-500 dark:text-gray-400 mt-2 text-right">
+             {formatTime(progress)} / {duration > 0 ? formatTime(duration) : '--:--'}
+          </div>
+
+          <Button 
+            onClick={handleDownload}
+            disabled={!downloadUrl || isGenerating || isLoadingMetadata || !!error}
+            variant="outline"
+            size="sm"
+            icon={isStreaming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            className="mt-4 w-full sm:w-auto"
+          >
+            {isStreaming ? 'Receiving audio...' : 'Download Audio'}
+          </Button>
         </div>
-      </div>
-
-      <div className="text-sm text-gray-500 dark:text-gray-400 mt-2 text-right">
-         {formatTime(progress)} / {formatTime(duration)}
-      </div>
-
-      <Button 
-        onClick={handleDownload}
-        disabled={!audioUrl || isGenerating || isLoadingMetadata || !!error}
-        variant="outline"
-        size="sm"
-        icon={<Download className="h-4 w-4" />}
-        className="mt-4 w-full sm:w-auto"
-      >
-        Download Audio
-      </Button>
-    </div>
+      )}
+    </>
   );
 };
 
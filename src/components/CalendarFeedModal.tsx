@@ -0,0 +1,172 @@
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { CalendarDays, Copy, CheckCircle, Loader2, AlertCircle, Ban, RefreshCw } from 'lucide-react';
+import Button from './Button';
+import { getCalendarFeed, createCalendarFeed, deleteCalendarFeed, CalendarFeedSettings } from '../services/elevenlabs';
+
+type CalendarFeedModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onUnauthorized: () => void;
+};
+
+const CalendarFeedModal: React.FC<CalendarFeedModalProps> = ({ isOpen, onClose, onUnauthorized }) => {
+  const [feed, setFeed] = useState<CalendarFeedSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const urlInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFailure = useCallback((err: any, fallback: string) => {
+    console.error(fallback, err);
+    if (err.message?.includes('Unauthorized')) {
+      onUnauthorized();
+      return;
+    }
+    setError(err.message || fallback);
+  }, [onUnauthorized]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsCopied(false);
+    setError(null);
+    setIsLoading(true);
+    getCalendarFeed()
+      .then(setFeed)
+      .catch((err) => handleFailure(err, 'Failed to load calendar feed.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, handleFailure]);
+
+  if (!isOpen) return null;
+
+  const handleCreate = async () => {
+    if (feed?.enabled && !window.confirm('Create a new address? Calendars subscribed to the old one will stop updating.')) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      setFeed(await createCalendarFeed());
+    } catch (err: any) {
+      handleFailure(err, 'Failed to create calendar feed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await deleteCalendarFeed();
+      setFeed({ enabled: false, createdAt: null });
+    } catch (err: any) {
+      handleFailure(err, 'Failed to turn off calendar feed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!feed?.url) return;
+    navigator.clipboard.writeText(feed.url).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    }).catch(err => {
+      console.error('Failed to copy feed URL: ', err);
+      urlInputRef.current?.select();
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-teal-100 dark:bg-teal-900/30 flex items-center justify-center mr-3">
+              <CalendarDays className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Calendar Feed</h2>
+          </div>
+
+          <p className="text-gray-600 dark:text-gray-400 mb-4 text-sm">
+            Subscribe to your scheduled greetings from Google Calendar, Apple Calendar or Outlook. Keep the address private: anyone with it can see who you're sending greetings to.
+          </p>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading...
+            </div>
+          ) : feed?.url ? (
+            <>
+              <p className="text-xs text-amber-600 dark:text-amber-400 mb-2">Copy this address now; it won't be shown again.</p>
+              <div className="flex items-center space-x-2">
+                <input
+                  ref={urlInputRef}
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-grow block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 sm:text-sm focus:ring-0 focus:border-gray-300 dark:focus:border-gray-600"
+                  aria-label="Calendar feed address"
+                />
+                <Button
+                  variant="secondary"
+                  onClick={handleCopy}
+                  icon={isCopied ? <CheckCircle className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                >
+                  {isCopied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+            </>
+          ) : feed?.enabled ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your feed has been active since {feed.createdAt ? new Date(feed.createdAt).toLocaleDateString() : 'earlier'}. Create a new address if you've lost it.
+            </p>
+          ) : (
+            <Button variant="secondary" onClick={handleCreate} disabled={isSaving} icon={isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarDays className="h-4 w-4" />}>
+              Create feed address
+            </Button>
+          )}
+
+          {feed?.enabled && !isLoading && (
+            <div className="mt-4 flex items-center gap-4">
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isSaving}
+                className="inline-flex items-center text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                New address
+              </button>
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={isSaving}
+                className="inline-flex items-center text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Ban className="h-4 w-4 mr-1" />}
+                Turn off
+              </button>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedModal;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, Loader2 } from 'lucide-react';
+import Button from './Button';
+import FormField from './FormField';
+import { Contact, ContactRequest, TtsVoice } from '../services/elevenlabs';
+
+type ContactModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (request: ContactRequest) => Promise<void>;
+  contact: Contact | null; // Set when editing an existing contact
+  voices: TtsVoice[];
+};
+
+const RELATIONSHIPS = ['Family', 'Partner', 'Friend', 'Colleague', 'Client'];
+
+// Stored dates without a year look like --MM-DD; show them as MM-DD
+const toInputDate = (value: string | null | undefined) => (value ? value.replace(/^--/, '') : '');
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-teal-500 focus:ring-teal-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm';
+
+const ContactModal: React.FC<ContactModalProps> = ({ isOpen, onClose, onSubmit, contact, voices }) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [birthday, setBirthday] = useState('');
+  const [anniversary, setAnniversary] = useState('');
+  const [preferredVoiceId, setPreferredVoiceId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(contact?.name ?? '');
+    setEmail(contact?.email ?? '');
+    setRelationship(contact?.relationship ?? '');
+    setBirthday(toInputDate(contact?.birthday));
+    setAnniversary(toInputDate(contact?.anniversary));
+    setPreferredVoiceId(contact?.preferredVoiceId ?? '');
+    setNotes(contact?.notes ?? '');
+    setError('');
+  }, [isOpen, contact]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSubmit({
+        name: name.trim(),
+        email: email.trim(),
+        relationship: relationship.trim() || null,
+        birthday: birthday.trim() || null,
+        anniversary: anniversary.trim() || null,
+        preferredVoiceId: preferredVoiceId || null,
+        notes: notes.trim() || null,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save contact');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md max-h-full overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-teal-100 dark:bg-teal-900/30 flex items-center justify-center mr-3">
+              <UserPlus className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">{contact ? 'Edit Contact' : 'Add Contact'}</h2>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <FormField label="Name" htmlFor="contact-name" isRequired>
+              <input type="text" id="contact-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} disabled={isSaving} className={inputClassName} placeholder="e.g., Grandma Rose" />
+            </FormField>
+
+            <FormField label="Email" htmlFor="contact-email" isRequired>
+              <input type="email" id="contact-email" value={email} onChange={(e) => setEmail(e.target.value)} disabled={isSaving} className={inputClassName} placeholder="grandma@example.com" />
+            </FormField>
+
+            <FormField label="Relationship" htmlFor="contact-relationship">
+              <input type="text" id="contact-relationship" list="contact-relationships" value={relationship} onChange={(e) => setRelationship(e.target.value)} maxLength={50} disabled={isSaving} className={inputClassName} />
+              <datalist id="contact-relationships">
+                {RELATIONSHIPS.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </FormField>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField label="Birthday" htmlFor="contact-birthday" description="YYYY-MM-DD or MM-DD">
+                <input type="text" id="contact-birthday" value={birthday} onChange={(e) => setBirthday(e.target.value)} disabled={isSaving} className={inputClassName} placeholder="1956-04-12" />
+              </FormField>
+              <FormField label="Anniversary" htmlFor="contact-anniversary" description="YYYY-MM-DD or MM-DD">
+                <input type="text" id="contact-anniversary" value={anniversary} onChange={(e) => setAnniversary(e.target.value)} disabled={isSaving} className={inputClassName} placeholder="06-21" />
+              </FormField>
+            </div>
+
+            <FormField label="Preferred voice" htmlFor="contact-voice" description="Preselected when you write to this contact">
+              <select id="contact-voice" value={preferredVoiceId} onChange={(e) => setPreferredVoiceId(e.target.value)} disabled={isSaving} className={inputClassName}>
+                <option value="">No preference</option>
+                {voices.map(voice => (
+                  <option key={voice.voice_id} value={voice.voice_id}>{voice.name}</option>
+                ))}
+                {preferredVoiceId && !voices.some(voice => voice.voice_id === preferredVoiceId) && (
+                  <option value={preferredVoiceId}>Unavailable voice</option>
+                )}
+              </select>
+            </FormField>
+
+            <FormField label="Notes" htmlFor="contact-notes" error={error || undefined}>
+              <textarea id="contact-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={1000} disabled={isSaving} className={inputClassName} placeholder="Loves gardening, calls me 'kiddo'" />
+            </FormField>
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="secondary"
+                disabled={isSaving}
+                icon={isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              >
+                {isSaving ? 'Saving...' : contact ? 'Save Changes' : 'Add Contact'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactModal;
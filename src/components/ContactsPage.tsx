@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, UserPlus, Pencil, Trash2, Mic, Loader2, AlertCircle, RefreshCw, CalendarHeart, Upload } from 'lucide-react';
+import Button from './Button';
+import ContactModal from './ContactModal';
+import ImportContactsModal from './ImportContactsModal';
+import { OCCASIONS } from '../constants';
+import { getUpcomingOccasions, Contact, ContactRequest, UpcomingOccasion, TtsVoice } from '../services/elevenlabs';
+
+type ContactsPageProps = {
+  contacts: Contact[];
+  voices: TtsVoice[];
+  isLoading: boolean;
+  error: string | null;
+  busyContactId: string | null; // Contact being deleted
+  onSave: (contact: Contact | null, request: ContactRequest) => Promise<void>;
+  onDelete: (contact: Contact) => void;
+  onRefresh: () => void;
+  onWriteGreeting: (contact: Contact, occasionId?: string) => void;
+  onUnauthorized: () => void;
+};
+
+const UPCOMING_DAYS = 30;
+
+// "Jun 21" for YYYY-MM-DD or --MM-DD
+const formatMonthDay = (value: string) =>
+  new Date(`2000-${value.slice(-5)}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatDaysAway = (daysAway: number) => {
+  if (daysAway === 0) return 'Today';
+  if (daysAway === 1) return 'Tomorrow';
+  return `In ${daysAway} days`;
+};
+
+const describeOccasion = (upcoming: UpcomingOccasion) => {
+  if (upcoming.years === null) {
+    return upcoming.occasion === 'birthday' ? 'Birthday' : 'Anniversary';
+  }
+  return upcoming.occasion === 'birthday' ? `Turns ${upcoming.years}` : `${upcoming.years}-year anniversary`;
+};
+
+const ContactsPage: React.FC<ContactsPageProps> = ({
+  contacts,
+  voices,
+  isLoading,
+  error,
+  busyContactId,
+  onSave,
+  onDelete,
+  onRefresh,
+  onWriteGreeting,
+  onUnauthorized,
+}) => {
+  const [upcoming, setUpcoming] = useState<UpcomingOccasion[]>([]);
+  const [upcomingError, setUpcomingError] = useState<string | null>(null);
+  // null while closed; { contact: null } when adding
+  const [editing, setEditing] = useState<{ contact: Contact | null } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const loadUpcoming = useCallback(async () => {
+    setUpcomingError(null);
+    try {
+      setUpcoming(await getUpcomingOccasions(UPCOMING_DAYS));
+    } catch (err: any) {
+      console.error('Failed to load upcoming occasions:', err);
+      if (err.message?.includes('Unauthorized')) {
+        onUnauthorized();
+        return;
+      }
+      setUpcomingError(err.message || 'Failed to load upcoming occasions.');
+    }
+  }, [onUnauthorized]);
+
+  // Dates change whenever a contact is added, edited or removed
+  useEffect(() => {
+    loadUpcoming();
+  }, [contacts, loadUpcoming]);
+
+  const voiceName = (voiceId: string | null) => voices.find(voice => voice.voice_id === voiceId)?.name;
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 flex items-center mb-4 border-b border-gray-200 dark:border-gray-700 pb-3">
+          <CalendarHeart className="h-5 w-5 mr-2 text-pink-600 dark:text-pink-400" />
+          Coming Up This Month
+        </h2>
+
+        {upcomingError && (
+          <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+            <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {upcomingError}
+          </div>
+        )}
+
+        {upcoming.length === 0 ? (
+          <p className="text-center py-6 text-gray-500 dark:text-gray-400">
+            No birthdays or anniversaries in the next {UPCOMING_DAYS} days.
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {upcoming.map((item) => {
+              const occasion = OCCASIONS.find(o => o.id === item.occasion);
+              const contact = contacts.find(c => c.id === item.contactId);
+              return (
+                <li key={`${item.contactId}-${item.occasion}`} className="flex items-center gap-3 p-3 rounded-md border border-gray-200 dark:border-gray-700">
+                  <span className="text-2xl" aria-hidden="true">{occasion?.emoji}</span>
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{item.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {describeOccasion(item)} · {formatMonthDay(item.date)} · {formatDaysAway(item.daysAway)}
+                    </p>
+                  </div>
+                  {contact && (
+                    <Button variant="ghost" size="sm" onClick={() => onWriteGreeting(contact, item.occasion)} icon={<Mic className="h-4 w-4" />}>
+                      Write
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-4 border-b border-gray-200 dark:border-gray-700 pb-3">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 flex items-center">
+            <Users className="h-5 w-5 mr-2 text-teal-600 dark:text-teal-400" />
+            Contacts
+          </h2>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRefresh}
+              disabled={isLoading}
+              icon={<RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />}
+            >
+              Refresh
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsImportOpen(true)} icon={<Upload className="h-4 w-4" />}>
+              Import
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => setEditing({ contact: null })} icon={<UserPlus className="h-4 w-4" />}>
+              Add Contact
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+            <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {isLoading && contacts.length === 0 ? (
+          <div className="text-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-teal-600 dark:text-teal-400 mx-auto" />
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            Add the people you send greetings to, with their birthdays and anniversaries.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {contacts.map((contact) => {
+              const isBusy = contact.id === busyContactId;
+              const preferredVoice = voiceName(contact.preferredVoiceId);
+              return (
+                <li key={contact.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {contact.name}
+                      {contact.relationship && (
+                        <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">{contact.relationship}</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{contact.email}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-x-3">
+                      {contact.birthday && <span>🎂 {formatMonthDay(contact.birthday)}</span>}
+                      {contact.anniversary && <span>💍 {formatMonthDay(contact.anniversary)}</span>}
+                      {preferredVoice && <span>Voice: {preferredVoice}</span>}
+                    </p>
+                    {contact.notes && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 italic truncate" title={contact.notes}>{contact.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => onWriteGreeting(contact)} icon={<Mic className="h-4 w-4" />}>
+                      Write
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditing({ contact })} disabled={isBusy} icon={<Pencil className="h-4 w-4" />}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete(contact)}
+                      disabled={isBusy}
+                      icon={isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                      className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ContactModal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        onSubmit={(request) => onSave(editing?.contact ?? null, request)}
+        contact={editing?.contact ?? null}
+        voices={voices}
+      />
+
+      <ImportContactsModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={onRefresh}
+        onUnauthorized={onUnauthorized}
+      />
+    </div>
+  );
+};
+
+export default ContactsPage;
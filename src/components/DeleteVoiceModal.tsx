@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, Loader2, AlertCircle } from 'lucide-react';
+import Button from './Button';
+import FormField from './FormField';
+import { getVoiceReferences, TtsVoice, VoiceReferences } from '../services/elevenlabs';
+
+type DeleteVoiceModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reassignTo: string | null) => Promise<void>;
+  voice: TtsVoice | null;
+  voices: TtsVoice[]; // Voices greetings and contacts can be moved to
+  onUnauthorized: () => void;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const DeleteVoiceModal: React.FC<DeleteVoiceModalProps> = ({ isOpen, onClose, onConfirm, voice, voices, onUnauthorized }) => {
+  const [references, setReferences] = useState<VoiceReferences | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !voice) return;
+    setReferences(null);
+    setReassignTo('');
+    setError(null);
+    setIsLoading(true);
+    getVoiceReferences(voice.voice_id)
+      .then(setReferences)
+      .catch((err) => {
+        console.error('Failed to check voice usage:', err);
+        if (err.message?.includes('Unauthorized')) {
+          onUnauthorized();
+          return;
+        }
+        setError(err.message || 'Failed to check where this voice is used.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, voice, onUnauthorized]);
+
+  if (!isOpen || !voice) return null;
+
+  const otherVoices = voices.filter(v => v.voice_id !== voice.voice_id);
+  const isInUse = !!references && (references.greetings > 0 || references.contacts > 0);
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await onConfirm(reassignTo || null);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete voice.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-red-100 dark:bg-red-900/30 flex items-center justify-center mr-3">
+              <Trash2 className="h-5 w-5 text-red-600 dark:text-red-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Delete {voice.name}?</h2>
+          </div>
+
+          <p className="text-gray-600 dark:text-gray-400 mb-4 text-sm">
+            The voice is removed from ElevenLabs and can't be used for new greetings. This can't be undone.
+          </p>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Checking where this voice is used...
+            </div>
+          ) : isInUse && references && (
+            <div className="space-y-4">
+              <div className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 p-3 rounded-md border border-amber-200 dark:border-amber-600/50">
+                <p className="font-medium">This voice is still in use:</p>
+                <ul className="list-disc ml-5 mt-1">
+                  {references.greetings > 0 && <li>{plural(references.greetings, 'saved greeting')}</li>}
+                  {references.scheduledDeliveries > 0 && <li>{plural(references.scheduledDeliveries, 'upcoming delivery')} of those greetings</li>}
+                  {references.contacts > 0 && <li>{plural(references.contacts, 'contact')} with it as their preferred voice</li>}
+                </ul>
+                <p className="mt-2">Saved audio and scheduled deliveries are kept either way.</p>
+              </div>
+
+              <FormField label="Move them to" htmlFor="delete-voice-reassign" description="Greetings are listed under this voice and contacts prefer it from now on">
+                <select
+                  id="delete-voice-reassign"
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  disabled={isDeleting}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 sm:text-sm"
+                >
+                  <option value="">Don't move (contacts lose their preference)</option>
+                  {otherVoices.map(v => (
+                    <option key={v.voice_id} value={v.voice_id}>{v.name}</option>
+                  ))}
+                </select>
+              </FormField>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDelete}
+              disabled={isLoading || isDeleting}
+              icon={isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete Voice'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteVoiceModal;
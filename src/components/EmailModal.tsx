@@ -1,17 +1,33 @@
-import React, { useState } from 'react';
-import { Mail } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Mail, Loader2, CheckCircle, XCircle, Paperclip, Link } from 'lucide-react';
 import Button from './Button';
 import FormField from './FormField';
+import { EmailDeliveryResult, SendEmailRequest } from '../services/elevenlabs';
 
 type EmailModalProps = {
   isOpen: boolean;
   onClose: () => void;
-  onSend: (email: string) => void;
+  onSend: (request: SendEmailRequest) => Promise<EmailDeliveryResult[]>;
+  defaultRecipients?: string[]; // Prefilled from the contact the greeting was written for
 };
 
-const EmailModal: React.FC<EmailModalProps> = ({ isOpen, onClose, onSend }) => {
-  const [email, setEmail] = useState('');
+const MAX_RECIPIENTS = 20;
+
+const EmailModal: React.FC<EmailModalProps> = ({ isOpen, onClose, onSend, defaultRecipients }) => {
+  const [recipientsInput, setRecipientsInput] = useState('');
+  const [senderName, setSenderName] = useState('');
+  const [note, setNote] = useState('');
+  const [delivery, setDelivery] = useState<SendEmailRequest['delivery']>('attachment');
   const [error, setError] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [results, setResults] = useState<EmailDeliveryResult[] | null>(null);
+
+  const defaultRecipientsInput = defaultRecipients?.join(', ') ?? '';
+  useEffect(() => {
+    if (isOpen && defaultRecipientsInput) {
+      setRecipientsInput(defaultRecipientsInput);
+    }
+  }, [isOpen, defaultRecipientsInput]);
 
   if (!isOpen) return null;
 
@@ -19,25 +35,60 @@ const EmailModal: React.FC<EmailModalProps> = ({ isOpen, onClose, onSend }) => {
     return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Recipients can be separated by commas, semicolons, spaces or new lines
+  const parseRecipients = (input: string) => {
+    return Array.from(new Set(input.split(/[\s,;]+/).map(r => r.trim()).filter(Boolean)));
+  };
+
+  const resetForm = () => {
+    setRecipientsInput('');
+    setNote('');
+    setError('');
+    setResults(null);
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!email.trim()) {
-      setError('Please enter an email address');
+
+    const recipients = parseRecipients(recipientsInput);
+    if (recipients.length === 0) {
+      setError('Please enter at least one email address');
       return;
     }
-    
-    if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+    const invalid = recipients.filter(r => !validateEmail(r));
+    if (invalid.length > 0) {
+      setError(`Please check these addresses: ${invalid.join(', ')}`);
       return;
     }
-    
-    onSend(email);
-    setEmail('');
+    if (recipients.length > MAX_RECIPIENTS) {
+      setError(`You can send to at most ${MAX_RECIPIENTS} recipients at once`);
+      return;
+    }
+
+    setIsSending(true);
     setError('');
-    onClose();
+    try {
+      const deliveryResults = await onSend({
+        recipients,
+        senderName: senderName.trim() || undefined,
+        note: note.trim() || undefined,
+        delivery,
+      });
+      setResults(deliveryResults);
+    } catch (err: any) {
+      setError(err.message || 'Failed to send email');
+    } finally {
+      setIsSending(false);
+    }
   };
 
+  const sentCount = results?.filter(r => r.status === 'sent').length ?? 0;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
@@ -48,40 +99,130 @@ const EmailModal: React.FC<EmailModalProps> = ({ isOpen, onClose, onSend }) => {
             </div>
             <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Send via Email</h2>
           </div>
-          
-          <p className="text-gray-600 dark:text-gray-400 mb-6 text-sm">
-            Enter the recipient's email address to send your audio greeting.
-          </p>
-          
-          <form onSubmit={handleSubmit}>
-            <FormField label="Email Address" htmlFor="email">
-              <input
-                type="email"
-                id="email"
-                value={email}
-                onChange={(e) => {
-                  setEmail(e.target.value);
-                  setError('');
-                }}
-                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-teal-500 focus:ring-teal-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm"
-                placeholder="recipient@example.com"
-              />
-              {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
-            </FormField>
-            
-            <div className="flex justify-end space-x-3 mt-6">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button type="submit" variant="secondary">
-                Send Email
-              </Button>
-            </div>
-          </form>
+
+          {results ? (
+            <>
+              <p className="text-gray-600 dark:text-gray-400 mb-4 text-sm">
+                Delivered to {sentCount} of {results.length} recipient{results.length === 1 ? '' : 's'}.
+              </p>
+              <ul className="space-y-2 max-h-60 overflow-y-auto">
+                {results.map(result => (
+                  <li key={result.email} className="flex items-start text-sm">
+                    {result.status === 'sent' ? (
+                      <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-green-500" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-red-500" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-gray-800 dark:text-gray-200 truncate">{result.email}</p>
+                      {result.error && <p className="text-xs text-red-600 dark:text-red-400">{result.error}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end space-x-3 mt-6">
+                <Button type="button" variant="outline" onClick={() => setResults(null)}>
+                  Send to others
+                </Button>
+                <Button type="button" variant="secondary" onClick={handleClose}>
+                  Done
+                </Button>
+              </div>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <FormField
+                label="Recipients"
+                htmlFor="email-recipients"
+                description="Separate multiple addresses with commas or new lines"
+                error={error || undefined}
+              >
+                <textarea
+                  id="email-recipients"
+                  rows={2}
+                  value={recipientsInput}
+                  onChange={(e) => {
+                    setRecipientsInput(e.target.value);
+                    setError('');
+                  }}
+                  disabled={isSending}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-teal-500 focus:ring-teal-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm"
+                  placeholder="grandma@example.com, uncle.joe@example.com"
+                />
+              </FormField>
+
+              <FormField label="Your name" htmlFor="email-sender-name" description="Shown to recipients as the sender">
+                <input
+                  type="text"
+                  id="email-sender-name"
+                  value={senderName}
+                  onChange={(e) => setSenderName(e.target.value)}
+                  maxLength={100}
+                  disabled={isSending}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-teal-500 focus:ring-teal-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm"
+                  placeholder="e.g., Sam"
+                />
+              </FormField>
+
+              <FormField label="Personal note" htmlFor="email-note">
+                <textarea
+                  id="email-note"
+                  rows={3}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={1000}
+                  disabled={isSending}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-teal-500 focus:ring-teal-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm"
+                  placeholder="Optional message to include with the greeting"
+                />
+              </FormField>
+
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Delivery</legend>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { value: 'attachment', label: 'Attach audio', icon: <Paperclip className="h-4 w-4 mr-2" /> },
+                    { value: 'link', label: 'Send share link', icon: <Link className="h-4 w-4 mr-2" /> },
+                  ] as const).map(option => (
+                    <label
+                      key={option.value}
+                      className={`flex items-center justify-center rounded-md border px-3 py-2 text-sm cursor-pointer ${delivery === option.value ? 'border-teal-500 bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300' : 'border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-300'}`}
+                    >
+                      <input
+                        type="radio"
+                        name="email-delivery"
+                        value={option.value}
+                        checked={delivery === option.value}
+                        onChange={() => setDelivery(option.value)}
+                        disabled={isSending}
+                        className="sr-only"
+                      />
+                      {option.icon}
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <Button type="button" variant="outline" onClick={handleClose} disabled={isSending}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant="secondary"
+                  disabled={isSending}
+                  icon={isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                >
+                  {isSending ? 'Sending...' : 'Send Email'}
+                </Button>
+              </div>
+            </form>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default EmailModal;
\ No newline at end of file
+export default EmailModal;
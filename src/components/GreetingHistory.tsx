@@ -0,0 +1,154 @@
+import React from 'react';
+import { History, Play, Download, RotateCcw, Loader2, AlertCircle, RefreshCw, CalendarClock } from 'lucide-react';
+import Button from './Button';
+import { OCCASIONS } from '../constants';
+import { TtsVoice, Greeting } from '../services/elevenlabs';
+
+type GreetingHistoryProps = {
+  greetings: Greeting[];
+  voices: TtsVoice[];
+  isLoading: boolean;
+  error: string | null;
+  activeGreetingId: string | null; // Greeting currently loaded in the player
+  busyGreetingId: string | null;   // Greeting whose audio is being fetched
+  isGenerating: boolean;
+  onReplay: (greeting: Greeting) => void;
+  onDownload: (greeting: Greeting) => void;
+  onRegenerate: (greeting: Greeting) => void;
+  onSchedule: (greeting: Greeting) => void;
+  onRefresh: () => void;
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds == null) return null;
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.round(seconds % 60);
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (isoDate: string) => {
+  return new Date(isoDate).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const GreetingHistory: React.FC<GreetingHistoryProps> = ({
+  greetings,
+  voices,
+  isLoading,
+  error,
+  activeGreetingId,
+  busyGreetingId,
+  isGenerating,
+  onReplay,
+  onDownload,
+  onRegenerate,
+  onSchedule,
+  onRefresh,
+}) => {
+  const voiceName = (voiceId: string) => voices.find(v => v.voice_id === voiceId)?.name || 'Unavailable voice';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-200 dark:border-gray-700 pb-3">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 flex items-center">
+          <History className="h-5 w-5 mr-2 text-blue-600 dark:text-blue-400" />
+          Greeting History
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRefresh}
+          disabled={isLoading}
+          icon={<RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isLoading && greetings.length === 0 ? (
+        <div className="text-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600 dark:text-blue-400 mx-auto" />
+        </div>
+      ) : greetings.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+          Greetings you generate will be saved here.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {greetings.map((greeting) => {
+            const occasion = OCCASIONS.find(o => o.id === greeting.occasion);
+            const isActive = greeting.id === activeGreetingId;
+            const isBusy = greeting.id === busyGreetingId;
+            return (
+              <li
+                key={greeting.id}
+                className={`py-3 flex flex-col sm:flex-row sm:items-center gap-3 ${isActive ? 'bg-blue-50 dark:bg-blue-900/20 -mx-3 px-3 rounded-md' : ''}`}
+              >
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-gray-100 truncate" title={greeting.text}>
+                    {occasion && <span className="mr-1">{occasion.emoji}</span>}
+                    {greeting.text}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {voiceName(greeting.voiceId)}{greeting.presetName && ` (${greeting.presetName})`} · {formatDate(greeting.createdAt)}
+                    {formatDuration(greeting.durationSeconds) && ` · ${formatDuration(greeting.durationSeconds)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onReplay(greeting)}
+                    disabled={isBusy || isGenerating}
+                    icon={isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                  >
+                    Play
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDownload(greeting)}
+                    disabled={isBusy}
+                    icon={<Download className="h-4 w-4" />}
+                  >
+                    Download
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRegenerate(greeting)}
+                    disabled={isGenerating}
+                    icon={<RotateCcw className="h-4 w-4" />}
+                  >
+                    Regenerate
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onSchedule(greeting)}
+                    icon={<CalendarClock className="h-4 w-4" />}
+                  >
+                    Schedule
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GreetingHistory;
@@ -1,17 +1,26 @@
 import React from 'react';
-import { Volume, Settings, LogOut, Moon, Sun } from 'lucide-react';
+import { Volume, Settings, LogOut, Moon, Sun, MonitorSmartphone, BarChart3, Mic, Users } from 'lucide-react';
 import Button from './Button';
-import { CurrentUser } from '../types';
+import { AppPage, CurrentUser } from '../types';
 
 type HeaderProps = {
   onOpenApiKeyModal: () => void;
   currentUser: CurrentUser | null;
   onLogout: () => void;
+  onOpenSessions: () => void;
+  page: AppPage;
+  onChangePage: (page: AppPage) => void;
   theme: string;
   toggleTheme: () => void;
 };
 
-const Header: React.FC<HeaderProps> = ({ onOpenApiKeyModal, currentUser, onLogout, theme, toggleTheme }) => {
+const PAGES: { id: AppPage; label: string; icon: React.ReactNode }[] = [
+  { id: 'studio', label: 'Studio', icon: <Mic className="h-4 w-4" /> },
+  { id: 'contacts', label: 'Contacts', icon: <Users className="h-4 w-4" /> },
+  { id: 'usage', label: 'Usage', icon: <BarChart3 className="h-4 w-4" /> },
+];
+
+const Header: React.FC<HeaderProps> = ({ onOpenApiKeyModal, currentUser, onLogout, onOpenSessions, page, onChangePage, theme, toggleTheme }) => {
   return (
     <header className="bg-white border-b border-gray-200 shadow-sm dark:bg-gray-800 dark:border-gray-700">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -42,6 +51,40 @@ const Header: React.FC<HeaderProps> = ({ onOpenApiKeyModal, currentUser, onLogou
             {currentUser ? (
               <>
                 <span className="text-sm text-gray-600 dark:text-gray-300 hidden sm:inline">Welcome, {currentUser.email}</span>
+                <nav className="flex items-center space-x-1">
+                  {PAGES.map(({ id, label, icon }) => (
+                    <Button
+                      key={id}
+                      onClick={() => onChangePage(id)}
+                      variant="ghost"
+                      size="sm"
+                      icon={icon}
+                      className={page === id
+                        ? 'text-blue-600 bg-blue-50 dark:text-blue-300 dark:bg-blue-900/30'
+                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </nav>
+                <Button
+                  onClick={onOpenApiKeyModal}
+                  variant="ghost"
+                  size="sm"
+                  icon={<Settings className="h-4 w-4" />}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  API Key
+                </Button>
+                <Button
+                  onClick={onOpenSessions}
+                  variant="ghost"
+                  size="sm"
+                  icon={<MonitorSmartphone className="h-4 w-4" />}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  Devices
+                </Button>
                 <Button
                   onClick={onLogout}
                   variant="outline"
@@ -52,17 +95,7 @@ const Header: React.FC<HeaderProps> = ({ onOpenApiKeyModal, currentUser, onLogou
                   Logout
                 </Button>
               </>
-            ) : (
-              <Button
-                onClick={onOpenApiKeyModal}
-                variant="outline"
-                size="sm"
-                icon={<Settings className="h-4 w-4" />}
-                className="text-gray-700 border-gray-300 hover:bg-gray-50 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
-              >
-                API Settings
-              </Button>
-            )}
+            ) : null}
           </div>
         </div>
       </div>
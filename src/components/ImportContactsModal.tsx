@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Upload, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import Button from './Button';
+import { previewContactImport, importContacts, ImportPreviewRow, ContactImportResult } from '../services/elevenlabs';
+
+type ImportContactsModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  onUnauthorized: () => void;
+};
+
+// A preview row plus what the user picked for it
+type ImportRowState = ImportPreviewRow & { selected: boolean; emailInput: string };
+
+const STATUS_LABELS: Record<ImportPreviewRow['status'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  update: { label: 'Adds dates', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  needs_email: { label: 'Needs email', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  duplicate: { label: 'Already saved', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+const formatDate = (value: string | null) => value?.replace(/^--/, '') ?? '';
+
+const ImportContactsModal: React.FC<ImportContactsModalProps> = ({ isOpen, onClose, onImported, onUnauthorized }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [rows, setRows] = useState<ImportRowState[] | null>(null);
+  const [result, setResult] = useState<ContactImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFiles([]);
+      setRows(null);
+      setResult(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFailure = (err: any, fallback: string) => {
+    console.error(fallback, err);
+    if (err.message?.includes('Unauthorized')) {
+      onUnauthorized();
+      return;
+    }
+    setError(err.message || fallback);
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const preview = await previewContactImport(files);
+      setRows(preview.rows.map(row => ({
+        ...row,
+        selected: row.status === 'new' || row.status === 'update',
+        emailInput: row.email ?? '',
+      })));
+    } catch (err: any) {
+      handleFailure(err, 'Failed to read the files.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRowState>) => {
+    setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = (rows ?? []).filter(row => row.selected && isValidEmail(row.emailInput.trim()));
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const imported = await importContacts(selectedRows.map(row => ({
+        name: row.name,
+        email: row.emailInput.trim(),
+        birthday: row.birthday,
+        anniversary: row.anniversary,
+      })));
+      setResult(imported);
+      onImported();
+    } catch (err: any) {
+      handleFailure(err, 'Failed to import contacts.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-teal-100 dark:bg-teal-900/30 flex items-center justify-center mr-3">
+              <Upload className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Import Contacts</h2>
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {result ? (
+            <>
+              <div className="flex items-start text-sm text-gray-700 dark:text-gray-300">
+                <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0 text-green-500" />
+                <p>
+                  Added {result.created} contact{result.created === 1 ? '' : 's'}, added dates to {result.updated}
+                  {result.unchanged > 0 && `, ${result.unchanged} already up to date`}.
+                </p>
+              </div>
+              {result.errors.length > 0 && (
+                <ul className="mt-3 space-y-1 text-xs text-red-600 dark:text-red-400">
+                  {result.errors.map((rowError, index) => (
+                    <li key={index}>{rowError.email || 'Unknown'}: {rowError.error}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex justify-end mt-6">
+                <Button variant="secondary" onClick={onClose}>Done</Button>
+              </div>
+            </>
+          ) : rows ? (
+            <>
+              {rows.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No contacts, birthdays or anniversaries were found in these files.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    Duplicates have been merged. Existing contacts only gain dates they don't have yet.
+                  </p>
+                  <div className="max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-700/50 text-left text-xs text-gray-500 dark:text-gray-400">
+                        <tr>
+                          <th className="p-2 w-8"><span className="sr-only">Import</span></th>
+                          <th className="p-2">Name / email</th>
+                          <th className="p-2">🎂</th>
+                          <th className="p-2">💍</th>
+                          <th className="p-2">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {rows.map((row, index) => (
+                          <tr key={`${row.email ?? row.name}-${index}`} className={row.status === 'duplicate' ? 'opacity-60' : ''}>
+                            <td className="p-2 align-top">
+                              <input
+                                type="checkbox"
+                                checked={row.selected}
+                                disabled={row.status === 'duplicate' || isWorking}
+                                onChange={(e) => updateRow(index, { selected: e.target.checked })}
+                                aria-label={`Import ${row.name}`}
+                              />
+                            </td>
+                            <td className="p-2 align-top">
+                              <p className="font-medium text-gray-900 dark:text-gray-100">{row.name}</p>
+                              {row.status === 'needs_email' ? (
+                                <input
+                                  type="email"
+                                  value={row.emailInput}
+                                  onChange={(e) => updateRow(index, { emailInput: e.target.value, selected: isValidEmail(e.target.value.trim()) })}
+                                  placeholder="Add an email to import"
+                                  disabled={isWorking}
+                                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-xs"
+                                />
+                              ) : (
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{row.email}</p>
+                              )}
+                            </td>
+                            <td className={`p-2 align-top text-xs ${row.changes.includes('birthday') ? 'font-semibold text-blue-600 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300'}`}>{formatDate(row.birthday)}</td>
+                            <td className={`p-2 align-top text-xs ${row.changes.includes('anniversary') ? 'font-semibold text-blue-600 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300'}`}>{formatDate(row.anniversary)}</td>
+                            <td className="p-2 align-top">
+                              <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_LABELS[row.status].className}`}>
+                                {STATUS_LABELS[row.status].label}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-end space-x-3 mt-6">
+                <Button variant="outline" onClick={() => setRows(null)} disabled={isWorking}>Back</Button>
+                <Button
+                  variant="secondary"
+                  onClick={handleImport}
+                  disabled={isWorking || selectedRows.length === 0}
+                  icon={isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                >
+                  {isWorking ? 'Importing...' : `Import ${selectedRows.length}`}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Upload contacts exported from your phone or email (.vcf), or a calendar (.ics) with yearly birthday and anniversary events. You'll see a preview before anything is saved.
+              </p>
+              <input
+                type="file"
+                accept=".vcf,.vcard,.ics,text/vcard,text/calendar"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                disabled={isWorking}
+                className="block w-full text-sm text-gray-600 dark:text-gray-300 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-teal-50 file:text-teal-700 dark:file:bg-teal-900/30 dark:file:text-teal-300"
+              />
+              <div className="flex justify-end space-x-3 mt-6">
+                <Button variant="outline" onClick={onClose} disabled={isWorking}>Cancel</Button>
+                <Button
+                  variant="secondary"
+                  onClick={handlePreview}
+                  disabled={isWorking || files.length === 0}
+                  icon={isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                >
+                  {isWorking ? 'Reading...' : 'Preview'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportContactsModal;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+type JobProgressProps = {
+  stage: string;
+  progress: number; // 0 to 1
+};
+
+// Stages reported by the server's job queue, plus 'sending' for the browser's own upload
+const STAGE_LABELS: Record<string, string> = {
+  sending: 'Sending samples to the server',
+  queued: 'Waiting to start',
+  preparing: 'Preparing samples',
+  uploading: 'Uploading samples',
+  processing: 'Processing voice',
+  synthesizing: 'Generating audio',
+  saving: 'Saving',
+  done: 'Done',
+};
+
+const JobProgress: React.FC<JobProgressProps> = ({ stage, progress }) => {
+  const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+  const label = STAGE_LABELS[stage] ?? stage;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+        <span className="flex items-center">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          {label}...
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div
+        className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full bg-indigo-600 dark:bg-indigo-400 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default JobProgress;
@@ -7,10 +7,12 @@ import FormField from './FormField';
 type LoginFormProps = {
   onLoginSuccess: (data: AuthResponse) => void;
   switchToRegister: () => void;
+  switchToForgotPassword: () => void;
+  notice?: string | null; // e.g. confirmation after a password reset
 };
 
 // Ensure component is defined and exported correctly
-const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess, switchToRegister }) => {
+const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess, switchToRegister, switchToForgotPassword, notice }) => {
   // ... state and handlers from previous correct step ...
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -48,6 +50,12 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess, switchToRegister
         <FormField label="Password" htmlFor="login-password">
           <input id="login-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Enter your password" required autoComplete="current-password" disabled={isLoading} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm disabled:opacity-50" />
         </FormField>
+        <div className="text-right -mt-3">
+          <Button type="button" variant="ghost" onClick={switchToForgotPassword} className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300 hover:underline focus:outline-none p-0 h-auto disabled:opacity-50" disabled={isLoading}>
+            Forgot password?
+          </Button>
+        </div>
+        {notice && !error && <div className="text-sm text-green-600 dark:text-green-300 bg-green-50 dark:bg-green-900/30 p-3 rounded-md border border-green-200 dark:border-green-600/50">{notice}</div>}
         {error && <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50"><AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 text-red-500 dark:text-red-400" />{error}</div>}
         <Button type="submit" variant="primary" className="w-full flex justify-center py-2.5" disabled={isLoading} icon={isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}>
           {isLoading ? 'Logging In...' : 'Log In'}
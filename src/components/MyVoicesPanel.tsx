@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Mic2, Pencil, Trash2, AudioLines } from 'lucide-react';
+import Button from './Button';
+import VoiceEditModal from './VoiceEditModal';
+import DeleteVoiceModal from './DeleteVoiceModal';
+import { TtsVoice, VoiceUpdate } from '../services/elevenlabs';
+
+type MyVoicesPanelProps = {
+  voices: TtsVoice[]; // Every voice the user can use; only their clones are listed
+  onUpdate: (voice: TtsVoice, changes: VoiceUpdate) => Promise<void>;
+  onDelete: (voice: TtsVoice, reassignTo: string | null) => Promise<void>;
+  onManageSamples: (voice: TtsVoice) => void;
+  onUnauthorized: () => void;
+};
+
+const MyVoicesPanel: React.FC<MyVoicesPanelProps> = ({ voices, onUpdate, onDelete, onManageSamples, onUnauthorized }) => {
+  const [editing, setEditing] = useState<TtsVoice | null>(null);
+  const [deleting, setDeleting] = useState<TtsVoice | null>(null);
+
+  const ownVoices = voices.filter(voice => voice.owned);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 flex items-center mb-4 border-b border-gray-200 dark:border-gray-700 pb-3">
+        <Mic2 className="h-5 w-5 mr-2 text-indigo-600 dark:text-indigo-400" />
+        My Voices
+      </h2>
+
+      {ownVoices.length === 0 ? (
+        <p className="text-center py-6 text-gray-500 dark:text-gray-400">
+          Voices you clone in Step 1 appear here, where you can rename them, add samples or delete them.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {ownVoices.map((voice) => (
+            <li key={voice.voice_id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-grow min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{voice.name}</p>
+                {voice.description && <p className="text-sm text-gray-600 dark:text-gray-400 truncate" title={voice.description}>{voice.description}</p>}
+                {voice.labels && Object.keys(voice.labels).length > 0 && (
+                  <p className="mt-1 flex flex-wrap gap-1">
+                    {Object.entries(voice.labels).map(([key, value]) => (
+                      <span key={key} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                        {value ? `${key}: ${value}` : key}
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => onManageSamples(voice)} icon={<AudioLines className="h-4 w-4" />}>
+                  Samples
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEditing(voice)} icon={<Pencil className="h-4 w-4" />}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDeleting(voice)}
+                  icon={<Trash2 className="h-4 w-4" />}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <VoiceEditModal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        onSubmit={(changes) => onUpdate(editing!, changes)}
+        voice={editing}
+      />
+
+      <DeleteVoiceModal
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={(reassignTo) => onDelete(deleting!, reassignTo)}
+        voice={deleting}
+        voices={voices}
+        onUnauthorized={onUnauthorized}
+      />
+    </div>
+  );
+};
+
+export default MyVoicesPanel;
@@ -29,10 +29,10 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onRegisterSuccess, switchTo
     setIsLoading(true);
     try {
       const response: RegisterResponse = await registerUser(email, password);
-      setSuccessMessage(response.message + ". You can now log in.");
+      setSuccessMessage(response.message + " Check your inbox for a link to verify your email, then log in.");
       setEmail('');
       setPassword('');
-      setTimeout(onRegisterSuccess, 2000);
+      setTimeout(onRegisterSuccess, 4000);
     } catch (err: any) {
       console.error("Registration failed:", err);
       setError(err.message || 'An unknown error occurred during registration.');
@@ -0,0 +1,64 @@
+import React, { useState, FormEvent } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { resetPassword } from '../services/elevenlabs';
+import Button from './Button';
+import FormField from './FormField';
+
+type ResetPasswordFormProps = {
+  token: string;
+  onResetSuccess: (message: string) => void;
+  switchToForgotPassword: () => void;
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token, onResetSuccess, switchToForgotPassword }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    if (password.length < MIN_PASSWORD_LENGTH) { setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`); return; }
+    if (password !== confirmPassword) { setError('Passwords do not match.'); return; }
+    setIsLoading(true);
+    try {
+      const message = await resetPassword(token, password);
+      onResetSuccess(message);
+    } catch (err: any) {
+      console.error("Password reset failed:", err);
+      setError(err.message || 'An unknown error occurred while resetting your password.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-white dark:bg-gray-800 p-8 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      <h2 className="text-2xl font-semibold text-center text-gray-800 dark:text-gray-100 mb-2">Choose a New Password</h2>
+      <p className="text-sm text-center text-gray-600 dark:text-gray-400 mb-6">You'll be signed out on all your devices afterwards.</p>
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <FormField label="New Password" htmlFor="reset-password" description={`At least ${MIN_PASSWORD_LENGTH} characters`}>
+          <input id="reset-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Enter a new password" required autoComplete="new-password" disabled={isLoading} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm disabled:opacity-50" />
+        </FormField>
+        <FormField label="Confirm Password" htmlFor="reset-password-confirm">
+          <input id="reset-password-confirm" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="Enter it again" required autoComplete="new-password" disabled={isLoading} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm disabled:opacity-50" />
+        </FormField>
+        {error && <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50"><AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 text-red-500 dark:text-red-400" />{error}</div>}
+        <Button type="submit" variant="primary" className="w-full flex justify-center py-2.5" disabled={isLoading} icon={isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}>
+          {isLoading ? 'Saving...' : 'Reset Password'}
+        </Button>
+        <div className="text-sm text-center text-gray-600 dark:text-gray-400">
+          <span>Link expired? </span>
+          <Button type="button" variant="ghost" onClick={switchToForgotPassword} className="font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300 underline hover:no-underline focus:outline-none p-0 h-auto align-baseline disabled:opacity-50" disabled={isLoading}>
+            Request a new one
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
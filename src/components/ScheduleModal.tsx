@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CalendarClock, Loader2, Paperclip, Link } from 'lucide-react';
+import Button from './Button';
+import FormField from './FormField';
+import { DeliverySchedule, ScheduleRequest } from '../services/elevenlabs';
+
+type ScheduleModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (request: ScheduleRequest) => Promise<void>;
+  schedule: DeliverySchedule | null; // Set when editing an existing delivery
+};
+
+const MAX_RECIPIENTS = 20;
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Intl.supportedValuesOf isn't in the ES2020 lib typings, and older browsers lack it
+const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  return zones.includes(browserTimeZone()) ? zones : [browserTimeZone(), ...zones];
+};
+
+// Tomorrow in the browser's local time, as YYYY-MM-DD
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-teal-500 focus:ring-teal-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm';
+
+const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, onSubmit, schedule }) => {
+  const [date, setDate] = useState(tomorrow());
+  const [time, setTime] = useState('09:00');
+  const [timeZone, setTimeZone] = useState(browserTimeZone());
+  const [recipientsInput, setRecipientsInput] = useState('');
+  const [senderName, setSenderName] = useState('');
+  const [note, setNote] = useState('');
+  const [channel, setChannel] = useState<ScheduleRequest['channel']>('email');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timeZones = useMemo(listTimeZones, []);
+
+  // Start from the delivery being edited, or a blank form for tomorrow morning
+  useEffect(() => {
+    if (!isOpen) return;
+    setDate(schedule?.date ?? tomorrow());
+    setTime(schedule?.time ?? '09:00');
+    setTimeZone(schedule?.timeZone ?? browserTimeZone());
+    setRecipientsInput(schedule?.recipients.join(', ') ?? '');
+    setSenderName(schedule?.senderName ?? '');
+    setNote(schedule?.note ?? '');
+    setChannel(schedule?.channel ?? 'email');
+    setError('');
+  }, [isOpen, schedule]);
+
+  if (!isOpen) return null;
+
+  const validateEmail = (email: string) => {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+  };
+
+  // Recipients can be separated by commas, semicolons, spaces or new lines
+  const parseRecipients = (input: string) => {
+    return Array.from(new Set(input.split(/[\s,;]+/).map(r => r.trim()).filter(Boolean)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const recipients = parseRecipients(recipientsInput);
+    if (recipients.length === 0) {
+      setError('Please enter at least one email address');
+      return;
+    }
+    const invalid = recipients.filter(r => !validateEmail(r));
+    if (invalid.length > 0) {
+      setError(`Please check these addresses: ${invalid.join(', ')}`);
+      return;
+    }
+    if (recipients.length > MAX_RECIPIENTS) {
+      setError(`You can send to at most ${MAX_RECIPIENTS} recipients at once`);
+      return;
+    }
+    if (!date || !time) {
+      setError('Please pick a date and time');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSubmit({
+        recipients,
+        channel,
+        senderName: senderName.trim() || undefined,
+        note: note.trim() || undefined,
+        date,
+        time,
+        timeZone,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to schedule delivery');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md max-h-full overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-teal-100 dark:bg-teal-900/30 flex items-center justify-center mr-3">
+              <CalendarClock className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">{schedule ? 'Edit Delivery' : 'Schedule Delivery'}</h2>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <FormField label="Date" htmlFor="schedule-date">
+                <input type="date" id="schedule-date" value={date} onChange={(e) => setDate(e.target.value)} disabled={isSaving} required className={inputClassName} />
+              </FormField>
+              <FormField label="Time" htmlFor="schedule-time">
+                <input type="time" id="schedule-time" value={time} onChange={(e) => setTime(e.target.value)} disabled={isSaving} required className={inputClassName} />
+              </FormField>
+            </div>
+
+            <FormField label="Time zone" htmlFor="schedule-timezone" description="Delivered at this time in the chosen zone">
+              <select id="schedule-timezone" value={timeZone} onChange={(e) => setTimeZone(e.target.value)} disabled={isSaving} className={inputClassName}>
+                {timeZones.map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </FormField>
+
+            <FormField
+              label="Recipients"
+              htmlFor="schedule-recipients"
+              description="Separate multiple addresses with commas or new lines"
+              error={error || undefined}
+            >
+              <textarea
+                id="schedule-recipients"
+                rows={2}
+                value={recipientsInput}
+                onChange={(e) => {
+                  setRecipientsInput(e.target.value);
+                  setError('');
+                }}
+                disabled={isSaving}
+                className={inputClassName}
+                placeholder="grandma@example.com, uncle.joe@example.com"
+              />
+            </FormField>
+
+            <FormField label="Your name" htmlFor="schedule-sender-name" description="Shown to recipients as the sender">
+              <input
+                type="text"
+                id="schedule-sender-name"
+                value={senderName}
+                onChange={(e) => setSenderName(e.target.value)}
+                maxLength={100}
+                disabled={isSaving}
+                className={inputClassName}
+                placeholder="e.g., Sam"
+              />
+            </FormField>
+
+            <FormField label="Personal note" htmlFor="schedule-note">
+              <textarea
+                id="schedule-note"
+                rows={2}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={1000}
+                disabled={isSaving}
+                className={inputClassName}
+                placeholder="Optional message to include with the greeting"
+              />
+            </FormField>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Delivery</legend>
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { value: 'email', label: 'Attach audio', icon: <Paperclip className="h-4 w-4 mr-2" /> },
+                  { value: 'share_link', label: 'Send share link', icon: <Link className="h-4 w-4 mr-2" /> },
+                ] as const).map(option => (
+                  <label
+                    key={option.value}
+                    className={`flex items-center justify-center rounded-md border px-3 py-2 text-sm cursor-pointer ${channel === option.value ? 'border-teal-500 bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300' : 'border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-300'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="schedule-channel"
+                      value={option.value}
+                      checked={channel === option.value}
+                      onChange={() => setChannel(option.value)}
+                      disabled={isSaving}
+                      className="sr-only"
+                    />
+                    {option.icon}
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="secondary"
+                disabled={isSaving}
+                icon={isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              >
+                {isSaving ? 'Saving...' : schedule ? 'Save Changes' : 'Schedule'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleModal;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { checkScript, ScriptCheck, ScriptMarkup } from '../services/elevenlabs';
+
+type ScriptEditorProps = {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  modelId?: string;      // Markup is checked against this model; the default one if unset
+  maxLength: number;
+  placeholder?: string;
+  disabled?: boolean;
+  onErrorCountChange: (count: number) => void;
+  onUnauthorized: () => void;
+};
+
+// Characters that start markup; text without any is not sent for checking
+const MARKUP_START = /[[*{\\]/;
+const CHECK_DELAY_MS = 400;
+
+const MARKUP_CLASSES: Record<ScriptMarkup['type'], string> = {
+  pause: 'bg-amber-200 dark:bg-amber-700/60',
+  emphasis: 'bg-indigo-200 dark:bg-indigo-700/60',
+  pronunciation: 'bg-emerald-200 dark:bg-emerald-700/60',
+};
+const ERROR_CLASS = 'bg-red-200 dark:bg-red-800/60';
+
+// The textarea and the highlight layer behind it must lay out text identically
+const textLayout = 'px-3 py-2 text-base leading-6 whitespace-pre-wrap break-words';
+
+/**
+ * Greeting text box that highlights script markup ([pause 1.5s], *emphasis*,
+ * {word|respelling}) and lists its mistakes. The server does the parsing; the
+ * highlights are drawn on a layer behind a transparent textarea.
+ */
+const ScriptEditor: React.FC<ScriptEditorProps> = ({
+  id,
+  value,
+  onChange,
+  modelId,
+  maxLength,
+  placeholder,
+  disabled = false,
+  onErrorCountChange,
+  onUnauthorized,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [check, setCheck] = useState<{ text: string; result: ScriptCheck } | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!MARKUP_START.test(value)) {
+      setCheck(null);
+      setCheckError(null);
+      return;
+    }
+    let cancelled = false; // Only the latest text's result may land
+    const timer = setTimeout(() => {
+      checkScript(value, modelId)
+        .then((result) => {
+          if (cancelled) return;
+          setCheck({ text: value, result });
+          setCheckError(null);
+        })
+        .catch((err) => {
+          console.error('Failed to check script:', err);
+          if (err.message?.includes('Unauthorized')) {
+            onUnauthorized();
+            return;
+          }
+          if (!cancelled) setCheckError(err.message || 'Failed to check the markup.');
+        });
+    }, CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, modelId, onUnauthorized]);
+
+  // A result for older text would highlight the wrong characters
+  const current = check && check.text === value ? check.result : null;
+  const errorCount = current?.errors.length ?? 0;
+
+  useEffect(() => {
+    onErrorCountChange(errorCount);
+  }, [errorCount, onErrorCountChange]);
+
+  // Grow with the text instead of scrolling, so the highlight layer never has to follow a scroll
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [value]);
+
+  // Markup first; a mistake overlapping it (e.g. one about the whole script) is only listed
+  const ranges = current
+    ? [
+        ...current.markup.map(markup => ({ ...markup, className: MARKUP_CLASSES[markup.type] })),
+        ...current.errors
+          .filter(error => !current.markup.some(markup => markup.start < error.end && error.start < markup.end))
+          .map(error => ({ start: error.start, end: error.end, className: ERROR_CLASS })),
+      ].sort((a, b) => a.start - b.start)
+    : [];
+  const highlighted: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range) => {
+    if (range.start < position) return;
+    highlighted.push(value.slice(position, range.start));
+    highlighted.push(
+      <mark key={range.start} className={`rounded-sm text-transparent ${range.className}`}>
+        {value.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  highlighted.push(value.slice(position));
+
+  const selectRange = (start: number, end: number) => {
+    textareaRef.current?.focus();
+    textareaRef.current?.setSelectionRange(start, end);
+  };
+
+  return (
+    <div>
+      <div className={`relative rounded-md shadow-sm ${disabled ? 'opacity-50 bg-gray-100 dark:bg-gray-600' : 'bg-white dark:bg-gray-700'}`}>
+        <div aria-hidden="true" className={`absolute inset-0 overflow-hidden text-transparent ${textLayout}`}>
+          {highlighted}
+          {/* Keeps a trailing newline from collapsing */}
+          {' '}
+        </div>
+        <textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={4}
+          maxLength={maxLength}
+          disabled={disabled}
+          spellCheck
+          className={`relative block w-full rounded-md border-gray-300 dark:border-gray-600 focus:border-indigo-500 focus:ring-indigo-500 bg-transparent text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 resize-none overflow-hidden ${textLayout}`}
+        />
+      </div>
+
+      {current && (current.errors.length > 0 || current.warnings.length > 0) && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {current.errors.map((error) => (
+            <li key={`${error.start}-${error.message}`}>
+              <button
+                type="button"
+                onClick={() => selectRange(error.start, error.end)}
+                className="flex items-start text-left text-red-600 dark:text-red-400 hover:underline"
+              >
+                <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                Line {error.line}: {error.message}
+              </button>
+            </li>
+          ))}
+          {current.warnings.map((warning, index) => (
+            <li key={`${index}-${warning}`} className="flex items-start text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+      {checkError && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Couldn't check the markup: {checkError}</p>
+      )}
+    </div>
+  );
+};
+
+export default ScriptEditor;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MonitorSmartphone, Loader2, AlertCircle, LogOut } from 'lucide-react';
+import Button from './Button';
+import { getSessions, revokeSession, UserSession } from '../services/elevenlabs';
+
+type SessionsModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onUnauthorized: () => void;
+};
+
+// Rough "Chrome on Windows" style label from a user agent string
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+};
+
+const SessionsModal: React.FC<SessionsModalProps> = ({ isOpen, onClose, onUnauthorized }) => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleError = useCallback((err: any, fallback: string) => {
+    console.error(fallback, err);
+    if (err.message?.includes('Unauthorized')) {
+      onUnauthorized();
+      return;
+    }
+    setError(err.message || fallback);
+  }, [onUnauthorized]);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSessions(await getSessions());
+    } catch (err: any) {
+      handleError(err, 'Failed to load sessions.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSessions();
+    }
+  }, [isOpen, loadSessions]);
+
+  if (!isOpen) return null;
+
+  // Pass no id to sign out every other device
+  const handleRevoke = async (sessionId?: string) => {
+    setBusySessionId(sessionId ?? 'others');
+    setError(null);
+    try {
+      await revokeSession(sessionId);
+      setSessions(prev => prev.filter(s => (sessionId ? s.id !== sessionId : s.current)));
+    } catch (err: any) {
+      handleError(err, 'Failed to sign out session.');
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.current);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center mr-3">
+              <MonitorSmartphone className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Signed-in Devices</h2>
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading sessions...
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-80 overflow-y-auto">
+              {sessions.map(session => (
+                <li key={session.id} className="flex items-center justify-between py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 text-xs font-normal text-green-700 bg-green-100 dark:text-green-300 dark:bg-green-900/30 rounded px-1.5 py-0.5">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {session.ipAddress ? `${session.ipAddress} · ` : ''}Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={busySessionId !== null}
+                      className="ml-4 inline-flex items-center text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                    >
+                      {busySessionId === session.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <LogOut className="h-4 w-4 mr-1" />}
+                      Sign out
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            {otherSessions.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => handleRevoke()}
+                disabled={busySessionId !== null}
+                icon={busySessionId === 'others' ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              >
+                Sign out other devices
+              </Button>
+            )}
+            <Button variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsModal;
@@ -1,44 +1,78 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Link, Copy, CheckCircle } from 'lucide-react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { Link, Copy, CheckCircle, Loader2, AlertCircle, Ban } from 'lucide-react';
 import Button from './Button';
+import { createShareLink, revokeShareLink, ShareLink } from '../services/elevenlabs';
 
 type ShareLinkModalProps = {
   isOpen: boolean;
   onClose: () => void;
-  audioUrl: string | null;
+  greetingId: string | null;
 };
 
-const ShareLinkModal: React.FC<ShareLinkModalProps> = ({ isOpen, onClose, audioUrl }) => {
-  const [shareableLink, setShareableLink] = useState<string>('');
+const ShareLinkModal: React.FC<ShareLinkModalProps> = ({ isOpen, onClose, greetingId }) => {
+  const [shareLink, setShareLink] = useState<ShareLink | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isRevoking, setIsRevoking] = useState<boolean>(false);
+  const [isRevoked, setIsRevoked] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState<boolean>(false);
   const linkInputRef = useRef<HTMLInputElement>(null);
 
-  // Simulate generating a shareable link
-  // In a real app, this might involve uploading the blob and getting a permanent URL
+  // Ask the server for the greeting's persistent link (created on first use)
+  const loadShareLink = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setError(null);
+    setIsRevoked(false);
+    try {
+      setShareLink(await createShareLink(id));
+    } catch (err: any) {
+      console.error('Failed to create share link:', err);
+      setError(err.message || 'Failed to create share link.');
+      setShareLink(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   useEffect(() => {
-    if (isOpen && audioUrl) {
-      // For now, just use the blob URL. This only works in the user's current browser session.
-      // A real implementation would require backend logic to store the audio and provide a persistent link.
-      setShareableLink(audioUrl);
-      setIsCopied(false); // Reset copied state when modal opens or URL changes
+    setIsCopied(false); // Reset copied state when modal opens or the greeting changes
+    if (isOpen && greetingId) {
+      loadShareLink(greetingId);
     } else {
-      setShareableLink('');
+      setShareLink(null);
+      setError(null);
     }
-  }, [isOpen, audioUrl]);
+  }, [isOpen, greetingId, loadShareLink]);
 
   if (!isOpen) return null;
 
   const handleCopyLink = () => {
-    if (!shareableLink) return;
-    navigator.clipboard.writeText(shareableLink).then(() => {
+    if (!shareLink) return;
+    navigator.clipboard.writeText(shareLink.url).then(() => {
       setIsCopied(true);
       setTimeout(() => setIsCopied(false), 2000); // Reset icon after 2 seconds
     }).catch(err => {
       console.error('Failed to copy link: ', err);
-      // Optionally show an error message to the user
+      linkInputRef.current?.select(); // Let the user copy it manually
     });
   };
 
+  const handleRevoke = async () => {
+    if (!shareLink) return;
+    setIsRevoking(true);
+    setError(null);
+    try {
+      await revokeShareLink(shareLink.slug);
+      setShareLink(null);
+      setIsRevoked(true);
+    } catch (err: any) {
+      console.error('Failed to revoke share link:', err);
+      setError(err.message || 'Failed to revoke share link.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
@@ -49,43 +83,69 @@ const ShareLinkModal: React.FC<ShareLinkModalProps> = ({ isOpen, onClose, audioU
             </div>
             <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Share Audio Link</h2>
           </div>
-          
-          {shareableLink ? (
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {!greetingId ? (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">
+              Generate an audio greeting first to get a shareable link.
+            </p>
+          ) : isLoading ? (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Creating your link...
+            </div>
+          ) : shareLink ? (
             <>
               <p className="text-gray-600 dark:text-gray-400 mb-4 text-sm">
-                Copy the link below to share your audio greeting.
-                <span className="block text-xs text-gray-400 dark:text-gray-500 mt-1">(Note: This link is temporary and only works in your current browser session).</span>
+                Anyone with this link can listen to your greeting, no account needed.
               </p>
               <div className="flex items-center space-x-2">
                 <input
                   ref={linkInputRef}
                   type="text"
                   readOnly
-                  value={shareableLink}
-                  className="flex-grow block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 sm:text-sm focus:ring-0 focus:border-gray-300 dark:focus:border-gray-600 cursor-not-allowed"
+                  value={shareLink.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-grow block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 sm:text-sm focus:ring-0 focus:border-gray-300 dark:focus:border-gray-600"
                   aria-label="Shareable audio link"
                 />
                 <Button
                   variant="secondary"
                   onClick={handleCopyLink}
                   icon={isCopied ? <CheckCircle className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
-                  aria-label={isCopied ? 'Copied' : 'Copy link'}
                 >
                   {isCopied ? 'Copied' : 'Copy'}
                 </Button>
               </div>
+              <button
+                type="button"
+                onClick={handleRevoke}
+                disabled={isRevoking}
+                className="mt-3 inline-flex items-center text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+              >
+                {isRevoking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Ban className="h-4 w-4 mr-1" />}
+                Revoke this link
+              </button>
             </>
-          ) : (
-            <p className="text-gray-500 dark:text-gray-400 text-sm">
-              Generate an audio greeting first to get a shareable link.
-            </p>
-          )}
-          
+          ) : isRevoked ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              <p className="mb-3">The link has been revoked. Anyone who opens it will see that the greeting is unavailable.</p>
+              <Button variant="outline" size="sm" onClick={() => loadShareLink(greetingId)}>
+                Create a new link
+              </Button>
+            </div>
+          ) : null}
+
           <div className="flex justify-end space-x-3 mt-6">
             <Button type="button" variant="outline" onClick={onClose}>
               Close
             </Button>
-            {/* Add other share options if needed */}
           </div>
         </div>
       </div>
@@ -93,4 +153,4 @@ const ShareLinkModal: React.FC<ShareLinkModalProps> = ({ isOpen, onClose, audioU
   );
 };
 
-export default ShareLinkModal;
\ No newline at end of file
+export default ShareLinkModal;
@@ -2,50 +2,117 @@ import React, { useState, useEffect, ChangeEvent, FormEvent } from 'react';
 import { Loader2, Mic, MailCheck, Link, AlertTriangle } from 'lucide-react';
 import Button from './Button';
 import FormField from './FormField';
+import JobProgress from './JobProgress';
+import VoiceSettingsControls from './VoiceSettingsControls';
+import ScriptEditor from './ScriptEditor';
 // Import types from the service file
-import { ElevenLabsVoice } from '../services/elevenlabs';
+import { TtsVoice, TtsModel, QuotaInfo, Contact, Job, VoiceSettings } from '../services/elevenlabs';
+import { OCCASIONS, MAX_CHARACTERS } from '../constants';
+import { GreetingRecipient } from '../types';
 
 // Constants
-const MAX_CHARACTERS = 1000; // Increased character limit
+const LISTED_LANGUAGES = 6;   // Languages named under the model picker before "and N more"
 
 // Define the props, including the new ones for voice list
 type TextToSpeechFormProps = {
-  onSubmit: (data: { voiceId: string; message: string }) => void;
+  onSubmit: (data: { voiceId: string; message: string; occasionId?: string; modelId?: string; voiceSettings?: VoiceSettings; presetId?: string }) => void;
   isGenerating: boolean;
+  generationJob?: Job | null; // Set while a long greeting is generated in the background
   isAudioGenerated: boolean;
   onSendEmail: () => void;
   onShareLink: () => void;
-  availableVoices: ElevenLabsVoice[];
+  availableVoices: TtsVoice[];
+  models: TtsModel[]; // Empty until loaded; the server's default model is used meanwhile
+  characterQuota?: QuotaInfo['characters'] | null;
   isLoadingVoices: boolean;
   voicesError: string | null;
+  contacts: Contact[];
+  recipient: GreetingRecipient | null;
+  onRecipientChange: (recipient: GreetingRecipient | null) => void;
+  onUnauthorized: () => void;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whichever of the contact's birthday and anniversary comes round first, if any
+const nextContactOccasion = (contact: Contact): string | undefined => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const daysUntil = (value: string) => {
+    const [month, day] = value.slice(-5).split('-').map(Number);
+    const next = new Date(today.getFullYear(), month - 1, day);
+    if (next < today) next.setFullYear(today.getFullYear() + 1);
+    return (next.getTime() - today.getTime()) / DAY_MS;
+  };
+  return (['birthday', 'anniversary'] as const)
+    .filter((occasion) => contact[occasion])
+    .sort((a, b) => daysUntil(contact[a]!) - daysUntil(contact[b]!))[0];
 };
 
 const TextToSpeechForm: React.FC<TextToSpeechFormProps> = ({
   onSubmit,
   isGenerating,
+  generationJob,
   isAudioGenerated,
   onSendEmail,
   onShareLink,
   availableVoices,
+  models,
+  characterQuota,
   isLoadingVoices,
   voicesError,
+  contacts,
+  recipient,
+  onRecipientChange,
+  onUnauthorized,
 }) => {
+  const recipientContact = contacts.find(contact => contact.id === recipient?.contactId) ?? null;
   const [message, setMessage] = useState('');
   const [selectedVoiceId, setSelectedVoiceId] = useState<string>('');
+  // A contact picked on the contacts page arrives with the form freshly mounted
+  const [occasionId, setOccasionId] = useState<string>(
+    () => recipient?.occasionId ?? (recipientContact ? nextContactOccasion(recipientContact) : undefined) ?? ''
+  );
   const [characterCount, setCharacterCount] = useState(0);
+  const [selectedModelId, setSelectedModelId] = useState<string>('');
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings | null>(null); // null: the voice's defaults
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [scriptErrorCount, setScriptErrorCount] = useState(0);
 
   // Effect to update character count
   useEffect(() => {
     setCharacterCount(message.length);
   }, [message]);
 
-  // Effect to set a default voice when the list loads
+  // Effect to set a default voice when the list loads: the recipient's preferred one, else the first
   useEffect(() => {
     if (!selectedVoiceId && availableVoices.length > 0) {
-      // Select the first voice by default, or maybe a specific one?
-      setSelectedVoiceId(availableVoices[0].voice_id);
+      const preferred = availableVoices.find(voice => voice.voice_id === recipientContact?.preferredVoiceId);
+      setSelectedVoiceId((preferred ?? availableVoices[0]).voice_id);
     }
-  }, [availableVoices, selectedVoiceId]);
+  }, [availableVoices, selectedVoiceId, recipientContact]);
+
+  // Start on the server's default model, and fall back to it if the chosen one disappears
+  useEffect(() => {
+    if (models.length > 0 && !models.some(model => model.model_id === selectedModelId)) {
+      setSelectedModelId((models.find(model => model.is_default) ?? models[0]).model_id);
+    }
+  }, [models, selectedModelId]);
+
+  const selectedModel = models.find(model => model.model_id === selectedModelId) ?? null;
+  const exceedsModelLimit = selectedModel?.max_characters != null && characterCount > selectedModel.max_characters;
+
+  // Settings and presets are tuned per voice, so start from the new voice's defaults
+  useEffect(() => {
+    setVoiceSettings(null);
+    setPresetId(null);
+  }, [selectedVoiceId]);
+
+  // The tighter of the daily and monthly allowance; null when unlimited or unknown
+  const remainingQuota = [characterQuota?.day.remaining, characterQuota?.month.remaining]
+    .filter((remaining): remaining is number => typeof remaining === 'number')
+    .reduce<number | null>((min, remaining) => (min === null ? remaining : Math.min(min, remaining)), null);
+  const exceedsQuota = remainingQuota !== null && characterCount > remainingQuota;
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -54,20 +121,66 @@ const TextToSpeechForm: React.FC<TextToSpeechFormProps> = ({
       console.error("No voice selected");
       return;
     }
-    onSubmit({ message, voiceId: selectedVoiceId });
+    // Leave out settings the model ignores, so they aren't stored with the greeting either
+    const settings = voiceSettings && {
+      ...voiceSettings,
+      style: selectedModel?.can_use_style === false ? undefined : voiceSettings.style,
+      use_speaker_boost: selectedModel?.can_use_speaker_boost === false ? undefined : voiceSettings.use_speaker_boost,
+    };
+    onSubmit({
+      message,
+      voiceId: selectedVoiceId,
+      occasionId: occasionId || undefined,
+      modelId: selectedModel?.model_id,
+      voiceSettings: settings ?? undefined,
+      presetId: presetId ?? undefined,
+    });
   };
 
-  const handleVoiceChange = (e: ChangeEvent<HTMLSelectElement>) => {
-    setSelectedVoiceId(e.target.value);
+  // Picking a contact prefills the occasion and their preferred voice
+  const handleRecipientChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const contact = contacts.find(c => c.id === e.target.value);
+    if (!contact) {
+      onRecipientChange(null);
+      return;
+    }
+    const nextOccasion = nextContactOccasion(contact);
+    if (nextOccasion) setOccasionId(nextOccasion);
+    if (availableVoices.some(voice => voice.voice_id === contact.preferredVoiceId)) {
+      setSelectedVoiceId(contact.preferredVoiceId!);
+    }
+    onRecipientChange({ contactId: contact.id, occasionId: nextOccasion });
   };
 
-  // Handle message change
-  const handleMessageChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
-    setMessage(e.target.value);
+  const handleVoiceChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setSelectedVoiceId(e.target.value);
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {contacts.length > 0 && (
+        <FormField
+          label="Recipient"
+          htmlFor="recipient-select"
+          description="Optional: prefills the occasion, voice and email address"
+        >
+          <select
+            id="recipient-select"
+            value={recipientContact?.id ?? ''}
+            onChange={handleRecipientChange}
+            disabled={isGenerating}
+            className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 pl-4 pr-10 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+          >
+            <option value="">No one in particular</option>
+            {contacts.map((contact) => (
+              <option key={contact.id} value={contact.id}>
+                {contact.name}{contact.relationship ? ` (${contact.relationship})` : ''}
+              </option>
+            ))}
+          </select>
+        </FormField>
+      )}
+
       <FormField
         label="Select voice"
         htmlFor="voice-select"
@@ -106,35 +219,110 @@ const TextToSpeechForm: React.FC<TextToSpeechFormProps> = ({
         </div>
       </FormField>
 
-      {/* Optionally add back occasion selection or templates if desired */}
-      {/* ... */}
+      {models.length > 1 && (
+        <FormField
+          label="Model"
+          htmlFor="model-select"
+          description={selectedModel && selectedModel.languages.length > 0
+            ? `Speaks ${selectedModel.languages.slice(0, LISTED_LANGUAGES).map(language => language.name).join(', ')}${selectedModel.languages.length > LISTED_LANGUAGES ? ` and ${selectedModel.languages.length - LISTED_LANGUAGES} more` : ''}`
+            : 'Choose the model that turns your message into speech'}
+        >
+          <select
+            id="model-select"
+            value={selectedModelId}
+            onChange={(e) => setSelectedModelId(e.target.value)}
+            disabled={isGenerating}
+            className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 pl-4 pr-10 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+          >
+            {models.map((model) => (
+              <option key={model.model_id} value={model.model_id}>
+                {model.name}{model.description ? ` – ${model.description}` : ''}
+              </option>
+            ))}
+          </select>
+        </FormField>
+      )}
+
+      {selectedVoiceId && (
+        <VoiceSettingsControls
+          voiceId={selectedVoiceId}
+          settings={voiceSettings}
+          presetId={presetId}
+          onChange={(settings, preset) => {
+            setVoiceSettings(settings);
+            setPresetId(preset);
+          }}
+          canUseStyle={selectedModel?.can_use_style ?? true}
+          canUseSpeakerBoost={selectedModel?.can_use_speaker_boost ?? true}
+          disabled={isGenerating}
+          onUnauthorized={onUnauthorized}
+        />
+      )}
+
+      <FormField
+        label="Occasion"
+        htmlFor="occasion-select"
+        description="Optional: tag the greeting so it's easy to find in your history"
+      >
+        <select
+          id="occasion-select"
+          value={occasionId}
+          onChange={(e) => setOccasionId(e.target.value)}
+          disabled={isGenerating}
+          className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 pl-4 pr-10 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+        >
+          <option value="">No particular occasion</option>
+          {OCCASIONS.map((occasion) => (
+            <option key={occasion.id} value={occasion.id}>
+              {occasion.emoji} {occasion.name}
+            </option>
+          ))}
+        </select>
+      </FormField>
 
       <FormField
         label="Your message"
         htmlFor="message"
-        error={message.length > MAX_CHARACTERS ? `Exceeded maximum character limit of ${MAX_CHARACTERS}` : undefined}
+        description="Optional markup: [pause 1.5s] for a beat of silence, *word* for emphasis, {Siobhan|shi-VAWN} to say a name a certain way"
+        error={message.length > MAX_CHARACTERS
+          ? `Exceeded maximum character limit of ${MAX_CHARACTERS.toLocaleString()}`
+          : exceedsQuota ? `This message is longer than your remaining quota of ${remainingQuota} characters` : undefined}
       >
         <div className="relative">
-          <textarea
+          <ScriptEditor
             id="message"
             value={message}
-            onChange={handleMessageChange}
+            onChange={setMessage}
+            modelId={selectedModel?.model_id}
             placeholder="Type your personalized greeting message here..."
-            rows={4}
-            className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 resize-y disabled:opacity-50 disabled:bg-gray-100 dark:disabled:bg-gray-600"
             maxLength={MAX_CHARACTERS}
             disabled={!selectedVoiceId || isGenerating}
+            onErrorCountChange={setScriptErrorCount}
+            onUnauthorized={onUnauthorized}
           />
           <div className={`text-sm mt-2 text-right ${characterCount > MAX_CHARACTERS ? 'text-red-500 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
-            {characterCount}/{MAX_CHARACTERS} characters
+            {characterCount.toLocaleString()}/{MAX_CHARACTERS.toLocaleString()} characters
           </div>
+          {exceedsModelLimit && (
+            <div className="text-xs mt-1 text-right text-gray-500 dark:text-gray-400">
+              Longer than {selectedModel!.name} takes at once ({selectedModel!.max_characters!.toLocaleString()} characters), so it will be generated in parts and joined
+            </div>
+          )}
+          {characterQuota && (characterQuota.day.limit !== null || characterQuota.month.limit !== null) && (
+            <div className={`text-xs mt-1 text-right ${exceedsQuota ? 'text-red-500 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+              {[
+                characterQuota.day.limit !== null && `${characterQuota.day.remaining?.toLocaleString()} left today`,
+                characterQuota.month.limit !== null && `${characterQuota.month.remaining?.toLocaleString()} left this month`,
+              ].filter(Boolean).join(' · ')}
+            </div>
+          )}
         </div>
       </FormField>
 
       <div className="flex flex-wrap gap-3">
         <Button 
           type="submit" 
-          disabled={!message.trim() || !selectedVoiceId || message.length > MAX_CHARACTERS || isGenerating || isLoadingVoices}
+          disabled={!message.trim() || !selectedVoiceId || message.length > MAX_CHARACTERS || scriptErrorCount > 0 || exceedsQuota || isGenerating || isLoadingVoices}
           icon={isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mic className="h-4 w-4 mr-2" />}
           variant="primary"
         >
@@ -162,6 +350,10 @@ const TextToSpeechForm: React.FC<TextToSpeechFormProps> = ({
           </>
         )}
       </div>
+
+      {generationJob && (
+        <JobProgress stage={generationJob.stage} progress={generationJob.progress} />
+      )}
     </form>
   );
 };
@@ -0,0 +1,137 @@
+import React from 'react';
+import { CalendarClock, CalendarDays, Pencil, X, Loader2, AlertCircle, RefreshCw, Paperclip, Link } from 'lucide-react';
+import Button from './Button';
+import { OCCASIONS } from '../constants';
+import { DeliverySchedule } from '../services/elevenlabs';
+
+type UpcomingDeliveriesProps = {
+  schedules: DeliverySchedule[];
+  isLoading: boolean;
+  error: string | null;
+  busyScheduleId: string | null; // Delivery being cancelled
+  onEdit: (schedule: DeliverySchedule) => void;
+  onCancel: (schedule: DeliverySchedule) => void;
+  onRefresh: () => void;
+  onOpenCalendarFeed: () => void;
+};
+
+// "Sat, Jun 1, 9:00 AM" in the zone the sender picked
+const formatScheduledTime = (schedule: DeliverySchedule) => {
+  return new Date(schedule.scheduledFor).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: schedule.timeZone,
+  });
+};
+
+const UpcomingDeliveries: React.FC<UpcomingDeliveriesProps> = ({
+  schedules,
+  isLoading,
+  error,
+  busyScheduleId,
+  onEdit,
+  onCancel,
+  onRefresh,
+  onOpenCalendarFeed,
+}) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-200 dark:border-gray-700 pb-3">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-teal-600 dark:text-teal-400" />
+          Upcoming Deliveries
+        </h2>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onOpenCalendarFeed} icon={<CalendarDays className="h-4 w-4" />}>
+            Calendar Feed
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRefresh}
+            disabled={isLoading}
+            icon={<RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />}
+          >
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50 mb-4">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isLoading && schedules.length === 0 ? (
+        <div className="text-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-teal-600 dark:text-teal-400 mx-auto" />
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+          Schedule a greeting from your history to have it sent on the day.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {schedules.map((schedule) => {
+            const occasion = OCCASIONS.find(o => o.id === schedule.occasion);
+            const isBusy = schedule.id === busyScheduleId;
+            const isSending = schedule.status === 'sending';
+            return (
+              <li key={schedule.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {formatScheduledTime(schedule)}
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{schedule.timeZone.replace(/_/g, ' ')}</span>
+                  </p>
+                  <p className="text-sm text-gray-700 dark:text-gray-300 truncate mt-0.5" title={schedule.greetingText}>
+                    {occasion && <span className="mr-1">{occasion.emoji}</span>}
+                    {schedule.greetingText}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 flex items-center">
+                    {schedule.channel === 'share_link' ? <Link className="h-3 w-3 mr-1" /> : <Paperclip className="h-3 w-3 mr-1" />}
+                    To {schedule.recipients.join(', ')}
+                  </p>
+                  {isSending && <p className="text-xs text-teal-600 dark:text-teal-400 mt-1">Sending now...</p>}
+                  {schedule.lastError && !isSending && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                      Attempt {schedule.attempts} failed ({schedule.lastError}).
+                      {schedule.nextAttemptAt && ` Retrying at ${new Date(schedule.nextAttemptAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}.`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEdit(schedule)}
+                    disabled={isBusy || isSending}
+                    icon={<Pencil className="h-4 w-4" />}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onCancel(schedule)}
+                    disabled={isBusy || isSending}
+                    icon={isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingDeliveries;
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BarChart3, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import Button from './Button';
+import { getUsage, getAdminUsage, UsageSummary, AdminUsageSummary, TtsVoice } from '../services/elevenlabs';
+
+type UsageDashboardProps = {
+  voices: TtsVoice[];
+  isAdmin: boolean;
+  onUnauthorized: () => void;
+};
+
+type Scope = 'mine' | 'all';
+
+const RANGES = [7, 30, 90];
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// "May 27" for a YYYY-MM-DD string; the server buckets days in UTC
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+    <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+    <p className="mt-1 text-2xl font-semibold text-gray-900 dark:text-gray-100">{value}</p>
+    {hint && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{hint}</p>}
+  </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ voices, isAdmin, onUnauthorized }) => {
+  const [days, setDays] = useState(30);
+  const [scope, setScope] = useState<Scope>('mine');
+  const [usage, setUsage] = useState<UsageSummary | AdminUsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setUsage(scope === 'all' ? await getAdminUsage(days) : await getUsage(days));
+    } catch (err: any) {
+      console.error('Failed to load usage:', err);
+      if (err.message?.includes('Unauthorized')) {
+        onUnauthorized();
+        return;
+      }
+      setError(err.message || 'Failed to load usage.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days, scope, onUnauthorized]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const voiceName = (voiceId: string) => voices.find(v => v.voice_id === voiceId)?.name || voiceId;
+
+  const maxDailyCharacters = usage ? Math.max(1, ...usage.daily.map(d => d.characters)) : 1;
+  const maxVoiceCharacters = usage ? Math.max(1, ...usage.byVoice.map(v => v.characters)) : 1;
+  const byUser = usage && 'byUser' in usage ? usage.byUser : null;
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm font-medium rounded-md ${active
+      ? 'bg-blue-600 text-white dark:bg-blue-700'
+      : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center">
+          <BarChart3 className="h-6 w-6 text-blue-600 dark:text-blue-400 mr-2" />
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Usage</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {isAdmin && (
+            <div className="flex space-x-1 bg-white dark:bg-gray-800 p-1 rounded-lg border border-gray-200 dark:border-gray-700">
+              <button onClick={() => setScope('mine')} className={toggleClass(scope === 'mine')}>My usage</button>
+              <button onClick={() => setScope('all')} className={toggleClass(scope === 'all')}>All users</button>
+            </div>
+          )}
+          <div className="flex space-x-1 bg-white dark:bg-gray-800 p-1 rounded-lg border border-gray-200 dark:border-gray-700">
+            {RANGES.map(range => (
+              <button key={range} onClick={() => setDays(range)} className={toggleClass(days === range)}>
+                {range} days
+              </button>
+            ))}
+          </div>
+          <Button onClick={loadUsage} variant="ghost" size="sm" disabled={isLoading} icon={<RefreshCw className="h-4 w-4" />}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-md border border-red-200 dark:border-red-600/50">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 text-red-500 dark:text-red-400" />{error}
+        </div>
+      )}
+
+      {isLoading && !usage ? (
+        <div className="text-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600 dark:text-blue-400 mx-auto" />
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Loading usage...</p>
+        </div>
+      ) : usage ? (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard label="Characters" value={formatNumber(usage.totals.characters)} hint="Billed, excluding cache hits" />
+            <StatCard
+              label="Requests"
+              value={formatNumber(usage.totals.requests)}
+              hint={`${formatNumber(usage.totals.cacheHits)} cached, ${formatNumber(usage.totals.failures)} failed`}
+            />
+            <StatCard label="Audio generated" value={formatBytes(usage.totals.bytes)} hint={`${formatNumber(usage.totals.clones)} voices cloned`} />
+            <StatCard label="Average latency" value={usage.totals.avgLatencyMs !== null ? `${formatNumber(usage.totals.avgLatencyMs)} ms` : '—'} />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-medium text-gray-800 dark:text-gray-100 mb-4">Characters by day</h3>
+            <div className="flex items-end h-48 gap-px" role="img" aria-label="Characters generated per day">
+              {usage.daily.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 h-full flex items-end group relative"
+                  title={`${formatDay(day.date)}: ${formatNumber(day.characters)} characters, ${formatNumber(day.requests)} requests`}
+                >
+                  <div
+                    className="w-full bg-blue-500 dark:bg-blue-600 group-hover:bg-blue-600 dark:group-hover:bg-blue-500 rounded-t-sm"
+                    style={{ height: `${(day.characters / maxDailyCharacters) * 100}%`, minHeight: day.characters > 0 ? '2px' : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{formatDay(usage.from)}</span>
+              <span>{formatDay(usage.to)}</span>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-medium text-gray-800 dark:text-gray-100 mb-4">Characters by voice</h3>
+            {usage.byVoice.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No audio generated in this period.</p>
+            ) : (
+              <ul className="space-y-3">
+                {usage.byVoice.map(voice => (
+                  <li key={voice.voiceId}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-700 dark:text-gray-200 truncate">{voiceName(voice.voiceId)}</span>
+                      <span className="text-gray-500 dark:text-gray-400 ml-4 flex-shrink-0">
+                        {formatNumber(voice.characters)} chars · {formatNumber(voice.requests)} requests
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-500 dark:bg-blue-600 rounded-full" style={{ width: `${(voice.characters / maxVoiceCharacters) * 100}%` }} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {byUser && (
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-medium text-gray-800 dark:text-gray-100 mb-4">Characters by user</h3>
+              {byUser.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No audio generated in this period.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 font-medium">User</th>
+                      <th className="py-2 font-medium text-right">Requests</th>
+                      <th className="py-2 font-medium text-right">Characters</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byUser.map(user => (
+                      <tr key={user.userId} className="border-b border-gray-100 dark:border-gray-700/60 last:border-0">
+                        <td className="py-2 text-gray-700 dark:text-gray-200">{user.email ?? user.userId}</td>
+                        <td className="py-2 text-right text-gray-600 dark:text-gray-300">{formatNumber(user.requests)}</td>
+                        <td className="py-2 text-right text-gray-600 dark:text-gray-300">{formatNumber(user.characters)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default UsageDashboard;
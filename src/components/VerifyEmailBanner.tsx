@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { MailWarning, Loader2 } from 'lucide-react';
+import { resendVerificationEmail } from '../services/elevenlabs';
+
+type VerifyEmailBannerProps = {
+  email: string;
+  onUnauthorized: () => void;
+  onCheckAgain: () => void;
+};
+
+const VerifyEmailBanner: React.FC<VerifyEmailBannerProps> = ({ email, onUnauthorized, onCheckAgain }) => {
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    setError(null);
+    try {
+      setMessage(await resendVerificationEmail());
+    } catch (err: any) {
+      console.error('Failed to resend verification email:', err);
+      if (err.message?.includes('Unauthorized')) {
+        onUnauthorized();
+        return;
+      }
+      setError(err.message || 'Failed to resend verification email.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 dark:bg-yellow-900/30 dark:border-yellow-700/60 dark:text-yellow-200 rounded-lg p-4 mb-6 flex items-start">
+      <MailWarning className="h-5 w-5 text-yellow-500 dark:text-yellow-400 mr-3 flex-shrink-0 mt-0.5" />
+      <div className="flex-grow text-sm">
+        <h3 className="font-medium">Verify your email address</h3>
+        <p className="mt-1">
+          We sent a confirmation link to <span className="font-medium">{email}</span>. Voice cloning and audio generation unlock once you open it.
+        </p>
+        {message && <p className="mt-1 text-green-700 dark:text-green-300">{message}</p>}
+        {error && <p className="mt-1 text-red-700 dark:text-red-300">{error}</p>}
+        <div className="mt-2 flex items-center space-x-4">
+          <button onClick={handleResend} disabled={isSending} className="inline-flex items-center font-medium hover:underline disabled:opacity-50">
+            {isSending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Resend email
+          </button>
+          <button onClick={onCheckAgain} className="font-medium hover:underline">
+            I've verified it
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
@@ -1,16 +1,24 @@
 import React, { useState, useCallback, ChangeEvent, FormEvent, useRef, useEffect } from 'react';
 import { UploadCloud, Loader2, AlertCircle, Mic, Square, Play, Trash2, AlertTriangle, CheckCircle, FileAudio, Info } from 'lucide-react';
-import { addVoice, AddVoiceResponse } from '../services/elevenlabs';
+import { startVoiceClone, addVoiceSamples, getActiveJobs, watchJob, AddVoiceResponse, Job, TtsVoice } from '../services/elevenlabs';
 import Button from './Button';
 import FormField from './FormField';
+import JobProgress from './JobProgress';
+import VoiceSamplesList from './VoiceSamplesList';
 
 type VoiceCloningFormProps = {
   onVoiceCloned: (newVoice: AddVoiceResponse) => void;
+  voices: TtsVoice[]; // The user's own clones can be picked to add samples to
+  targetVoiceId: string | null; // Clone to add samples to; null to create a new voice
+  onTargetVoiceChange: (voiceId: string | null) => void;
 };
 
 type InputMode = 'upload' | 'record';
 
-const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) => {
+const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned, voices, targetVoiceId, onTargetVoiceChange }) => {
+  const ownVoices = voices.filter(voice => voice.owned);
+  // Falls back to creating a voice if the target was deleted or isn't loaded yet
+  const targetVoice = ownVoices.find(voice => voice.voice_id === targetVoiceId) ?? null;
   const [voiceName, setVoiceName] = useState('');
   const [inputMode, setInputMode] = useState<InputMode>('upload'); // 'upload' or 'record'
   
@@ -30,6 +38,56 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0); // Share of the samples sent to the server
+  const [job, setJob] = useState<Job | null>(null); // Clone or samples job running on the server
+  const [samplesRefreshKey, setSamplesRefreshKey] = useState(0);
+  const jobId = job?.id;
+  const isBusy = isLoading || !!job;
+  const isAddingSamples = job ? job.type === 'samples' : !!targetVoice;
+
+  // Kept in a ref so a new callback from the parent doesn't restart the job stream
+  const onVoiceClonedRef = useRef(onVoiceCloned);
+  useEffect(() => {
+    onVoiceClonedRef.current = onVoiceCloned;
+  }, [onVoiceCloned]);
+
+  // A clone started before a page reload keeps running on the server; pick it back up
+  useEffect(() => {
+    Promise.all([getActiveJobs('clone'), getActiveJobs('samples')])
+      .then(([clones, samples]) => {
+        const running = [...clones, ...samples];
+        if (running.length > 0) setJob(current => current ?? running[0]);
+      })
+      .catch(err => console.error('Failed to check for running voice clones:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!jobId) return;
+    const controller = new AbortController();
+    watchJob(jobId, setJob, controller.signal)
+      .then(finished => {
+        if (finished.status === 'succeeded' && finished.result && finished.type === 'samples') {
+          setStatusMessage(`Samples added to '${(finished.result as AddVoiceResponse).name}'.`);
+          setSamplesRefreshKey(key => key + 1);
+        } else if (finished.status === 'succeeded' && finished.result) {
+          const newVoice = finished.result as AddVoiceResponse;
+          setStatusMessage(`Voice '${newVoice.name}' created successfully! Voice ID: ${newVoice.voice_id}`);
+          onVoiceClonedRef.current(newVoice);
+        } else {
+          setError(finished.error || (finished.type === 'samples' ? 'Adding samples failed.' : 'Voice cloning failed.'));
+          setStatusMessage(null);
+        }
+        setJob(null);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Lost track of voice cloning job:', err);
+        setError(err.message || 'Lost track of the voice cloning job.');
+        setStatusMessage(null);
+        setJob(null);
+      });
+    return () => controller.abort();
+  }, [jobId]);
 
   // --- Upload Mode Handlers ---
   const handleFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
@@ -171,14 +229,14 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
     setError(null);
     setStatusMessage(null);
 
-    if (!voiceName.trim()) {
+    if (!targetVoice && !voiceName.trim()) {
       setError('Please enter a name for the voice.');
       return;
     }
 
     let hasAudio = false;
     const formData = new FormData();
-    formData.append('name', voiceName.trim());
+    if (!targetVoice) formData.append('name', voiceName.trim());
 
     if (inputMode === 'upload') {
         if (!files || files.length === 0) {
@@ -215,12 +273,17 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
     }
 
     setIsLoading(true);
-    setStatusMessage('Uploading samples and creating voice...');
+    setUploadProgress(0);
 
     try {
-      const newVoice = await addVoice(formData);
-      setStatusMessage(`Voice '${newVoice.name}' created successfully! Voice ID: ${newVoice.voice_id}`);
-      onVoiceCloned(newVoice);
+      // The server takes it from here; the job effect reports the outcome
+      const queued = targetVoice
+        ? await addVoiceSamples(targetVoice.voice_id, formData, setUploadProgress)
+        : await startVoiceClone(formData, setUploadProgress);
+      setJob(queued);
+      setStatusMessage(targetVoice
+        ? `Adding samples to '${targetVoice.name}'. You can leave this page; it will keep going.`
+        : `Creating voice '${queued.summary ?? voiceName.trim()}'. You can leave this page; it will keep going.`);
       // Reset form
       setVoiceName('');
       setFiles(null);
@@ -237,17 +300,43 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
     } finally {
       setIsLoading(false);
     }
-  }, [voiceName, files, inputMode, recordedChunks, onVoiceCloned, playbackUrl]);
+  }, [targetVoice, voiceName, files, inputMode, recordedChunks, playbackUrl]);
 
   // --- UI Rendering ---
   return (
     <div className="bg-white p-6 rounded-lg shadow border border-gray-200 dark:bg-gray-800 dark:border-gray-700">
-      <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-gray-300">Create Instant Voice Clone</h2>
+      <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-gray-300">
+        {targetVoice ? `Add Samples to ${targetVoice.name}` : 'Create Instant Voice Clone'}
+      </h2>
       <p className="text-sm text-gray-600 mb-4 dark:text-gray-400">
-        Upload 1-30 audio samples (at least 1 minute total, without background noise) 
-        or record directly using your microphone to create a voice clone.
+        {targetVoice
+          ? 'More clean audio usually makes a clone sound closer to the speaker. Upload files or record new clips to add to this voice.'
+          : <>Upload 1-30 audio samples (at least 1 minute total, without background noise) 
+            or record directly using your microphone to create a voice clone.</>}
       </p>
 
+      {/* New voice or one of the user's clones */}
+      {ownVoices.length > 0 && (
+        <FormField label="Voice" htmlFor="clone-target-select" className="mb-4">
+          <select
+            id="clone-target-select"
+            value={targetVoice?.voice_id ?? ''}
+            onChange={(e) => {
+              onTargetVoiceChange(e.target.value || null);
+              setError(null);
+              setStatusMessage(null);
+            }}
+            disabled={isBusy}
+            className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+          >
+            <option value="">Create a new voice</option>
+            {ownVoices.map(voice => (
+              <option key={voice.voice_id} value={voice.voice_id}>Add samples to {voice.name}</option>
+            ))}
+          </select>
+        </FormField>
+      )}
+
       {/* Mode Switcher */}
       <div className="mb-4 flex border-b border-gray-200 dark:border-gray-700">
         <button
@@ -267,7 +356,10 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
       </div>
       
       <form onSubmit={handleSubmit} className="space-y-4">
-        {/* Voice Name Input (Common to both modes) */}
+        {/* Existing samples when adding to a voice, otherwise the new voice's name */}
+        {targetVoice ? (
+          <VoiceSamplesList voiceId={targetVoice.voice_id} refreshKey={samplesRefreshKey} />
+        ) : (
         <FormField
           label="Voice Name"
           htmlFor="voice-name-input"
@@ -279,10 +371,11 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
             onChange={(e: ChangeEvent<HTMLInputElement>) => setVoiceName(e.target.value)}
             placeholder="e.g., My Voice Clone"
             required
-            disabled={isLoading}
+            disabled={isBusy}
             className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
           />
         </FormField>
+        )}
 
         {/* === Upload Mode UI === */}
         {inputMode === 'upload' && (
@@ -297,7 +390,7 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
                 <div className="flex text-sm text-gray-600 dark:text-gray-400">
                   <label
                     htmlFor="audio-files-input"
-                    className={`relative cursor-pointer bg-white rounded-md font-medium text-indigo-600 hover:text-indigo-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-indigo-500 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    className={`relative cursor-pointer bg-white rounded-md font-medium text-indigo-600 hover:text-indigo-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-indigo-500 ${isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
                   >
                     <span>Upload files</span>
                     <input 
@@ -308,7 +401,7 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
                       accept="audio/*,.m4a,.mp3,.wav,.ogg,.aac,.flac"
                       className="sr-only" 
                       onChange={handleFileChange}
-                      disabled={isLoading}
+                      disabled={isBusy}
                     />
                   </label>
                   <p className="pl-1">or drag and drop</p>
@@ -355,7 +448,7 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
                              variant={isRecording ? "secondary" : "secondary"}
                              className={isRecording ? 'text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300' : ''}
                              icon={isRecording ? <Square className="h-4 w-4"/> : <Mic className="h-4 w-4"/>}
-                             disabled={isLoading}
+                             disabled={isBusy}
                          >
                            {isRecording ? 'Stop Recording' : 'Start Recording'}
                          </Button>
@@ -406,6 +499,13 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
             </div>
         )}
 
+        {/* Upload and cloning progress */}
+        {isLoading ? (
+          <JobProgress stage="sending" progress={uploadProgress} />
+        ) : job && (
+          <JobProgress stage={job.stage} progress={job.progress} />
+        )}
+
         {/* Status/Error Messages (Common) */}
         {statusMessage && !error && (
           <div className="text-sm text-blue-600 bg-blue-50 p-3 rounded-md dark:bg-blue-900/30">{statusMessage}</div>
@@ -422,10 +522,12 @@ const VoiceCloningForm: React.FC<VoiceCloningFormProps> = ({ onVoiceCloned }) =>
           type="submit" 
           variant="primary"
           className="w-full flex justify-center"
-          disabled={isLoading || !voiceName.trim() || (inputMode === 'upload' && (!files || files.length === 0)) || (inputMode === 'record' && recordedChunks.length === 0)}
-          icon={isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          disabled={isBusy || (!targetVoice && !voiceName.trim()) || (inputMode === 'upload' && (!files || files.length === 0)) || (inputMode === 'record' && recordedChunks.length === 0)}
+          icon={isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
         >
-          {isLoading ? 'Creating Voice...' : 'Create Voice Clone'}
+          {isBusy
+            ? (isAddingSamples ? 'Adding Samples...' : 'Creating Voice...')
+            : (targetVoice ? 'Add Samples' : 'Create Voice Clone')}
         </Button>
       </form>
     </div>
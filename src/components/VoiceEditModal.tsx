@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { Pencil, Plus, X, Loader2 } from 'lucide-react';
+import Button from './Button';
+import FormField from './FormField';
+import { TtsVoice, VoiceUpdate } from '../services/elevenlabs';
+
+type VoiceEditModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (changes: VoiceUpdate) => Promise<void>;
+  voice: TtsVoice | null;
+};
+
+// The server accepts at most this many labels per voice
+const MAX_LABELS = 10;
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm';
+
+const VoiceEditModal: React.FC<VoiceEditModalProps> = ({ isOpen, onClose, onSubmit, voice }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [labels, setLabels] = useState<{ key: string; value: string }[]>([]);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(voice?.name ?? '');
+    setDescription(voice?.description ?? '');
+    setLabels(Object.entries(voice?.labels ?? {}).map(([key, value]) => ({ key, value })));
+    setError('');
+  }, [isOpen, voice]);
+
+  if (!isOpen || !voice) return null;
+
+  const updateLabel = (index: number, changes: Partial<{ key: string; value: string }>) => {
+    setLabels(prev => prev.map((label, i) => (i === index ? { ...label, ...changes } : label)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+    const filledLabels = labels.filter(label => label.key.trim());
+    if (new Set(filledLabels.map(label => label.key.trim())).size !== filledLabels.length) {
+      setError('Each label needs a different name');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSubmit({
+        name: name.trim(),
+        description: description.trim(),
+        labels: Object.fromEntries(filledLabels.map(label => [label.key.trim(), label.value.trim()])),
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save voice');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md max-h-full overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center mr-3">
+              <Pencil className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Edit Voice</h2>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <FormField label="Name" htmlFor="voice-edit-name" isRequired>
+              <input type="text" id="voice-edit-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} disabled={isSaving} className={inputClassName} />
+            </FormField>
+
+            <FormField label="Description" htmlFor="voice-edit-description">
+              <textarea id="voice-edit-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} maxLength={500} disabled={isSaving} className={inputClassName} />
+            </FormField>
+
+            <FormField label="Labels" htmlFor="voice-edit-label-0" description="e.g. accent: british" error={error || undefined}>
+              <div className="space-y-2 mt-1">
+                {labels.map((label, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input type="text" id={`voice-edit-label-${index}`} value={label.key} onChange={(e) => updateLabel(index, { key: e.target.value })} maxLength={50} disabled={isSaving} className={inputClassName} placeholder="Label" aria-label="Label name" />
+                    <input type="text" value={label.value} onChange={(e) => updateLabel(index, { value: e.target.value })} maxLength={100} disabled={isSaving} className={inputClassName} placeholder="Value" aria-label="Label value" />
+                    <button
+                      type="button"
+                      onClick={() => setLabels(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isSaving}
+                      className="mt-1 p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    >
+                      <span className="sr-only">Remove label</span>
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                {labels.length < MAX_LABELS && (
+                  <button
+                    type="button"
+                    onClick={() => setLabels(prev => [...prev, { key: '', value: '' }])}
+                    disabled={isSaving}
+                    className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add label
+                  </button>
+                )}
+              </div>
+            </FormField>
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                disabled={isSaving}
+                icon={isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              >
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceEditModal;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Square, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import Button from './Button';
+import { getVoiceSamples, getVoiceSampleAudio, deleteVoiceSample, VoiceSample } from '../services/elevenlabs';
+
+type VoiceSamplesListProps = {
+  voiceId: string;
+  refreshKey: number; // Changes when samples were added, to reload the list
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return null;
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}`;
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const VoiceSamplesList: React.FC<VoiceSamplesListProps> = ({ voiceId, refreshKey }) => {
+  const [samples, setSamples] = useState<VoiceSample[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busySampleId, setBusySampleId] = useState<string | null>(null); // Loading or deleting
+  const [playingSampleId, setPlayingSampleId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopPlayback = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      URL.revokeObjectURL(audioRef.current.src);
+      audioRef.current = null;
+    }
+    setPlayingSampleId(null);
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    getVoiceSamples(voiceId)
+      .then(setSamples)
+      .catch((err) => {
+        console.error('Failed to load voice samples:', err);
+        setError(err.message || 'Failed to load voice samples.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [voiceId, refreshKey]);
+
+  // Stop playback when switching voices or leaving the form
+  useEffect(() => stopPlayback, [voiceId]);
+
+  const handlePlay = async (sample: VoiceSample) => {
+    if (playingSampleId === sample.sample_id) {
+      stopPlayback();
+      return;
+    }
+    stopPlayback();
+    setBusySampleId(sample.sample_id);
+    setError(null);
+    try {
+      const audio = new Audio(URL.createObjectURL(await getVoiceSampleAudio(voiceId, sample.sample_id)));
+      audio.onended = stopPlayback;
+      audioRef.current = audio;
+      await audio.play();
+      setPlayingSampleId(sample.sample_id);
+    } catch (err: any) {
+      console.error('Failed to play voice sample:', err);
+      setError(err.message || 'Failed to play voice sample.');
+    } finally {
+      setBusySampleId(null);
+    }
+  };
+
+  const handleDelete = async (sample: VoiceSample) => {
+    if (!window.confirm(`Remove ${sample.file_name} from this voice?`)) return;
+    if (playingSampleId === sample.sample_id) stopPlayback();
+    setBusySampleId(sample.sample_id);
+    setError(null);
+    try {
+      await deleteVoiceSample(voiceId, sample.sample_id);
+      setSamples(prev => prev.filter(s => s.sample_id !== sample.sample_id));
+    } catch (err: any) {
+      console.error('Failed to delete voice sample:', err);
+      setError(err.message || 'Failed to delete voice sample.');
+    } finally {
+      setBusySampleId(null);
+    }
+  };
+
+  const knownDurations = samples.filter(sample => sample.duration_secs !== null);
+  const totalDuration = knownDurations.reduce((total, sample) => total + sample.duration_secs!, 0);
+
+  return (
+    <div>
+      <p className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">
+        Current samples
+        {knownDurations.length > 0 && (
+          <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+            {knownDurations.length < samples.length ? 'at least ' : ''}{formatDuration(totalDuration)} total
+          </span>
+        )}
+      </p>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 bg-red-50 p-2 rounded-md mb-2 dark:bg-red-900/30 dark:text-red-400">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isLoading && samples.length === 0 ? (
+        <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading samples...
+        </div>
+      ) : samples.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No samples are listed for this voice.</p>
+      ) : (
+        <ul className="space-y-1">
+          {samples.map((sample) => {
+            const isBusy = busySampleId === sample.sample_id;
+            const duration = formatDuration(sample.duration_secs);
+            return (
+              <li key={sample.sample_id} className="text-sm text-gray-600 dark:text-gray-400 flex items-center justify-between bg-gray-50 dark:bg-gray-900/40 p-2 rounded">
+                <span className="min-w-0 truncate" title={sample.file_name}>
+                  {sample.file_name}
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-500">
+                    {duration ? `${duration} · ` : ''}{formatSize(sample.size_bytes)}
+                  </span>
+                </span>
+                <div className="flex-shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePlay(sample)}
+                    disabled={isBusy}
+                    className="mr-1"
+                    icon={isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : playingSampleId === sample.sample_id ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  ><></></Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(sample)}
+                    disabled={isBusy || samples.length === 1}
+                    className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                    icon={<Trash2 className="h-4 w-4" />}
+                  ><></></Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSamplesList;
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw, Save, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import Button from './Button';
+import FormField from './FormField';
+import {
+  getVoiceDefaultSettings,
+  getVoicePresets,
+  createVoicePreset,
+  updateVoicePreset,
+  deleteVoicePreset,
+  VoicePreset,
+  VoiceSettings,
+} from '../services/elevenlabs';
+
+type VoiceSettingsControlsProps = {
+  voiceId: string;
+  settings: VoiceSettings | null; // null until changed: the voice's own defaults apply
+  presetId: string | null;        // Preset the settings were taken from, unchanged since
+  onChange: (settings: VoiceSettings | null, presetId: string | null) => void;
+  canUseStyle?: boolean;        // Whether the selected model takes these; the controls are disabled otherwise
+  canUseSpeakerBoost?: boolean;
+  disabled?: boolean;
+  onUnauthorized: () => void;
+};
+
+const SLIDERS: { key: 'stability' | 'similarity_boost' | 'style'; label: string; description: string }[] = [
+  { key: 'stability', label: 'Stability', description: 'Lower sounds more expressive, higher more consistent' },
+  { key: 'similarity_boost', label: 'Similarity', description: 'How closely to stick to the original voice' },
+  { key: 'style', label: 'Style exaggeration', description: "Amplifies the speaker's style; can make speech less stable" },
+];
+
+const selectClassName = 'block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 pl-4 pr-10 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50';
+
+const UNSUPPORTED = 'Not available with the selected model';
+
+const VoiceSettingsControls: React.FC<VoiceSettingsControlsProps> = ({
+  voiceId,
+  settings,
+  presetId,
+  onChange,
+  canUseStyle = true,
+  canUseSpeakerBoost = true,
+  disabled = false,
+  onUnauthorized,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [defaults, setDefaults] = useState<VoiceSettings | null>(null);
+  const [presets, setPresets] = useState<VoicePreset[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [presetName, setPresetName] = useState<string | null>(null); // Set while naming a new preset
+  const [error, setError] = useState<string | null>(null);
+
+  const handleError = (err: Error, fallback: string) => {
+    console.error(`${fallback}:`, err);
+    if (err.message?.includes('Unauthorized')) {
+      onUnauthorized();
+      return;
+    }
+    setError(err.message || `${fallback}.`);
+  };
+
+  // Presets and defaults belong to one voice, so reload them when it changes
+  useEffect(() => {
+    setDefaults(null);
+    setPresets([]);
+    setPresetName(null);
+    setError(null);
+  }, [voiceId]);
+
+  useEffect(() => {
+    if (!isOpen || !voiceId || defaults) return;
+    let cancelled = false; // A slow response must not land on the next voice
+    setIsLoading(true);
+    Promise.all([getVoiceDefaultSettings(voiceId), getVoicePresets(voiceId)])
+      .then(([voiceDefaults, voicePresets]) => {
+        if (cancelled) return;
+        setDefaults(voiceDefaults);
+        setPresets(voicePresets);
+      })
+      .catch((err) => {
+        console.error('Failed to load voice settings:', err);
+        if (err.message?.includes('Unauthorized')) {
+          onUnauthorized();
+          return;
+        }
+        if (!cancelled) setError(err.message || 'Failed to load voice settings.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, voiceId, defaults, onUnauthorized]);
+
+  const current = settings ?? defaults;
+  const selectedPreset = presets.find(preset => preset.id === presetId) ?? null;
+  const summary = selectedPreset ? selectedPreset.name : settings ? 'Custom' : 'Voice defaults';
+
+  const handleSliderChange = (key: 'stability' | 'similarity_boost' | 'style', value: number) => {
+    if (!current) return;
+    onChange({ ...current, [key]: value }, null);
+  };
+
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = presets.find(p => p.id === e.target.value);
+    if (preset) {
+      onChange(preset.settings, preset.id);
+    } else {
+      onChange(settings, null);
+    }
+  };
+
+  // Fetches the voice's defaults again, in case they changed since the form loaded
+  const handleReset = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDefaults(await getVoiceDefaultSettings(voiceId));
+      onChange(null, null);
+    } catch (err: any) {
+      handleError(err, 'Failed to load voice settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Saving under an existing name overwrites that preset
+  const handleSavePreset = async () => {
+    const name = presetName?.trim();
+    if (!name || !current) return;
+    const existing = presets.find(preset => preset.name.toLowerCase() === name.toLowerCase());
+    if (existing && !window.confirm(`Replace the settings saved as "${existing.name}"?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = existing
+        ? await updateVoicePreset(voiceId, existing.id, { settings: current })
+        : await createVoicePreset(voiceId, name, current);
+      setPresets(prev => [...prev.filter(preset => preset.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetName(null);
+      onChange(saved.settings, saved.id);
+    } catch (err: any) {
+      handleError(err, 'Failed to save voice preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset || !window.confirm(`Delete the "${selectedPreset.name}" preset?`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await deleteVoicePreset(voiceId, selectedPreset.id);
+      setPresets(prev => prev.filter(preset => preset.id !== selectedPreset.id));
+      onChange(settings, null); // Keep using the settings, just not as a preset
+    } catch (err: any) {
+      handleError(err, 'Failed to delete voice preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isBusy = disabled || isLoading || isSaving;
+
+  return (
+    <div className="rounded-md border border-gray-200 dark:border-gray-700">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={!voiceId}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300 disabled:opacity-50"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center">
+          <SlidersHorizontal className="h-4 w-4 mr-2 text-indigo-600 dark:text-indigo-400" />
+          Voice settings
+          <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{summary}</span>
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+          {error && (
+            <div className="flex items-center text-sm text-red-600 bg-red-50 p-2 rounded-md dark:bg-red-900/30 dark:text-red-400">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {!current ? (
+            isLoading && (
+              <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading voice settings...
+              </div>
+            )
+          ) : (
+            <>
+              <FormField label="Preset" htmlFor="voice-preset-select" description="Settings you saved for this voice">
+                <div className="flex items-center gap-2">
+                  <select id="voice-preset-select" value={selectedPreset?.id ?? ''} onChange={handlePresetChange} disabled={isBusy} className={selectClassName}>
+                    <option value="">{settings ? 'Custom settings' : 'Voice defaults'}</option>
+                    {presets.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </select>
+                  {selectedPreset && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleDeletePreset}
+                      disabled={isBusy}
+                      className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      icon={<Trash2 className="h-4 w-4" />}
+                    ><></></Button>
+                  )}
+                </div>
+              </FormField>
+
+              {SLIDERS.map(({ key, label, description }) => {
+                const isSupported = key !== 'style' || canUseStyle;
+                return (
+                  <FormField key={key} label={label} htmlFor={`voice-setting-${key}`} description={isSupported ? description : UNSUPPORTED}>
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="range"
+                        id={`voice-setting-${key}`}
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={current[key] ?? 0}
+                        onChange={(e) => handleSliderChange(key, Number(e.target.value))}
+                        disabled={isBusy || !isSupported}
+                        className="flex-grow accent-indigo-600 disabled:opacity-50"
+                      />
+                      <span className="w-10 text-right text-sm text-gray-600 dark:text-gray-400">{Math.round((current[key] ?? 0) * 100)}%</span>
+                    </div>
+                  </FormField>
+                );
+              })}
+
+              <label className={`flex items-center text-sm text-gray-700 dark:text-gray-300 ${canUseSpeakerBoost ? '' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={current.use_speaker_boost ?? false}
+                  onChange={(e) => onChange({ ...current, use_speaker_boost: e.target.checked }, null)}
+                  disabled={isBusy || !canUseSpeakerBoost}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Speaker boost
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {canUseSpeakerBoost ? 'Closer to the original speaker, a little slower' : UNSUPPORTED}
+                </span>
+              </label>
+
+              {presetName !== null ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleSavePreset();
+                      }
+                    }}
+                    maxLength={50}
+                    placeholder='e.g. "warm" or "energetic"'
+                    aria-label="Preset name"
+                    disabled={isBusy}
+                    autoFocus
+                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 sm:text-sm"
+                  />
+                  <Button
+                    type="button"
+                    variant="primary"
+                    size="sm"
+                    onClick={handleSavePreset}
+                    disabled={isBusy || !presetName.trim()}
+                    icon={isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  >
+                    Save
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setPresetName(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPresetName(selectedPreset?.name ?? '')}
+                    disabled={isBusy}
+                    icon={<Save className="h-4 w-4 mr-1" />}
+                  >
+                    Save as preset
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleReset}
+                    disabled={isBusy}
+                    icon={isLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                  >
+                    Reset to voice defaults
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSettingsControls;
@@ -1,8 +1,11 @@
 import { Occasion, Voice } from '../types';
 
-export const MAX_CHARACTERS = 500;
+// Longest greeting the server accepts. Text over the model's per-request limit
+// is generated in parts and joined.
+export const MAX_CHARACTERS = 20000;
 
-export const API_URL = "https://api.elevenlabs.io/v1";
+// Greetings at least this long are generated as a background job, with progress
+export const BACKGROUND_TTS_MIN_CHARACTERS = 300;
 
 export const OCCASIONS: Occasion[] = [
   {
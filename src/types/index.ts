@@ -13,8 +13,11 @@ export type Occasion = {
 
 export type AudioState = {
   isGenerating: boolean;
+  isStreaming: boolean; // Playback can start, but the audio is still arriving
   isPlaying: boolean;
   audioUrl: string | null;
+  downloadUrl: string | null; // Blob URL of the complete audio; null while streaming
+  greetingId: string | null; // Stored greeting the current audio belongs to
   error: string | null;
 };
 
@@ -24,7 +27,18 @@ export type GreetingFormData = {
   voiceId: string;
 };
 
+// Contact a greeting is being written for, picked in the studio or the contacts page
+export type GreetingRecipient = {
+  contactId: string;
+  occasionId?: string; // Occasion the greeting is for; defaults to the contact's next one
+};
+
+// Top-level views for a signed-in user
+export type AppPage = 'studio' | 'contacts' | 'usage';
+
 export interface CurrentUser {
   userId: string;
   email: string;
+  emailVerified?: boolean; // Missing for sessions stored before verification existed
+  isAdmin?: boolean;
 }
\ No newline at end of file
@@ -1,9 +1,33 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Vite inlines every VITE_ variable into the public bundle. Secrets (API keys,
+// JWT secrets) belong in unprefixed variables read by the backend only.
+const SECRET_NAME_PATTERN = /KEY|SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL/i;
+// Values shaped like API keys or JWTs, whatever the variable is called
+const SECRET_VALUE_PATTERNS = [/^sk_[A-Za-z0-9]{16,}$/, /^[a-f0-9]{32,}$/i, /^eyJ[\w-]+\.[\w-]+\.[\w-]+$/];
+
+// Fails the build (and dev server startup) if a secret-looking VITE_ variable is set
+const rejectPublicSecrets = (): Plugin => ({
+  name: 'reject-public-secrets',
+  configResolved(config) {
+    const offending = Object.entries(config.env)
+      .filter(([name, value]) => name.startsWith('VITE_') && typeof value === 'string' && value !== '')
+      .filter(([name, value]) => SECRET_NAME_PATTERN.test(name) || SECRET_VALUE_PATTERNS.some((pattern) => pattern.test(value)))
+      .map(([name]) => name);
+
+    if (offending.length > 0) {
+      throw new Error(
+        `Refusing to expose ${offending.join(', ')} to the browser bundle. ` +
+        'VITE_ variables are public; move secrets to an unprefixed variable (e.g. ELEVENLABS_API_KEY) read by the backend.'
+      );
+    }
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [rejectPublicSecrets(), react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },